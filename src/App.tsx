@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Sidebar, type TabId } from './components/Sidebar';
 import { Home } from './components/Home';
 import { TrunkingSimulator } from './components/simulations/TrunkingSimulator';
@@ -8,40 +8,35 @@ import { CellularSimulator } from './components/simulations/CellularSimulator';
 import { DopplerSimulator } from './components/simulations/DopplerSimulator';
 import { SignalRecoverySimulator } from './components/simulations/SignalRecoverySimulator';
 import { ModulationSimulator } from './components/simulations/ModulationSimulator';
+import { MimoSimulator } from './components/simulations/MimoSimulator';
 import { motion, AnimatePresence } from 'motion/react';
-import { Construction, Menu } from 'lucide-react';
+import { Menu } from 'lucide-react';
 import { HapticsProvider } from './contexts/HapticsContext';
-
-function Placeholder({ title }: { title: string }) {
-  return (
-    <div className="flex flex-col items-center justify-center h-full min-h-[600px] p-8 text-center space-y-6">
-      <div className="w-20 h-20 bg-slate-100 rounded-3xl flex items-center justify-center">
-        <Construction className="w-10 h-10 text-slate-400" />
-      </div>
-      <div className="space-y-2">
-        <h2 className="text-2xl font-bold text-slate-800">{title}</h2>
-        <p className="text-slate-500 max-w-md mx-auto">
-          This simulation is currently under development. It will feature interactive models based on the course notes.
-        </p>
-      </div>
-      <button 
-        onClick={() => window.location.reload()}
-        className="px-6 py-2 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition-colors"
-      >
-        Go Back
-      </button>
-    </div>
-  );
-}
+import { buildRoute, parseRoute } from './utils/routing';
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<TabId>('home');
+  const [activeTab, setActiveTab] = useState<TabId>(() => parseRoute(window.location.hash).tab);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
+  // Browser back/forward moves between tabs; each simulator re-reads its
+  // parameters from the restored URL when it mounts.
+  useEffect(() => {
+    const handlePopState = () => setActiveTab(parseRoute(window.location.hash).tab);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = (tab: TabId) => {
+    if (tab !== activeTab) {
+      window.history.pushState(null, '', buildRoute(tab));
+    }
+    setActiveTab(tab);
+  };
+
   const renderContent = () => {
     switch (activeTab) {
       case 'home':
-        return <Home onStart={(id) => setActiveTab(id)} />;
+        return <Home onStart={navigate} />;
       case 'cellular':
         return <CellularSimulator />;
       case 'trunking':
@@ -57,9 +52,9 @@ export default function App() {
       case 'modulation':
         return <ModulationSimulator />;
       case 'mimo':
-        return <Placeholder title="5G MIMO & Beamforming" />;
+        return <MimoSimulator />;
       default:
-        return <Home onStart={(id) => setActiveTab(id)} />;
+        return <Home onStart={navigate} />;
     }
   };
 
@@ -69,7 +64,7 @@ export default function App() {
         <Sidebar 
           activeTab={activeTab} 
           onTabChange={(tab) => {
-            setActiveTab(tab);
+            navigate(tab);
             setIsSidebarOpen(false);
           }} 
           isOpen={isSidebarOpen}
@@ -81,7 +81,7 @@ export function Home({ onStart }: HomeProps) {
       desc: 'Spatial multiplexing and antenna arrays for massive connectivity.',
       icon: Cpu,
       color: 'bg-rose-500',
-      disabled: true
+      disabled: false
     },
   ] as const;
 
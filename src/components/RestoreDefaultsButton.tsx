@@ -0,0 +1,29 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { TabId } from './Sidebar';
+import { useHaptics } from '../contexts/HapticsContext';
+import { resetModuleState } from '../utils/storage';
+
+interface RestoreDefaultsButtonProps {
+  moduleId: TabId;
+  onRestore?: () => void;
+}
+
+export function RestoreDefaultsButton({ moduleId, onRestore }: RestoreDefaultsButtonProps) {
+  const { triggerHaptic } = useHaptics();
+
+  return (
+    <button
+      onClick={() => {
+        resetModuleState(moduleId);
+        onRestore?.();
+        triggerHaptic('selection');
+      }}
+      title="Restore the default parameters of this module"
+      className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold text-sm transition-colors shrink-0"
+    >
+      <RotateCcw className="w-4 h-4" />
+      Restore Defaults
+    </button>
+  );
+}
@@ -0,0 +1,244 @@
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { BookMarked, Download, Save, Trash2, Upload, XCircle } from 'lucide-react';
+import type { TabId } from './Sidebar';
+import { useHaptics } from '../contexts/HapticsContext';
+import {
+  deleteScenario,
+  getModuleSnapshot,
+  getSavedScenarios,
+  replaceModuleState,
+  saveScenarios,
+  subscribe,
+} from '../utils/storage';
+import {
+  BUILT_IN_SCENARIOS,
+  parseScenarioFile,
+  pickScenarioParams,
+  serializeScenarios,
+  type Scenario,
+} from '../utils/scenarios';
+
+interface ScenarioPanelProps {
+  moduleId: TabId;
+  /** Called after a scenario is applied, so the simulator can reset its run. */
+  onLoad?: () => void;
+}
+
+export function ScenarioPanel({ moduleId, onLoad }: ScenarioPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allSaved = useSyncExternalStore(subscribe, getSavedScenarios);
+  const saved = allSaved.filter(s => s.moduleId === moduleId);
+  const builtIn = BUILT_IN_SCENARIOS.filter(s => s.moduleId === moduleId);
+
+  const loadScenario = (scenario: Scenario) => {
+    replaceModuleState(moduleId, scenario.params);
+    onLoad?.();
+    setMessage({ type: 'success', text: `Loaded "${scenario.name}"` });
+    triggerHaptic('success');
+  };
+
+  const saveCurrent = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    saveScenarios([{ moduleId, name: trimmed, params: pickScenarioParams(moduleId, getModuleSnapshot(moduleId)) }]);
+    setName('');
+    setMessage({ type: 'success', text: `Saved "${trimmed}"` });
+    triggerHaptic('success');
+  };
+
+  const exportSaved = () => {
+    const blob = new Blob([serializeScenarios(saved)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${moduleId}-scenarios.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    triggerHaptic('selection');
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const scenarios = parseScenarioFile(await file.text());
+      saveScenarios(scenarios);
+      setMessage({ type: 'success', text: `Imported ${scenarios.length} scenario${scenarios.length === 1 ? '' : 's'}` });
+      triggerHaptic('success');
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Import failed' });
+      triggerHaptic('error');
+    }
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    setMessage(null);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => {
+          setIsOpen(true);
+          triggerHaptic('selection');
+        }}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold text-sm transition-colors shrink-0"
+      >
+        <BookMarked className="w-4 h-4" />
+        Scenarios
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="bg-white rounded-3xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-8 relative"
+            >
+              <button
+                onClick={close}
+                className="absolute top-6 right-6 p-2 hover:bg-slate-100 rounded-full transition-colors"
+              >
+                <XCircle className="w-6 h-6 text-slate-400" />
+              </button>
+
+              <div className="flex items-center gap-3 mb-8">
+                <div className="w-12 h-12 bg-indigo-100 rounded-2xl flex items-center justify-center">
+                  <BookMarked className="w-6 h-6 text-indigo-600" />
+                </div>
+                <div>
+                  <h3 className="text-2xl font-bold text-slate-900">Scenarios</h3>
+                  <p className="text-slate-500 text-sm">Save, load and share parameter sets for this module</p>
+                </div>
+              </div>
+
+              {message && (
+                <div className={`mb-6 p-3 rounded-xl text-xs font-bold ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+                  {message.text}
+                </div>
+              )}
+
+              <div className="space-y-8">
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">Save Current Setup</h4>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      saveCurrent();
+                    }}
+                    className="flex gap-2"
+                  >
+                    <input
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Scenario name"
+                      maxLength={60}
+                      className="flex-1 px-4 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!name.trim()}
+                      className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-sm hover:bg-indigo-700 transition-colors disabled:opacity-40"
+                    >
+                      <Save className="w-4 h-4" />
+                      Save
+                    </button>
+                  </form>
+                  {saved.some(s => s.name === name.trim()) && (
+                    <p className="text-[10px] text-amber-600 mt-2">A scenario with this name exists and will be overwritten.</p>
+                  )}
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">Textbook Scenarios</h4>
+                  <div className="space-y-2">
+                    {builtIn.map(scenario => (
+                      <div key={scenario.name} className="flex items-center gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                        <div className="flex-1">
+                          <p className="text-sm font-bold text-slate-800">{scenario.name}</p>
+                          {scenario.description && <p className="text-xs text-slate-500 mt-1">{scenario.description}</p>}
+                        </div>
+                        <button
+                          onClick={() => loadScenario(scenario)}
+                          className="px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg text-xs font-bold hover:bg-indigo-100 transition-colors"
+                        >
+                          Load
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                <section>
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest">My Scenarios</h4>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-xs font-bold hover:bg-slate-200 transition-colors"
+                      >
+                        <Upload className="w-3 h-3" />
+                        Import
+                      </button>
+                      <button
+                        onClick={exportSaved}
+                        disabled={saved.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-xs font-bold hover:bg-slate-200 transition-colors disabled:opacity-40"
+                      >
+                        <Download className="w-3 h-3" />
+                        Export
+                      </button>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) importFile(file);
+                          e.target.value = '';
+                        }}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {saved.length === 0 && (
+                      <p className="text-xs text-slate-400 italic">No saved scenarios yet.</p>
+                    )}
+                    {saved.map(scenario => (
+                      <div key={scenario.name} className="flex items-center gap-4 p-4 bg-white rounded-2xl border border-slate-200">
+                        <p className="flex-1 text-sm font-bold text-slate-800">{scenario.name}</p>
+                        <button
+                          onClick={() => loadScenario(scenario)}
+                          className="px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg text-xs font-bold hover:bg-indigo-100 transition-colors"
+                        >
+                          Load
+                        </button>
+                        <button
+                          onClick={() => {
+                            deleteScenario(moduleId, scenario.name);
+                            triggerHaptic('warning');
+                          }}
+                          className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
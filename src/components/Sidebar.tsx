@@ -41,7 +41,7 @@ const navItems = [
   { id: 'multipath', label: 'Multipath Fading', icon: Zap, disabled: false },
   { id: 'signal-recovery', label: 'Signal Recovery', icon: RotateCcw, disabled: false },
   { id: 'modulation', label: 'Modulation Lab', icon: Radio, disabled: false },
-  { id: 'mimo', label: '5G MIMO', icon: Cpu, disabled: true },
+  { id: 'mimo', label: '5G MIMO', icon: Cpu, disabled: false },
 ] as const;
 
 export function Sidebar({ activeTab, onTabChange, isOpen, onClose }: SidebarProps) {
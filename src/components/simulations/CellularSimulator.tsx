@@ -8,15 +8,95 @@ import {
   Activity, 
   ArrowRight,
   AlertTriangle,
-  Maximize2
+  Maximize2,
+  Map as MapIcon,
+  Crosshair
 } from 'lucide-react';
 import { InlineMath } from 'react-katex';
 import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
+import {
+  axialToPoint,
+  buildSiteGrid,
+  childCells,
+  clusterIndex,
+  clusterSize,
+  coChannelCells,
+  hexDistance,
+  hexVertices,
+  MAX_SHIFT,
+  MAX_SPLIT_DEPTH,
+  pointToAxial,
+  probeSinr,
+  SECTOR_COUNT,
+  sectorInterferers,
+  splitDepths,
+  splitKey,
+  worstCaseSir,
+  type Sectoring,
+  type SinrModel,
+  type SinrProbe
+} from '../../utils/cellular';
+import { InterferencePanel } from './cellular/InterferencePanel';
+import { SectoringPanel } from './cellular/SectoringPanel';
+import { SinrPanel } from './cellular/SinrPanel';
+import { CellSplittingPanel } from './cellular/CellSplittingPanel';
+import { ChannelAllocationPanel } from './cellular/ChannelAllocationPanel';
+import { ReuseCatalogPanel } from './cellular/ReuseCatalogPanel';
+import { MapExportMenu } from './cellular/MapExportMenu';
+
+type MapView = 'reuse' | 'sinr';
+
+const SITE_EXTENT = 10; // Cell steps from the centre; covers the whole canvas
+const SPLIT_EXTENT = 3; // Cells this many steps from the centre can be split
+const HEATMAP_STEP = 4; // Canvas pixels per SINR sample
+const SINR_RANGE: [number, number] = [-10, 40]; // dB span of the colour scale
+
+// Colour ramp for the SINR heatmap, dark red (poor) to teal (excellent)
+const SINR_STOPS: [number, [number, number, number]][] = [
+  [0, [127, 29, 29]],
+  [0.2, [239, 68, 68]],
+  [0.4, [245, 158, 11]],
+  [0.6, [132, 204, 22]],
+  [0.8, [5, 150, 105]],
+  [1, [14, 116, 144]]
+];
+
+function sinrColor(db: number): [number, number, number] {
+  const t = Math.min(1, Math.max(0, (db - SINR_RANGE[0]) / (SINR_RANGE[1] - SINR_RANGE[0])));
+  for (let k = 1; k < SINR_STOPS.length; k++) {
+    const [t1, c1] = SINR_STOPS[k];
+    if (t <= t1) {
+      const [t0, c0] = SINR_STOPS[k - 1];
+      const f = (t - t0) / (t1 - t0);
+      return [0, 1, 2].map(c => Math.round(c0[c] + (c1[c] - c0[c]) * f)) as [number, number, number];
+    }
+  }
+  return SINR_STOPS[SINR_STOPS.length - 1][1];
+}
+
+interface ProbeState {
+  x: number; // Canvas pixels
+  y: number;
+  result: SinrProbe;
+}
 
 export function CellularSimulator() {
   // Simulation Parameters
-  const [i, setI] = useState(2);
-  const [j, setJ] = useState(1);
+  const [i, setI] = useSimulatorState('cellular', 'i', 2, { min: 0, max: MAX_SHIFT });
+  const [j, setJ] = useSimulatorState('cellular', 'j', 1, { min: 0, max: MAX_SHIFT });
+  const [pathLossExponent, setPathLossExponent] = useSimulatorState('cellular', 'pathLossExponent', 4, { min: 2, max: 5 }); // n
+  const [interfererTiers, setInterfererTiers] = useSimulatorState('cellular', 'interfererTiers', 1, { allowed: [1, 2] });
+  const [requiredSir, setRequiredSir] = useSimulatorState('cellular', 'requiredSir', 18, { min: 0, max: 30 }); // dB
+  const [sectoring, setSectoring] = useSimulatorState<Sectoring>('cellular', 'sectoring', 'omni', { allowed: ['omni', '120', '60'] });
+  const sectors = SECTOR_COUNT[sectoring];
+  const [mapView, setMapView] = useSimulatorState<MapView>('cellular', 'mapView', 'reuse', { allowed: ['reuse', 'sinr'] });
+  const [txPower] = useSimulatorState('cellular', 'txPower', 43, { min: 20, max: 50 }); // dBm
+  const [noiseFloor] = useSimulatorState('cellular', 'noiseFloor', -100, { min: -120, max: -60 }); // dBm
+  const [splitCells, setSplitCells] = useSimulatorState('cellular', 'splitCells', [] as string[]);
+  const [probe, setProbe] = useState<ProbeState | null>(null);
   const R = 30; // Hexagon radius
   const { triggerHaptic } = useHaptics();
 
@@ -24,15 +104,23 @@ export function CellularSimulator() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   // Derived Calculations
-  const N = useMemo(() => {
-    const val = i * i + i * j + j * j;
-    return val === 0 ? 1 : val;
-  }, [i, j]);
+  const N = clusterSize(i, j);
 
   const D = useMemo(() => {
     return (R * Math.sqrt(3 * N)).toFixed(1);
   }, [R, N]);
 
+  const coChannel = useMemo(() => coChannelCells(i, j, interfererTiers), [i, j, interfererTiers]);
+  const interferers = useMemo(() => sectorInterferers(coChannel, sectors), [coChannel, sectors]);
+  const worst = useMemo(() => worstCaseSir(interferers, pathLossExponent, sectors), [interferers, pathLossExponent, sectors]);
+
+  const siteGrid = useMemo(() => buildSiteGrid(i, j, SITE_EXTENT), [i, j]);
+  const depths = useMemo(() => splitDepths(splitCells, SPLIT_EXTENT), [splitCells]);
+  const sinrModel = useMemo<SinrModel>(
+    () => ({ pathLossExponent, txPowerDbm: txPower, noiseFloorDbm: noiseFloor, sectors }),
+    [pathLossExponent, txPower, noiseFloor, sectors]
+  );
+
   // Colors for clusters
   const clusterColors = useMemo(() => {
     const colors = [
@@ -52,8 +140,10 @@ export function CellularSimulator() {
       '#f43f5e', // Rose
       '#10b981', // Emerald
     ];
-    // If N is larger than colors array, we'll cycle
-    return Array.from({ length: N }, (_, idx) => colors[idx % colors.length]);
+    // Beyond the palette, spread further hues by the golden angle so no two sets share a colour
+    return Array.from({ length: N }, (_, idx) =>
+      idx < colors.length ? colors[idx] : `hsl(${Math.round((idx * 137.508) % 360)}, 70%, 50%)`
+    );
   }, [N]);
 
   // Hexagon Drawing Helper (Pointy-Topped)
@@ -80,6 +170,165 @@ export function CellularSimulator() {
     ctx.globalAlpha = 1.0;
   };
 
+  // Sector boundaries run from the site to every (or every other) corner
+  const drawSectorLines = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
+    const corners = hexVertices({ x, y }, R);
+    ctx.beginPath();
+    for (let k = 0; k < 6; k += 6 / sectors) {
+      ctx.moveTo(x, y);
+      ctx.lineTo(corners[k].x, corners[k].y);
+    }
+    ctx.strokeStyle = '#475569';
+    ctx.lineWidth = 0.75;
+    ctx.globalAlpha = 0.5;
+    ctx.stroke();
+    ctx.globalAlpha = 1.0;
+  };
+
+  // Shades sector 0 of a site, the one sharing the serving sector's channels
+  const fillSector = (ctx: CanvasRenderingContext2D, x: number, y: number, color: string) => {
+    const corners = hexVertices({ x, y }, R);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    for (let k = 0; k <= 6 / sectors; k++) ctx.lineTo(corners[k].x, corners[k].y);
+    ctx.closePath();
+    ctx.fillStyle = color;
+    ctx.globalAlpha = 0.45;
+    ctx.fill();
+    ctx.globalAlpha = 1.0;
+  };
+
+  // SINR heatmap: one sample per HEATMAP_STEP pixels, scaled up smoothly
+  const drawSinrHeatmap = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const cols = Math.ceil(width / HEATMAP_STEP);
+    const rows = Math.ceil(height / HEATMAP_STEP);
+    const buffer = document.createElement('canvas');
+    buffer.width = cols;
+    buffer.height = rows;
+    const bufferCtx = buffer.getContext('2d');
+    if (!bufferCtx) return;
+    const image = bufferCtx.createImageData(cols, rows);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const point = {
+          x: ((col + 0.5) * HEATMAP_STEP - width / 2) / R,
+          y: ((row + 0.5) * HEATMAP_STEP - height / 2) / R
+        };
+        const result = probeSinr(point, siteGrid, sinrModel);
+        const [red, green, blue] = result ? sinrColor(result.sinrDb) : [241, 245, 249];
+        const idx = (row * cols + col) * 4;
+        image.data[idx] = red;
+        image.data[idx + 1] = green;
+        image.data[idx + 2] = blue;
+        image.data[idx + 3] = 255;
+      }
+    }
+    bufferCtx.putImageData(image, 0, 0);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(buffer, 0, 0, cols * HEATMAP_STEP, rows * HEATMAP_STEP);
+
+    // Cell outlines and sites on top, with the centre cell's co-channel sites marked
+    siteGrid.sites.forEach(site => {
+      const x = width / 2 + site.x * R;
+      const y = height / 2 + site.y * R;
+      if (x < -R * 2 || x > width + R * 2 || y < -R * 2 || y > height + R * 2) return;
+      const corners = hexVertices({ x, y }, R);
+      ctx.beginPath();
+      corners.forEach((c, k) => (k === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y)));
+      ctx.closePath();
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 0.75;
+      ctx.globalAlpha = 0.6;
+      ctx.stroke();
+      ctx.globalAlpha = 1.0;
+      if (sectors > 1) drawSectorLines(ctx, x, y);
+      ctx.beginPath();
+      ctx.arc(x, y, site.cluster === 0 ? 3.5 : 2, 0, Math.PI * 2);
+      ctx.fillStyle = site.cluster === 0 ? '#0f172a' : '#ffffff';
+      ctx.fill();
+    });
+  };
+
+  // Split cells: the finer lattice's hexagons, coloured by their own reuse pattern, clipped to the parent
+  const drawSplitCell = (ctx: CanvasRenderingContext2D, q: number, r: number, depth: number, width: number, height: number) => {
+    const parent = axialToPoint(q, r, R);
+    const corners = hexVertices({ x: width / 2 + parent.x, y: height / 2 + parent.y }, R);
+    const radius = R / Math.pow(2, depth);
+    ctx.save();
+    ctx.beginPath();
+    corners.forEach((c, k) => (k === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y)));
+    ctx.closePath();
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.clip();
+    childCells({ q, r }, depth).forEach(child => {
+      const p = axialToPoint(child.q, child.r, radius);
+      const idx = clusterIndex(child.q, child.r, i, j);
+      drawHexagon(ctx, width / 2 + p.x, height / 2 + p.y, radius, clusterColors[idx], idx === 0);
+      ctx.beginPath();
+      ctx.arc(width / 2 + p.x, height / 2 + p.y, 1.5, 0, Math.PI * 2);
+      ctx.fillStyle = '#1e293b';
+      ctx.fill();
+    });
+    ctx.restore();
+    ctx.beginPath();
+    corners.forEach((c, k) => (k === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y)));
+    ctx.closePath();
+    ctx.strokeStyle = '#1e293b';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  };
+
+  // Dashed outline around the cells that can be split
+  const drawServiceArea = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    ctx.beginPath();
+    for (let q = -SPLIT_EXTENT; q <= SPLIT_EXTENT; q++) {
+      for (let r = -SPLIT_EXTENT; r <= SPLIT_EXTENT; r++) {
+        if (hexDistance({ q, r }) > SPLIT_EXTENT) continue;
+        const center = axialToPoint(q, r, R);
+        const corners = hexVertices(center, R);
+        corners.forEach((a, k) => {
+          const b = corners[(k + 1) % 6];
+          // The neighbour across this edge is the mirror image of the centre in it
+          const across = pointToAxial({ x: a.x + b.x - center.x, y: a.y + b.y - center.y }, R);
+          if (hexDistance(across) <= SPLIT_EXTENT) return;
+          ctx.moveTo(width / 2 + a.x, height / 2 + a.y);
+          ctx.lineTo(width / 2 + b.x, height / 2 + b.y);
+        });
+      }
+    }
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = '#2563eb';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    ctx.setLineDash([]);
+  };
+
+  const handleSplit = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (mapView !== 'reuse') return;
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * canvas.width - canvas.width / 2;
+    const y = ((e.clientY - rect.top) / rect.height) * canvas.height - canvas.height / 2;
+    const cell = pointToAxial({ x, y }, R);
+    if (hexDistance(cell) > SPLIT_EXTENT || (depths.get(splitKey(cell)) ?? 0) >= MAX_SPLIT_DEPTH) {
+      triggerHaptic('error');
+      return;
+    }
+    setSplitCells(prev => [...prev, splitKey(cell)]);
+    triggerHaptic('medium');
+  };
+
+  const handleProbe = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (mapView !== 'sinr') return;
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+    const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+    const result = probeSinr({ x: (x - canvas.width / 2) / R, y: (y - canvas.height / 2) / R }, siteGrid, sinrModel);
+    setProbe(result ? { x, y, result } : null);
+  };
+
   // Main Render Loop
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -91,6 +340,11 @@ export function CellularSimulator() {
     const height = canvas.height;
     ctx.clearRect(0, 0, width, height);
 
+    if (mapView === 'sinr') {
+      drawSinrHeatmap(ctx, width, height);
+      return;
+    }
+
     const hexWidth = Math.sqrt(3) * R;
     const verticalSpacing = 1.5 * R;
 
@@ -103,25 +357,35 @@ export function CellularSimulator() {
     for (let r = -rRange; r <= rRange; r++) {
       for (let q = -qRange; q <= qRange; q++) {
         // Pointy-Topped Axial to Pixel Conversion
-        const x = width / 2 + R * Math.sqrt(3) * (q + r / 2.0);
-        const y = height / 2 + R * (3.0 / 2.0) * r;
+        const offset = axialToPoint(q, r, R);
+        const x = width / 2 + offset.x;
+        const y = height / 2 + offset.y;
 
         // Skip if way off screen to save performance
         if (x < -R * 2 || x > width + R * 2 || y < -R * 2 || y > height + R * 2) continue;
 
-        // Cluster Index Logic: (q * i + r * (i + j)) % N
-        const clusterIdx = (((q * i + r * (i + j)) % N) + N) % N;
+        // Channel set: the cell's coset modulo the co-channel lattice
+        const clusterIdx = clusterIndex(q, r, i, j);
         const color = clusterColors[clusterIdx];
         const isRed = clusterIdx === 0;
 
-        drawHexagon(ctx, x, y, R, color, isRed);
-        
         if (isRed) {
           centers.push({ x, y, color, isRed, q, r });
         }
+
+        const depth = depths.get(splitKey({ q, r })) ?? 0;
+        if (depth > 0) {
+          drawSplitCell(ctx, q, r, depth, width, height);
+          continue;
+        }
+
+        drawHexagon(ctx, x, y, R, color, isRed);
+        if (sectors > 1) drawSectorLines(ctx, x, y);
       }
     }
 
+    drawServiceArea(ctx, width, height);
+
     // Draw Co-Channel Distance Line from (0,0) to (i,j)
     const centerCell = centers.find(c => c.q === 0 && c.r === 0);
     const targetCell = centers.find(c => c.q === i && c.r === j);
@@ -149,16 +413,52 @@ export function CellularSimulator() {
       ctx.shadowBlur = 0;
     }
 
-  }, [i, j, N, D, clusterColors]);
+    // Interfering base stations, ringed by tier, and the worst-case mobile.
+    // With sectoring, co-channel sites whose sector faces away are greyed out.
+    if (sectors > 1) fillSector(ctx, width / 2, height / 2, '#1e293b');
+    coChannel.forEach(cell => {
+      const p = axialToPoint(cell.q, cell.r, R);
+      const active = interferers.includes(cell);
+      if (active && sectors > 1) fillSector(ctx, width / 2 + p.x, height / 2 + p.y, '#0f172a');
+      ctx.beginPath();
+      ctx.arc(width / 2 + p.x, height / 2 + p.y, R * 0.45, 0, Math.PI * 2);
+      ctx.setLineDash(cell.tier === 1 ? [] : [3, 3]);
+      ctx.strokeStyle = active ? '#0f172a' : '#94a3b8';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = active ? '#0f172a' : '#94a3b8';
+      ctx.font = 'bold 10px Inter';
+      ctx.textAlign = 'center';
+      ctx.fillText(`T${cell.tier}`, width / 2 + p.x, height / 2 + p.y + 4);
+    });
+
+    const mx = width / 2 + worst.location.x * R;
+    const my = height / 2 + worst.location.y * R;
+    ctx.strokeStyle = '#f43f5e';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(mx, my, 6, 0, Math.PI * 2);
+    ctx.moveTo(mx - 10, my);
+    ctx.lineTo(mx + 10, my);
+    ctx.moveTo(mx, my - 10);
+    ctx.lineTo(mx, my + 10);
+    ctx.stroke();
+
+  }, [i, j, N, D, clusterColors, coChannel, interferers, worst, sectors, mapView, siteGrid, sinrModel, depths]);
 
   return (
     <div className="flex flex-col gap-8 p-8 max-w-7xl mx-auto">
       <header className="flex flex-col gap-2">
         <div className="flex items-center justify-between">
           <h2 className="text-3xl font-bold text-slate-900 tracking-tight">Cellular Network Design</h2>
-          <div className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-xl font-bold text-sm border border-blue-100">
-            <Maximize2 className="w-4 h-4" />
-            Frequency Reuse Simulation
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-xl font-bold text-sm border border-blue-100">
+              <Maximize2 className="w-4 h-4" />
+              Frequency Reuse Simulation
+            </div>
+            <ScenarioPanel moduleId="cellular" />
+            <RestoreDefaultsButton moduleId="cellular" />
           </div>
         </div>
         <p className="text-slate-500 max-w-2xl">
@@ -182,7 +482,7 @@ export function CellularSimulator() {
                   <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{i}</span>
                 </div>
                 <input 
-                  type="range" min="0" max="4" step="1" 
+                  type="range" min="0" max={MAX_SHIFT} step="1" 
                   value={i} 
                   onChange={(e) => {
                     setI(parseInt(e.target.value));
@@ -198,7 +498,7 @@ export function CellularSimulator() {
                   <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{j}</span>
                 </div>
                 <input 
-                  type="range" min="0" max="4" step="1" 
+                  type="range" min="0" max={MAX_SHIFT} step="1" 
                   value={j} 
                   onChange={(e) => {
                     setJ(parseInt(e.target.value));
@@ -217,6 +517,56 @@ export function CellularSimulator() {
                 </div>
               )}
 
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-semibold text-slate-600">Path-Loss Exponent (n)</label>
+                  <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{pathLossExponent.toFixed(1)}</span>
+                </div>
+                <input
+                  type="range" min="2" max="5" step="0.1"
+                  value={pathLossExponent}
+                  onChange={(e) => {
+                    setPathLossExponent(parseFloat(e.target.value));
+                    triggerHaptic('selection');
+                  }}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+              </div>
+
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-slate-600">Interfering Tiers</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[1, 2].map(tiers => (
+                    <button
+                      key={tiers}
+                      onClick={() => {
+                        setInterfererTiers(tiers);
+                        triggerHaptic('selection');
+                      }}
+                      className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${interfererTiers === tiers ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                    >
+                      {tiers === 1 ? '1st Tier (6)' : '1st + 2nd (18)'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-semibold text-slate-600">Required S/I</label>
+                  <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{requiredSir} dB</span>
+                </div>
+                <input
+                  type="range" min="0" max="30" step="0.5"
+                  value={requiredSir}
+                  onChange={(e) => {
+                    setRequiredSir(parseFloat(e.target.value));
+                    triggerHaptic('selection');
+                  }}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+              </div>
+
               <div className="pt-6 border-t border-slate-100 space-y-4">
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-slate-500">Cluster Size (N)</span>
@@ -226,6 +576,10 @@ export function CellularSimulator() {
                   <span className="text-sm text-slate-500">Reuse Distance (D)</span>
                   <span className="text-lg font-black text-slate-800">{D}m</span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-slate-500">Worst-Case S/I</span>
+                  <span className={`text-lg font-black ${worst.sirDb >= requiredSir ? 'text-emerald-600' : 'text-rose-600'}`}>{worst.sirDb.toFixed(1)} dB</span>
+                </div>
               </div>
             </div>
           </section>
@@ -258,7 +612,29 @@ export function CellularSimulator() {
                 <Grid className="w-5 h-5 text-blue-600" />
                 Hexagonal Frequency Reuse Map
               </h3>
-              <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <MapExportMenu i={i} j={j} colors={clusterColors} width={800} height={500} radius={R} />
+                <div className="flex bg-slate-100 p-1 rounded-xl">
+                  {([['reuse', 'Reuse', MapIcon], ['sinr', 'SINR', Crosshair]] as const).map(([id, label, Icon]) => (
+                    <button
+                      key={id}
+                      onClick={() => {
+                        setMapView(id);
+                        setProbe(null);
+                        triggerHaptic('selection');
+                      }}
+                      className={`flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-bold transition-all ${mapView === id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      <Icon className="w-3 h-3" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {mapView === 'reuse' ? (
+              <div className="flex flex-wrap items-center gap-4 mb-4">
                 <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
                   <div className="w-3 h-3 rounded bg-red-500" />
                   Frequency Band A
@@ -267,26 +643,103 @@ export function CellularSimulator() {
                   <div className="w-3 h-3 rounded bg-slate-200" />
                   Other Bands
                 </div>
+                <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                  <div className="w-3 h-3 rounded-full border-2 border-slate-900" />
+                  Interferer (Tier)
+                </div>
+                <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                  <div className="w-3 h-3 rounded-full border-2 border-rose-500" />
+                  Worst-Case Mobile
+                </div>
+                <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                  <div className="w-3 h-3 rounded border-2 border-dashed border-blue-600" />
+                  Splittable Area
+                </div>
               </div>
-            </div>
+            ) : (
+              <div className="flex items-center gap-3 mb-4 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                <span>{SINR_RANGE[0]} dB</span>
+                <div
+                  className="h-3 flex-1 max-w-xs rounded"
+                  style={{ background: `linear-gradient(to right, ${SINR_STOPS.map(([t, c]) => `rgb(${c.join(',')}) ${t * 100}%`).join(', ')})` }}
+                />
+                <span>{SINR_RANGE[1]}+ dB</span>
+                <span className="ml-2 text-slate-400 normal-case tracking-normal font-medium">Hover the map to probe a location</span>
+              </div>
+            )}
 
             <div className="relative bg-slate-50 rounded-2xl border border-slate-100 overflow-hidden">
               <canvas 
                 ref={canvasRef}
                 width={800}
                 height={500}
-                className="w-full h-auto block"
+                className={`w-full h-auto block ${mapView === 'sinr' ? 'cursor-crosshair' : 'cursor-pointer'}`}
+                onClick={handleSplit}
+                onMouseMove={handleProbe}
+                onMouseLeave={() => setProbe(null)}
               />
-              
-              <div className="absolute bottom-6 left-6 bg-white/90 backdrop-blur p-4 rounded-2xl border border-slate-200 shadow-lg max-w-xs">
-                <div className="flex items-center gap-2 mb-2">
-                  <Zap className="w-4 h-4 text-amber-500" />
-                  <span className="text-xs font-bold text-slate-800">Co-Channel Highlight</span>
+
+              {mapView === 'sinr' && probe && (() => {
+                const serving = { x: 400 + probe.result.serving.x * R, y: 250 + probe.result.serving.y * R };
+                const strongest = probe.result.strongest;
+                const interferer = strongest ? { x: 400 + strongest.x * R, y: 250 + strongest.y * R } : null;
+                return (
+                  <>
+                    <svg viewBox="0 0 800 500" className="absolute inset-0 w-full h-full pointer-events-none">
+                      <line x1={probe.x} y1={probe.y} x2={serving.x} y2={serving.y} stroke="#0f172a" strokeWidth={2} />
+                      {interferer && (
+                        <line x1={probe.x} y1={probe.y} x2={interferer.x} y2={interferer.y} stroke="#f43f5e" strokeWidth={2} strokeDasharray="6 4" />
+                      )}
+                      <circle cx={serving.x} cy={serving.y} r={6} fill="none" stroke="#0f172a" strokeWidth={2} />
+                      {interferer && <circle cx={interferer.x} cy={interferer.y} r={6} fill="none" stroke="#f43f5e" strokeWidth={2} />}
+                      <circle cx={probe.x} cy={probe.y} r={4} fill="#ffffff" stroke="#0f172a" strokeWidth={2} />
+                    </svg>
+                    <div
+                      className="absolute pointer-events-none bg-white/95 backdrop-blur p-3 rounded-xl border border-slate-200 shadow-lg text-[10px] font-mono space-y-1 min-w-44"
+                      style={{
+                        left: `${(probe.x / 800) * 100}%`,
+                        top: `${(probe.y / 500) * 100}%`,
+                        transform: `translate(${probe.x > 560 ? 'calc(-100% - 12px)' : '12px'}, ${probe.y > 350 ? 'calc(-100% - 12px)' : '12px'})`
+                      }}
+                    >
+                      <div className="flex justify-between gap-4">
+                        <span className="text-slate-400">Serving</span>
+                        <span className="font-bold text-slate-800">({probe.result.serving.q}, {probe.result.serving.r}) · set {probe.result.serving.cluster + 1}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-slate-400">Signal</span>
+                        <span className="font-bold text-slate-800">{probe.result.signalDbm.toFixed(1)} dBm</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-slate-400">Strongest I</span>
+                        <span className="font-bold text-rose-600">
+                          {strongest ? `(${strongest.q}, ${strongest.r}) ${strongest.powerDbm.toFixed(1)} dBm` : 'None'}
+                        </span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-slate-400">Total I</span>
+                        <span className="font-bold text-slate-800">{Number.isFinite(probe.result.interferenceDbm) ? `${probe.result.interferenceDbm.toFixed(1)} dBm` : '—'}</span>
+                      </div>
+                      <div className="flex justify-between gap-4 pt-1 border-t border-slate-100">
+                        <span className="text-slate-500 font-bold">SINR</span>
+                        <span className="font-bold text-blue-600">{probe.result.sinrDb.toFixed(1)} dB</span>
+                      </div>
+                    </div>
+                  </>
+                );
+              })()}
+
+              {mapView === 'reuse' && (
+                <div className="absolute bottom-6 left-6 bg-white/90 backdrop-blur p-4 rounded-2xl border border-slate-200 shadow-lg max-w-xs">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Zap className="w-4 h-4 text-amber-500" />
+                    <span className="text-xs font-bold text-slate-800">Co-Channel Highlight</span>
+                  </div>
+                  <p className="text-[10px] text-slate-500 leading-relaxed">
+                    The dashed line represents the distance <strong>D</strong> between cells using the same frequency band. Increasing <strong>N</strong> increases <strong>D</strong>, reducing interference.
+                  </p>
                 </div>
-                <p className="text-[10px] text-slate-500 leading-relaxed">
-                  The dashed line represents the distance <strong>D</strong> between cells using the same frequency band. Increasing <strong>N</strong> increases <strong>D</strong>, reducing interference.
-                </p>
-              </div>
+              )}
             </div>
           </div>
 
@@ -297,8 +750,8 @@ export function CellularSimulator() {
                 <Activity className="w-5 h-5" />
               </div>
               <div>
-                <p className="text-[10px] font-bold text-slate-400 uppercase">Interference</p>
-                <p className="text-sm font-bold text-slate-800">{N > 7 ? 'Low' : N > 3 ? 'Moderate' : 'High'}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase">Interference (S/I)</p>
+                <p className="text-sm font-bold text-slate-800">{worst.sirDb.toFixed(1)} dB {worst.sirDb >= requiredSir ? '· Meets target' : '· Below target'}</p>
               </div>
             </div>
             <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex items-center gap-4">
@@ -322,6 +775,56 @@ export function CellularSimulator() {
           </div>
         </div>
       </div>
+
+      {mapView === 'sinr' && (
+        <SinrPanel grid={siteGrid} model={sinrModel} requiredSir={requiredSir} worstSir={worst.sirDb} />
+      )}
+
+      <ReuseCatalogPanel
+        i={i}
+        j={j}
+        pathLossExponent={pathLossExponent}
+        requiredSir={requiredSir}
+        sectors={sectors}
+        onSelect={(pattern) => {
+          setI(pattern.i);
+          setJ(pattern.j);
+        }}
+      />
+
+      <InterferencePanel
+        i={i}
+        j={j}
+        pathLossExponent={pathLossExponent}
+        tiers={interfererTiers}
+        requiredSir={requiredSir}
+        sectors={sectors}
+        onApplyCluster={(pattern) => {
+          setI(pattern.i);
+          setJ(pattern.j);
+        }}
+      />
+
+      <SectoringPanel
+        i={i}
+        j={j}
+        pathLossExponent={pathLossExponent}
+        tiers={interfererTiers}
+        sectoring={sectoring}
+        onSectoringChange={setSectoring}
+      />
+
+      <CellSplittingPanel
+        i={i}
+        j={j}
+        pathLossExponent={pathLossExponent}
+        splits={splitCells}
+        extent={SPLIT_EXTENT}
+        onUndo={() => setSplitCells(prev => prev.slice(0, -1))}
+        onReset={() => setSplitCells([])}
+      />
+
+      <ChannelAllocationPanel i={i} j={j} />
     </div>
   );
 }
@@ -13,13 +13,16 @@ import {
 } from 'lucide-react';
 import { InlineMath } from 'react-katex';
 import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
 
 export function DopplerSimulator() {
   const { triggerHaptic, startRepeatingHaptic } = useHaptics();
 
   // --- State ---
-  const [velocityKmH, setVelocityKmH] = useState(100); // km/h
-  const [frequencyGHz, setFrequencyGHz] = useState(2.5); // GHz
+  const [velocityKmH, setVelocityKmH] = useSimulatorState('doppler', 'velocity', 100, { min: 0, max: 200 }); // km/h
+  const [frequencyGHz, setFrequencyGHz] = useSimulatorState('doppler', 'frequency', 2.5, { min: 1, max: 5 }); // GHz
   const [isPlaying, setIsPlaying] = useState(true);
   const [showInfo, setShowInfo] = useState(false);
   
@@ -346,6 +349,8 @@ export function DopplerSimulator() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+           <ScenarioPanel moduleId="doppler" />
+           <RestoreDefaultsButton moduleId="doppler" />
            <button
             onClick={() => setShowInfo(true)}
             className="p-2 bg-slate-100 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
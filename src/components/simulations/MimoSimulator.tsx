@@ -0,0 +1,499 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import {
+  Settings2,
+  Info,
+  Cpu,
+  Plus,
+  Trash2,
+  Radar,
+  AlertTriangle,
+  Smartphone
+} from 'lucide-react';
+import { InlineMath, BlockMath } from 'react-katex';
+import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
+import { toDb } from '../../utils/math';
+import { beamformingGain, beamformingSinr } from '../../utils/mimo';
+import { CapacityView } from './mimo/CapacityView';
+
+interface MimoUser {
+  id: number;
+  x: number;
+  y: number;
+}
+
+// Map geometry
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 400;
+const ARRAY_X = CANVAS_WIDTH / 2;
+const ARRAY_Y = 370;
+const ELEMENT_PITCH_PX = 12; // Visual spacing per wavelength of element spacing
+const BEAM_LENGTH_PX = 300;
+
+// Polar plot geometry
+const POLAR_WIDTH = 400;
+const POLAR_HEIGHT = 230;
+const POLAR_RADIUS = 190;
+const POLAR_FLOOR_DB = -30;
+
+// Propagation
+const REFERENCE_DIST_PX = 150; // Distance at which the transmit SNR is defined
+const PATH_LOSS_EXP = 3;
+const MAX_USERS = 4;
+
+const USER_COLORS = ['#e11d48', '#2563eb', '#059669', '#d97706'];
+
+const DEFAULT_USERS: MimoUser[] = [
+  { id: 1, x: 250, y: 150 },
+  { id: 2, x: 560, y: 200 },
+];
+
+export function MimoSimulator() {
+  const { triggerHaptic } = useHaptics();
+
+  // Parameters
+  const [view, setView] = useSimulatorState<'beamforming' | 'multiplexing'>('mimo', 'view', 'beamforming', { allowed: ['beamforming', 'multiplexing'] });
+  const [elements, setElements] = useSimulatorState('mimo', 'elements', 8, { min: 2, max: 32 });
+  const [spacing, setSpacing] = useSimulatorState('mimo', 'spacing', 0.5, { min: 0.1, max: 1.5 }); // d / λ
+  const [snrDb, setSnrDb] = useSimulatorState('mimo', 'snr', 10, { min: -10, max: 30 });
+  const [users, setUsers] = useSimulatorState('mimo', 'users', DEFAULT_USERS);
+
+  const [draggedUserId, setDraggedUserId] = useState<number | null>(null);
+  const mapRef = useRef<HTMLCanvasElement>(null);
+  const polarRef = useRef<HTMLCanvasElement>(null);
+
+  // Geometry: angle from broadside (positive to the right) and distance
+  const userGeometry = useMemo(() => users.map(u => {
+    const dx = u.x - ARRAY_X;
+    const dy = ARRAY_Y - u.y;
+    const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+    return {
+      ...u,
+      angleDeg: Math.atan2(dx, dy) * 180 / Math.PI,
+      dist,
+      pathGain: Math.pow(REFERENCE_DIST_PX / dist, PATH_LOSS_EXP),
+    };
+  }), [users]);
+
+  const sinrs = useMemo(
+    () => beamformingSinr(userGeometry, elements, spacing, snrDb),
+    [userGeometry, elements, spacing, snrDb]
+  );
+
+  // Grating lobes appear once d / λ ≥ 1 / (1 + |sin θs|)
+  const hasGratingLobes = userGeometry.some(u => spacing >= 1 / (1 + Math.abs(Math.sin(u.angleDeg * Math.PI / 180))));
+  const halfPowerBeamwidth = spacing > 0 ? 0.886 / (elements * spacing) * 180 / Math.PI : 0; // Broadside approximation
+
+  // Map Canvas Drawing
+  useEffect(() => {
+    const canvas = mapRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    // Beams: normalized array factor as a filled lobe around the array
+    userGeometry.forEach((user, idx) => {
+      ctx.beginPath();
+      for (let deg = -90; deg <= 90; deg += 1) {
+        const gain = beamformingGain(elements, spacing, user.angleDeg, deg) / elements;
+        const r = BEAM_LENGTH_PX * gain;
+        const rad = deg * Math.PI / 180;
+        const px = ARRAY_X + r * Math.sin(rad);
+        const py = ARRAY_Y - r * Math.cos(rad);
+        if (deg === -90) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      }
+      ctx.closePath();
+      ctx.fillStyle = USER_COLORS[idx % USER_COLORS.length];
+      ctx.globalAlpha = 0.12;
+      ctx.fill();
+      ctx.globalAlpha = 0.6;
+      ctx.strokeStyle = USER_COLORS[idx % USER_COLORS.length];
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+      ctx.globalAlpha = 1.0;
+
+      // Line of sight to the user
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(ARRAY_X, ARRAY_Y);
+      ctx.lineTo(user.x, user.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
+
+    // Ground
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.beginPath();
+    ctx.moveTo(0, ARRAY_Y);
+    ctx.lineTo(CANVAS_WIDTH, ARRAY_Y);
+    ctx.stroke();
+
+    // Array elements
+    const arrayWidth = (elements - 1) * spacing * ELEMENT_PITCH_PX;
+    ctx.fillStyle = '#1e293b';
+    for (let n = 0; n < elements; n++) {
+      const ex = ARRAY_X - arrayWidth / 2 + n * spacing * ELEMENT_PITCH_PX;
+      ctx.fillRect(ex - 2, ARRAY_Y - 6, 4, 12);
+    }
+    ctx.font = 'bold 10px Inter';
+    ctx.textAlign = 'center';
+    ctx.fillText(`ULA · ${elements} elements`, ARRAY_X, ARRAY_Y + 22);
+
+    // Users
+    userGeometry.forEach((user, idx) => {
+      ctx.fillStyle = USER_COLORS[idx % USER_COLORS.length];
+      ctx.shadowBlur = draggedUserId === user.id ? 12 : 6;
+      ctx.shadowColor = 'rgba(0,0,0,0.2)';
+      ctx.beginPath();
+      ctx.arc(user.x, user.y, 14, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 10px Inter';
+      ctx.fillText(`U${idx + 1}`, user.x, user.y + 4);
+    });
+  }, [userGeometry, elements, spacing, draggedUserId]);
+
+  // Polar Array-Factor Plot
+  useEffect(() => {
+    const canvas = polarRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const cx = POLAR_WIDTH / 2;
+    const cy = POLAR_HEIGHT - 20;
+    ctx.clearRect(0, 0, POLAR_WIDTH, POLAR_HEIGHT);
+
+    // dB rings
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '9px Inter';
+    ctx.textAlign = 'left';
+    for (let db = 0; db >= POLAR_FLOOR_DB; db -= 10) {
+      const r = POLAR_RADIUS * (1 - db / POLAR_FLOOR_DB);
+      if (r <= 0) continue;
+      ctx.beginPath();
+      ctx.arc(cx, cy, r, Math.PI, 2 * Math.PI);
+      ctx.stroke();
+      ctx.fillText(`${db} dB`, cx + 4, cy - r + 10);
+    }
+
+    // Angle spokes
+    ctx.textAlign = 'center';
+    for (let deg = -90; deg <= 90; deg += 30) {
+      const rad = deg * Math.PI / 180;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy);
+      ctx.lineTo(cx + POLAR_RADIUS * Math.sin(rad), cy - POLAR_RADIUS * Math.cos(rad));
+      ctx.stroke();
+      ctx.fillText(`${deg}°`, cx + (POLAR_RADIUS + 10) * Math.sin(rad), cy - (POLAR_RADIUS + 10) * Math.cos(rad) + 3);
+    }
+
+    // One pattern per beam
+    userGeometry.forEach((user, idx) => {
+      ctx.strokeStyle = USER_COLORS[idx % USER_COLORS.length];
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      for (let deg = -90; deg <= 90; deg += 0.5) {
+        const gainDb = toDb(beamformingGain(elements, spacing, user.angleDeg, deg) / elements);
+        const r = POLAR_RADIUS * Math.max(0, 1 - gainDb / POLAR_FLOOR_DB);
+        const rad = deg * Math.PI / 180;
+        const px = cx + r * Math.sin(rad);
+        const py = cy - r * Math.cos(rad);
+        if (deg === -90) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      }
+      ctx.stroke();
+    });
+    ctx.lineWidth = 1;
+  }, [userGeometry, elements, spacing]);
+
+  // Mouse Handlers for Dragging
+  const toCanvasPoint = (e: React.MouseEvent) => {
+    const rect = mapRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: (e.clientX - rect.left) * CANVAS_WIDTH / rect.width,
+      y: (e.clientY - rect.top) * CANVAS_HEIGHT / rect.height,
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const point = toCanvasPoint(e);
+    if (!point) return;
+    const clickedUser = users.find(u => Math.hypot(point.x - u.x, point.y - u.y) <= 20);
+    if (clickedUser) {
+      setDraggedUserId(clickedUser.id);
+      triggerHaptic('selection');
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (draggedUserId === null) return;
+    const point = toCanvasPoint(e);
+    if (!point) return;
+    const x = Math.min(Math.max(point.x, 15), CANVAS_WIDTH - 15);
+    const y = Math.min(Math.max(point.y, 15), ARRAY_Y - 30);
+    setUsers(prev => prev.map(u => u.id === draggedUserId ? { ...u, x, y } : u));
+  };
+
+  const handleMouseUp = () => {
+    if (draggedUserId !== null) {
+      triggerHaptic('selection');
+    }
+    setDraggedUserId(null);
+  };
+
+  const addUser = () => {
+    if (users.length >= MAX_USERS) return;
+    const id = Math.max(0, ...users.map(u => u.id)) + 1;
+    setUsers(prev => [...prev, { id, x: 100 + Math.random() * 600, y: 80 + Math.random() * 200 }]);
+    triggerHaptic('selection');
+  };
+
+  const removeUser = (id: number) => {
+    setUsers(prev => prev.filter(u => u.id !== id));
+    triggerHaptic('selection');
+  };
+
+  return (
+    <div className="flex flex-col gap-8 p-8 max-w-7xl mx-auto">
+      <header className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold text-slate-900 tracking-tight">5G MIMO & Beamforming</h2>
+          <div className="flex items-center gap-2">
+            <ScenarioPanel moduleId="mimo" />
+            <RestoreDefaultsButton moduleId="mimo" />
+          </div>
+        </div>
+        <div className="flex items-end justify-between gap-4">
+          <p className="text-slate-500 max-w-2xl">
+            {view === 'beamforming'
+              ? 'Steer one beam per user from a uniform linear array. Drag the users around the map to see how beam overlap turns into inter-user interference.'
+              : 'Send several streams over the same time and frequency. Decompose a random Rayleigh channel into eigen-channels and see how capacity grows with the antenna count.'}
+          </p>
+          <div className="flex bg-slate-100 p-1 rounded-xl shrink-0">
+            {(['beamforming', 'multiplexing'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => {
+                  setView(v);
+                  triggerHaptic('selection');
+                }}
+                className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${view === v ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {v === 'beamforming' ? 'Beamforming' : 'Spatial Multiplexing'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      {view === 'multiplexing' ? (
+        <CapacityView />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Controls */}
+          <div className="lg:col-span-1 space-y-6">
+            <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+              <div className="flex items-center gap-2 mb-6">
+                <Settings2 className="w-5 h-5 text-rose-600" />
+                <h3 className="font-bold text-slate-800">Array Parameters</h3>
+              </div>
+
+              <div className="space-y-8">
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Elements (N)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{elements}</span>
+                  </div>
+                  <input
+                    type="range" min="2" max="32" step="1"
+                    value={elements}
+                    onChange={(e) => {
+                      setElements(parseInt(e.target.value));
+                      triggerHaptic('selection');
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-rose-600"
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Spacing (d)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{spacing.toFixed(2)} λ</span>
+                  </div>
+                  <input
+                    type="range" min="0.1" max="1.5" step="0.05"
+                    value={spacing}
+                    onChange={(e) => {
+                      setSpacing(parseFloat(e.target.value));
+                      triggerHaptic('selection');
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-rose-600"
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Transmit SNR (ρ)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{snrDb} dB</span>
+                  </div>
+                  <input
+                    type="range" min="-10" max="30" step="1"
+                    value={snrDb}
+                    onChange={(e) => {
+                      setSnrDb(parseInt(e.target.value));
+                      triggerHaptic('selection');
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-rose-600"
+                  />
+                </div>
+
+                {hasGratingLobes && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-xl flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 shrink-0" />
+                    <p className="text-[10px] text-amber-700 font-medium">
+                      Grating lobes: with d = {spacing.toFixed(2)}λ at least one beam has a second full-gain lobe. Keep d ≤ λ/2 to avoid them.
+                    </p>
+                  </div>
+                )}
+
+                <div className="pt-6 border-t border-slate-100 space-y-4">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Array Gain</span>
+                    <span className="font-mono font-bold text-rose-600">{toDb(elements).toFixed(1)} dB</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Beamwidth (broadside)</span>
+                    <span className="font-mono font-bold text-slate-800">{halfPowerBeamwidth.toFixed(1)}°</span>
+                  </div>
+                </div>
+              </div>
+            </section>
+
+            {/* Educational Side Panel */}
+            <section className="bg-slate-900 rounded-2xl p-6 text-slate-300 shadow-xl">
+              <h4 className="font-bold text-white mb-4 flex items-center gap-2">
+                <Info className="w-4 h-4 text-rose-400" />
+                Understanding the Simulation
+              </h4>
+              <div className="space-y-4 text-xs leading-relaxed">
+                <p>
+                  <strong className="text-rose-400">Steering Vector:</strong> A wave arriving from angle θ reaches each element with a phase lag of <InlineMath math="2\pi d \sin\theta" /> relative to its neighbour.
+                </p>
+                <BlockMath math="\mathbf{a}(\theta) = [1, e^{j2\pi d\sin\theta}, \dots, e^{j2\pi(N-1)d\sin\theta}]^T" />
+                <p>
+                  <strong className="text-rose-400">Beamforming:</strong> Using <InlineMath math="\mathbf{w} = \mathbf{a}(\theta_s)/\sqrt{N}" /> as weights adds the element signals in phase towards <InlineMath math="\theta_s" />, giving an array gain of <i>N</i>.
+                </p>
+                <p>
+                  <strong className="text-rose-400">Interference:</strong> Users that sit inside each other's main lobe or side lobes receive energy meant for someone else, which caps their SINR no matter how much power is used.
+                </p>
+              </div>
+            </section>
+          </div>
+
+          {/* Visualizations */}
+          <div className="lg:col-span-3 space-y-6">
+            <div className="bg-white rounded-3xl p-6 shadow-sm border border-slate-200 overflow-hidden">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                  <Cpu className="w-5 h-5 text-rose-600" />
+                  Beam Map
+                </h3>
+                <button
+                  onClick={addUser}
+                  disabled={users.length >= MAX_USERS}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-rose-50 text-rose-600 rounded-lg text-xs font-bold hover:bg-rose-100 transition-colors disabled:opacity-40"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add User
+                </button>
+              </div>
+              <div className="relative bg-slate-50 rounded-2xl border border-slate-100 cursor-crosshair">
+                <canvas
+                  ref={mapRef}
+                  width={CANVAS_WIDTH}
+                  height={CANVAS_HEIGHT}
+                  onMouseDown={handleMouseDown}
+                  onMouseMove={handleMouseMove}
+                  onMouseUp={handleMouseUp}
+                  onMouseLeave={handleMouseUp}
+                  className="w-full h-auto block"
+                />
+                {draggedUserId !== null && (
+                  <div className="absolute top-4 left-4 bg-rose-600 text-white text-[10px] font-bold px-2 py-1 rounded-full animate-pulse">
+                    DRAGGING USER {users.findIndex(u => u.id === draggedUserId) + 1}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+                <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                  <Radar className="w-4 h-4 text-rose-600" />
+                  Array Factor (Polar, normalized)
+                </h4>
+                <canvas
+                  ref={polarRef}
+                  width={POLAR_WIDTH}
+                  height={POLAR_HEIGHT}
+                  className="w-full h-auto block"
+                />
+              </div>
+
+              <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+                <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                  <Smartphone className="w-4 h-4 text-rose-600" />
+                  Per-User Link Quality
+                </h4>
+                <div className="space-y-3">
+                  {users.length === 0 && (
+                    <p className="text-xs text-slate-400 italic">No users. Add one to start beamforming.</p>
+                  )}
+                  {userGeometry.map((user, idx) => (
+                    <div key={user.id} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-100">
+                      <div
+                        className="w-8 h-8 rounded-full flex items-center justify-center text-white text-[10px] font-bold shrink-0"
+                        style={{ backgroundColor: USER_COLORS[idx % USER_COLORS.length] }}
+                      >
+                        U{idx + 1}
+                      </div>
+                      <div className="flex-1 grid grid-cols-3 gap-2 text-[10px] font-mono">
+                        <div>
+                          <p className="text-slate-400 uppercase">Angle</p>
+                          <p className="font-bold text-slate-700">{user.angleDeg.toFixed(1)}°</p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400 uppercase">SINR</p>
+                          <p className="font-bold text-slate-800">{toDb(sinrs[idx]).toFixed(1)} dB</p>
+                        </div>
+                        <div>
+                          <p className="text-slate-400 uppercase">Rate</p>
+                          <p className="font-bold text-emerald-600">{Math.log2(1 + sinrs[idx]).toFixed(2)} b/s/Hz</p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => removeUser(user.id)}
+                        className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,9 @@ import {
 } from 'chart.js';
 import { clsx } from 'clsx';
 import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
 
 ChartJS.register(
   CategoryScale,
@@ -35,9 +38,9 @@ export function ModulationSimulator() {
   const { triggerHaptic } = useHaptics();
 
   // State
-  const [bandwidth, setBandwidth] = useState(5); // kHz (1-10)
-  const [carrierFreqLog, setCarrierFreqLog] = useState(5); // Log scale for 30kHz - 3GHz
-  const [modulationIndex, setModulationIndex] = useState(0.5); // ka (0.1 - 1.0)
+  const [bandwidth, setBandwidth] = useSimulatorState('modulation', 'bandwidth', 5, { min: 1, max: 10 }); // kHz (1-10)
+  const [carrierFreqLog, setCarrierFreqLog] = useSimulatorState('modulation', 'carrier', 5, { min: 0, max: 100 }); // Log scale for 30kHz - 3GHz
+  const [modulationIndex, setModulationIndex] = useSimulatorState('modulation', 'modulationIndex', 0.5, { min: 0.1, max: 1 }); // ka (0.1 - 1.0)
   
   const [isPlaying, setIsPlaying] = useState(true);
   const [time, setTime] = useState(0);
@@ -390,12 +393,14 @@ export function ModulationSimulator() {
           <div className="p-3 bg-purple-100 rounded-xl">
             <Radio className="w-6 h-6 text-purple-600" />
           </div>
-          <div>
+          <div className="flex-1">
             <h1 className="text-2xl font-bold text-slate-900">Modulation Lab</h1>
             <p className="text-slate-500">
               Interactive Standard AM Simulation: Antenna Size, Time Domain, and Frequency Spectrum.
             </p>
           </div>
+          <ScenarioPanel moduleId="modulation" />
+          <RestoreDefaultsButton moduleId="modulation" />
         </div>
       </div>
 
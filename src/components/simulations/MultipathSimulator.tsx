@@ -25,6 +25,9 @@ import {
 } from 'lucide-react';
 import { InlineMath, BlockMath } from 'react-katex';
 import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
 
 interface Point {
   x: number;
@@ -50,7 +53,7 @@ export function MultipathSimulator() {
   // State
   const [rxX, setRxX] = useState(100);
   const [isMoving, setIsMoving] = useState(true);
-  const [buildings, setBuildings] = useState<Building[]>([
+  const [buildings, setBuildings] = useSimulatorState<Building[]>('multipath', 'buildings', [
     { id: 1, x: 300, y: 200 },
     { id: 2, x: 500, y: 150 },
     { id: 3, x: 650, y: 250 },
@@ -203,8 +206,9 @@ export function MultipathSimulator() {
     if (draggedBuildingId === null) return;
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return;
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    // Keep the building on the canvas when the pointer leaves it
+    const x = Math.min(Math.max(e.clientX - rect.left, 0), CANVAS_WIDTH);
+    const y = Math.min(Math.max(e.clientY - rect.top, 0), CANVAS_HEIGHT);
 
     setBuildings(prev => prev.map(b => 
       b.id === draggedBuildingId ? { ...b, x, y } : b
@@ -224,6 +228,8 @@ export function MultipathSimulator() {
         <div className="flex items-center justify-between">
           <h2 className="text-3xl font-bold text-slate-900 tracking-tight">Multipath & Impulse Response</h2>
           <div className="flex items-center gap-2">
+            <ScenarioPanel moduleId="multipath" />
+            <RestoreDefaultsButton moduleId="multipath" />
             <button 
               onClick={() => {
                 setIsMoving(!isMoving);
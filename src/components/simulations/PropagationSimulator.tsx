@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   LineChart, 
   Line, 
@@ -28,174 +28,309 @@ import {
   AlertTriangle,
   Play,
   Pause,
-  RotateCcw
+  RotateCcw,
+  Radio,
+  CloudFog,
+  Dices
 } from 'lucide-react';
 import { InlineMath, BlockMath } from 'react-katex';
 import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
+import { PathLossComparisonChart } from './handoff/PathLossComparisonChart';
+import { A3TriggerChart } from './handoff/A3TriggerChart';
+import { CorridorPanel, STATION_COLORS } from './handoff/CorridorPanel';
+import { MonteCarloPanel } from './handoff/MonteCarloPanel';
+import { UmbrellaPanel } from './handoff/UmbrellaPanel';
+import {
+  HANDOFF_MODES,
+  PING_PONG_TIME,
+  SPEED_ESTIMATORS,
+  SWEEP_MODES,
+  TTT_VALUES,
+  MAX_STATIONS,
+  advanceHandoffRun,
+  coverageHoles,
+  createHandoffRun,
+  initialStation,
+  simulateRun,
+  umbrellaSpeedSweep,
+  type BaseStation,
+  type HandoffConfig,
+  type HandoffEvent,
+  type HandoffMode,
+  type HandoffRun,
+  type HandoffStats,
+  type SpeedEstimator,
+  type TracePoint
+} from '../../utils/handoff';
+import {
+  HATA_AREAS,
+  MODEL_LABELS,
+  PATH_LOSS_MODELS,
+  pathLoss,
+  shadowAt,
+  shadowingField,
+  type HataArea,
+  type LinkParams,
+  type PathLossModel
+} from '../../utils/propagation';
+
+const DEFAULT_CORRIDOR: BaseStation[] = [
+  { id: 1, pos: 0, txPower: 30, height: 30 },
+  { id: 2, pos: 2000, txPower: 30, height: 30 },
+  { id: 3, pos: 4000, txPower: 30, height: 30 },
+  { id: 4, pos: 6000, txPower: 30, height: 30 }
+];
+const MAX_SEED = 99999;
+const UMBRELLA_ID = 0; // Corridor stations are numbered from 1
+const UMBRELLA_SPEEDS = Array.from({ length: 30 }, (_, k) => 5 * (k + 1)); // km/h, the speed slider's range
+const TICK_MS = 100; // Each tick simulates one second of motion
 
 export function PropagationSimulator() {
   const { triggerHaptic } = useHaptics();
 
   // Handoff Parameters
-  const [ueSpeed, setUeSpeed] = useState(50); // km/h
-  const [handoffMode, setHandoffMode] = useState<'threshold' | 'hysteresis'>('hysteresis');
-  const [thresholdMargin, setThresholdMargin] = useState(10); // dB (Delta)
-  const [hysteresisMargin, setHysteresisMargin] = useState(6); // dB (H)
-  const [environment, setEnvironment] = useState<'urban' | 'highway'>('highway');
-  const [uePosition, setUePosition] = useState(0); // 0 to 1000
+  const [ueSpeed, setUeSpeed] = useSimulatorState('handoff', 'speed', 50, { min: 5, max: 150 }); // km/h
+  const [handoffMode, setHandoffMode] = useSimulatorState<HandoffMode>('handoff', 'handoffMode', 'hysteresis', { allowed: HANDOFF_MODES });
+  const [thresholdMargin, setThresholdMargin] = useSimulatorState('handoff', 'thresholdMargin', 10, { min: 0, max: 20 }); // dB (Delta)
+  const [hysteresisMargin, setHysteresisMargin] = useSimulatorState('handoff', 'hysteresisMargin', 6, { min: 0, max: 20 }); // dB (H)
+  const [environment, setEnvironment] = useSimulatorState<'urban' | 'highway'>('handoff', 'environment', 'highway', { allowed: ['urban', 'highway'] });
+
+  // LTE/NR Event A3
+  const [a3Offset, setA3Offset] = useSimulatorState('handoff', 'a3Offset', 3, { min: -5, max: 15 }); // dB (Off)
+  const [a3Hysteresis, setA3Hysteresis] = useSimulatorState('handoff', 'a3Hysteresis', 1, { min: 0, max: 10 }); // dB (Hys)
+  const [timeToTrigger, setTimeToTrigger] = useSimulatorState('handoff', 'timeToTrigger', 320, { allowed: TTT_VALUES }); // ms
+  const [filterK, setFilterK] = useSimulatorState('handoff', 'filterK', 4, { min: 0, max: 19 });
+
+  // Propagation Model
+  const [model, setModel] = useSimulatorState<PathLossModel>('handoff', 'pathLossModel', 'simple', { allowed: PATH_LOSS_MODELS });
+  const [txPower, setTxPower] = useSimulatorState('handoff', 'txPower', 30, { min: 0, max: 60 }); // dBm
+  const [frequency, setFrequency] = useSimulatorState('handoff', 'frequency', 900, { min: 100, max: 3000 }); // MHz
+  const [baseHeight, setBaseHeight] = useSimulatorState('handoff', 'baseHeight', 30, { min: 10, max: 200 }); // m
+  const [mobileHeight, setMobileHeight] = useSimulatorState('handoff', 'mobileHeight', 1.5, { min: 1, max: 10 }); // m
+  const [referenceDistance, setReferenceDistance] = useSimulatorState('handoff', 'referenceDistance', 100, { min: 1, max: 1000 }); // m
+  const [hataArea, setHataArea] = useSimulatorState<HataArea>('handoff', 'hataArea', 'urban', { allowed: HATA_AREAS });
+
+  // Shadow Fading
+  const [shadowing, setShadowing] = useSimulatorState('handoff', 'shadowing', true);
+  const [shadowSigma, setShadowSigma] = useSimulatorState('handoff', 'shadowSigma', 4, { min: 0, max: 12 }); // dB
+  const [decorrelation, setDecorrelation] = useSimulatorState('handoff', 'decorrelation', 50, { min: 5, max: 500 }); // m
+  const [stationCorrelation, setStationCorrelation] = useSimulatorState('handoff', 'stationCorrelation', 0.5, { min: 0, max: 1 });
+  const [seed, setSeed] = useSimulatorState('handoff', 'seed', 1, { min: 1, max: MAX_SEED });
+
+  // Corridor
+  const [corridor, setCorridor] = useSimulatorState('handoff', 'corridor', false);
+  const [corridorLength, setCorridorLength] = useSimulatorState('handoff', 'corridorLength', 6000, { min: 1000, max: 20000 }); // m
+  const [corridorStations, setCorridorStations] = useSimulatorState<BaseStation[]>('handoff', 'stations', DEFAULT_CORRIDOR);
+
+  // Umbrella Cell
+  const [umbrella, setUmbrella] = useSimulatorState('handoff', 'umbrella', false);
+  const [umbrellaPower, setUmbrellaPower] = useSimulatorState('handoff', 'umbrellaPower', 43, { min: 20, max: 60 }); // dBm
+  const [umbrellaHeight, setUmbrellaHeight] = useSimulatorState('handoff', 'umbrellaHeight', 50, { min: 10, max: 200 }); // m
+  const [speedThreshold, setSpeedThreshold] = useSimulatorState('handoff', 'speedThreshold', 40, { min: 10, max: 120 }); // km/h
+  const [speedEstimator, setSpeedEstimator] = useSimulatorState<SpeedEstimator>('handoff', 'speedEstimator', 'dwell', { allowed: SPEED_ESTIMATORS });
+
+  // Run State (mirrored from the handoff engine)
+  const runRef = useRef<HandoffRun>(createHandoffRun());
+  const [uePosition, setUePosition] = useState(0); // 0 to TOTAL_DIST
+  const [runTime, setRunTime] = useState(0); // s
   const [isMoving, setIsMoving] = useState(false);
-  const [activeBS, setActiveBS] = useState<1 | 2>(1);
-  const [handoffEvents, setHandoffEvents] = useState<{pos: number, type: string}[]>([]);
+  const [serving, setServing] = useState(0); // Index into `stations`
+  const [handoffEvents, setHandoffEvents] = useState<HandoffEvent[]>([]);
+  const [runStats, setRunStats] = useState<HandoffStats>(runRef.current.stats);
+  const [trace, setTrace] = useState<TracePoint[]>([]);
+  const [tttProgress, setTttProgress] = useState(0); // 0–1
+  const [speedEstimate, setSpeedEstimate] = useState<number | null>(null); // km/h
   const [showFormulas, setShowFormulas] = useState(false);
-  const [isPingPonging, setIsPingPonging] = useState(false);
-  const [handoffInLastTick, setHandoffInLastTick] = useState(false);
 
   // Constants
-  const P_TX = 30; // dBm
   const P_MIN = -90; // dBm (Usable threshold)
-  const BS1_POS = 0;
 
-  // Environment-dependent values
-  const TOTAL_DIST = environment === 'urban' ? 1000 : 10000;
-  const BS2_POS = TOTAL_DIST;
+  // Environment-dependent values (the corridor sets its own length)
+  const TOTAL_DIST = corridor ? corridorLength : environment === 'urban' ? 1000 : 10000;
   const gamma = environment === 'urban' ? 4.0 : 3.0;
 
-  // Signal Strength Calculation (User Formula: Prx = Ptx - 10γ log10(d))
-  const calculateSignal = (d: number, env: 'urban' | 'highway', noiseScale = 0) => {
-    const currentGamma = env === 'urban' ? 4.0 : 3.0;
-    const dist = Math.max(d, 1);
-    const baseSignal = P_TX - 10 * currentGamma * Math.log10(dist);
-    if (noiseScale > 0) {
-      // Small noise to simulate real-world fluctuations
-      return baseSignal + (Math.random() * noiseScale - noiseScale / 2);
-    }
-    return baseSignal;
+  // Two towers at the ends of the route, or the corridor's stations in route order
+  const routeStations: BaseStation[] = useMemo(
+    () => corridor
+      ? [...corridorStations].sort((a, b) => a.pos - b.pos)
+      : [{ id: 1, pos: 0, txPower, height: baseHeight }, { id: 2, pos: TOTAL_DIST, txPower, height: baseHeight }],
+    [corridor, corridorStations, txPower, baseHeight, TOTAL_DIST]
+  );
+  // The umbrella macro cell goes last, over the middle of the route
+  const umbrellaStation = umbrella ? routeStations.length : null;
+  const stations: BaseStation[] = useMemo(
+    () => umbrella
+      ? [...routeStations, { id: UMBRELLA_ID, pos: TOTAL_DIST / 2, txPower: umbrellaPower, height: umbrellaHeight }]
+      : routeStations,
+    [routeStations, umbrella, umbrellaPower, umbrellaHeight, TOTAL_DIST]
+  );
+  const stationName = (k: number) => (k === umbrellaStation ? 'Umbrella' : `BS ${k + 1}`);
+  // Typical microcell spacing, which sets the window of the rate estimator
+  const cellSize = routeStations.length > 1
+    ? (routeStations[routeStations.length - 1].pos - routeStations[0].pos) / (routeStations.length - 1)
+    : TOTAL_DIST;
+
+  const link: LinkParams = useMemo(
+    () => ({ frequency, baseHeight, mobileHeight, exponent: gamma, referenceDistance, area: hataArea }),
+    [frequency, baseHeight, mobileHeight, gamma, referenceDistance, hataArea]
+  );
+
+  // Signal Strength Calculation (Prx = Ptx - PL(d) for the selected model)
+  const stationLinks = useMemo(() => stations.map(s => ({ ...link, baseHeight: s.height })), [stations, link]);
+  const calculateSignal = (k: number, x: number) => stations[k].txPower - pathLoss(model, Math.abs(x - stations[k].pos), stationLinks[k]);
+
+  // One seeded field per run, so a seed replays the same shadowed route
+  const field = useMemo(
+    () => shadowing
+      ? shadowingField({ sigma: shadowSigma, decorrelation, correlation: stationCorrelation, stations: stations.length, length: TOTAL_DIST, seed })
+      : null,
+    [shadowing, shadowSigma, decorrelation, stationCorrelation, stations.length, TOTAL_DIST, seed]
+  );
+
+  // RSSI the UE measures at position x: median signal plus the link's shadowing
+  const measuredSignal = (k: number, x: number) => {
+    const median = calculateSignal(k, x);
+    return field ? median + shadowAt(field, k, x) : median;
   };
+  const medianAll = (x: number) => stations.map((_, k) => calculateSignal(k, x));
+  const measureAll = (x: number) => stations.map((_, k) => measuredSignal(k, x));
+  // The same route under another seed's shadowing, for the Monte Carlo sweep
+  const measureFor = useMemo(() => {
+    if (!shadowing) return null;
+    return (trialSeed: number) => {
+      const trialField = shadowingField({ sigma: shadowSigma, decorrelation, correlation: stationCorrelation, stations: stations.length, length: TOTAL_DIST, seed: trialSeed });
+      return (x: number) => stations.map((_, k) => calculateSignal(k, x) + shadowAt(trialField, k, x));
+    };
+  }, [shadowing, shadowSigma, decorrelation, stationCorrelation, model, stations, stationLinks, TOTAL_DIST]);
+  const config: HandoffConfig = useMemo(() => ({
+    mode: handoffMode,
+    speed: ueSpeed,
+    length: TOTAL_DIST,
+    minPower: P_MIN,
+    thresholdMargin,
+    hysteresisMargin,
+    a3Offset,
+    a3Hysteresis,
+    timeToTrigger,
+    filterK,
+    umbrella: umbrellaStation !== null
+      ? { station: umbrellaStation, positions: stations.map(s => s.pos), cellSize, speedThreshold, estimator: speedEstimator }
+      : undefined
+  }), [handoffMode, ueSpeed, TOTAL_DIST, thresholdMargin, hysteresisMargin, a3Offset, a3Hysteresis, timeToTrigger, filterK, umbrellaStation, stations, cellSize, speedThreshold, speedEstimator]);
+  const initialServing = useMemo(() => initialStation(config, measureAll(0)), [config, stations, stationLinks, model, field]);
 
-  // Theoretical Handoff Point Calculation
-  const theoreticalHOPoint = useMemo(() => {
-    if (handoffMode === 'hysteresis') {
-      const factor = Math.pow(10, hysteresisMargin / (10 * gamma));
-      return (TOTAL_DIST * factor) / (1 + factor);
-    } else {
-      // Threshold Mode: RSSI1 < Pmin + Delta
-      // Ptx - 10g log(x) = Pmin + Delta
-      // 10g log(x) = Ptx - Pmin - Delta
-      // log(x) = (Ptx - Pmin - Delta) / (10g)
-      return Math.pow(10, (P_TX - P_MIN - thresholdMargin) / (10 * gamma));
-    }
-  }, [environment, handoffMode, thresholdMargin, hysteresisMargin, gamma, TOTAL_DIST]);
+  // Theoretical Handoff Points
+  // A noise-free traversal at the same speed: where each station is first handed to
+  const predictedRun = useMemo(
+    () => simulateRun(config, medianAll, initialStation(config, medianAll(0))),
+    [config, stations, stationLinks, model]
+  );
+  const targetHandoffs = useMemo(() => {
+    const reached = new Set([predictedRun.events[0]?.from]);
+    return predictedRun.events.filter(e => {
+      if (e.type !== 'handoff' || reached.has(e.to)) return false;
+      reached.add(e.to);
+      return true;
+    });
+  }, [predictedRun]);
+
+  const configRef = useRef(config);
+  configRef.current = config;
+  const measureRef = useRef(measureAll);
+  measureRef.current = measureAll;
+
+  const syncFromRun = (newEvents: HandoffEvent[]) => {
+    const run = runRef.current;
+    setUePosition(run.pos);
+    setRunTime(run.time);
+    setServing(run.serving);
+    setHandoffEvents([...run.events]);
+    setRunStats({ ...run.stats });
+    setTrace([...run.trace]);
+    setTttProgress(configRef.current.timeToTrigger > 0 ? Math.min(run.tttElapsed / (configRef.current.timeToTrigger / 1000), 1) : 0);
+    setSpeedEstimate(run.umbrella?.estimate ?? null);
+    if (newEvents.some(e => e.type === 'drop')) triggerHaptic('error');
+    else if (newEvents.length > 0) triggerHaptic('medium');
+  };
 
-  // Simulation Loop
+  // Simulation Loop: the parameters are read afresh on every tick
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isMoving) {
-      interval = setInterval(() => {
-        setUePosition(prev => {
-          const dt = 1; // 1 second time step
-          const velocity = ueSpeed / 3.6; // km/h to m/s
-          const step = velocity * dt; 
-          const next = prev + step;
-
-          if (next >= TOTAL_DIST) {
-            setIsMoving(false);
-            return TOTAL_DIST;
-          }
-          
-          const s1 = calculateSignal(next, environment, 1.5);
-          const s2 = calculateSignal(TOTAL_DIST - next, environment, 1.5);
-          
-          let handoffOccurredThisTick = false;
-
-          // Call Dropped Condition
-          const currentRSSI = activeBS === 1 ? s1 : s2;
-          if (currentRSSI < P_MIN) {
-            setIsMoving(false);
-            setHandoffEvents(prevEvents => [...prevEvents, { pos: next, type: 'drop' }]);
-            setIsPingPonging(false);
-            triggerHaptic('error');
-            return prev;
-          }
-
-          // Handoff Logic
-          if (handoffMode === 'threshold') {
-            // Ping-Pong Mode: Strictly threshold based, no relative check
-            if (activeBS === 1) {
-              if (s1 < (P_MIN + thresholdMargin)) {
-                setActiveBS(2);
-                setHandoffEvents(prevEvents => [...prevEvents, { pos: next, type: 'handoff' }]);
-                handoffOccurredThisTick = true;
-                triggerHaptic('medium');
-              }
-            } else {
-              if (s2 < (P_MIN + thresholdMargin)) {
-                setActiveBS(1);
-                setHandoffEvents(prevEvents => [...prevEvents, { pos: next, type: 'handoff' }]);
-                handoffOccurredThisTick = true;
-                triggerHaptic('medium');
-              }
-            }
-          } else {
-            if (activeBS === 1) {
-              if (s2 > (s1 + hysteresisMargin)) {
-                setActiveBS(2);
-                setHandoffEvents(prevEvents => [...prevEvents, { pos: next, type: 'handoff' }]);
-                handoffOccurredThisTick = true;
-                triggerHaptic('medium');
-              }
-            } else {
-              if (s1 > (s2 + hysteresisMargin)) {
-                setActiveBS(1);
-                setHandoffEvents(prevEvents => [...prevEvents, { pos: next, type: 'handoff' }]);
-                handoffOccurredThisTick = true;
-                triggerHaptic('medium');
-              }
-            }
-          }
-
-          if (handoffOccurredThisTick && handoffInLastTick) {
-            setIsPingPonging(true);
-          } else if (!handoffOccurredThisTick) {
-            setIsPingPonging(false);
-          }
-          setHandoffInLastTick(handoffOccurredThisTick);
-          
-          return next;
-        });
-      }, 100);
-    }
+    if (!isMoving) return;
+    const interval = setInterval(() => {
+      const run = runRef.current;
+      syncFromRun(advanceHandoffRun(run, configRef.current, measureRef.current));
+      if (run.done) setIsMoving(false);
+    }, TICK_MS);
     return () => clearInterval(interval);
-  }, [isMoving, ueSpeed, environment, handoffMode, thresholdMargin, hysteresisMargin, activeBS]);
+  }, [isMoving]);
+
+  const resetRun = () => {
+    runRef.current = createHandoffRun(initialServing);
+    syncFromRun([]);
+    setIsMoving(false);
+  };
+
+  // A different set of stations or route invalidates the run in progress
+  useEffect(() => {
+    resetRun();
+  }, [corridor, corridorStations, umbrella, TOTAL_DIST]);
+
+  const lastEvent = handoffEvents[handoffEvents.length - 1];
+  const isPingPonging = lastEvent?.type === 'handoff' && lastEvent.pingPong && runTime - lastEvent.time < PING_PONG_TIME;
 
   // Chart Data
   const signalData = useMemo(() => {
     const data = [];
-    const step = TOTAL_DIST / 100;
+    const step = TOTAL_DIST / (field ? 400 : 100);
     for (let i = 0; i <= TOTAL_DIST; i += step) {
-      data.push({
-        pos: i,
-        bs1: calculateSignal(i, environment),
-        bs2: calculateSignal(TOTAL_DIST - i, environment),
+      const point: Record<string, number> = { pos: i };
+      stations.forEach((_, k) => {
+        point[`bs${k + 1}`] = calculateSignal(k, i);
+        if (field) point[`bs${k + 1}Shadowed`] = measuredSignal(k, i);
       });
+      data.push(point);
     }
     return data;
-  }, [environment, TOTAL_DIST]);
+  }, [model, stations, stationLinks, field, TOTAL_DIST]);
 
-  const currentS1 = useMemo(() => calculateSignal(uePosition, environment), [uePosition, environment]);
-  const currentS2 = useMemo(() => calculateSignal(TOTAL_DIST - uePosition, environment), [uePosition, environment]);
+  const currentSignals = useMemo(() => measureAll(uePosition), [uePosition, model, stations, stationLinks, field]);
+
+  // Corridor Summary
+  const holes = useMemo(() => coverageHoles(medianAll, TOTAL_DIST, P_MIN), [model, stations, stationLinks, TOTAL_DIST]);
+  const shadowedHoles = useMemo(() => field ? coverageHoles(measureAll, TOTAL_DIST, P_MIN) : null, [model, stations, stationLinks, field, TOTAL_DIST]);
+
+  const umbrellaSweep = useMemo(
+    () => umbrella ? umbrellaSpeedSweep(config, measureAll, UMBRELLA_SPEEDS) : [],
+    [umbrella, config, stations, stationLinks, model, field]
+  );
+
+  const addStationAt = (fraction: number) => {
+    if (!corridor || corridorStations.length >= MAX_STATIONS) return;
+    const pos = Math.round(Math.min(Math.max((fraction - 0.1) / 0.8, 0), 1) * TOTAL_DIST / 50) * 50;
+    const last = routeStations[routeStations.length - 1];
+    setCorridorStations([...corridorStations, { id: Math.max(0, ...corridorStations.map(s => s.id)) + 1, pos, txPower: last.txPower, height: last.height }]);
+    triggerHaptic('light');
+  };
 
   return (
     <div className="flex flex-col gap-8 p-8 max-w-7xl mx-auto">
       <header className="flex flex-col gap-2">
         <div className="flex items-center justify-between">
           <h2 className="text-3xl font-bold text-slate-900 tracking-tight">Handoffs & Propagation</h2>
-          <button 
-            onClick={() => setShowFormulas(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold transition-colors"
-          >
-            <Calculator className="w-4 h-4" />
-            View Formulas
-          </button>
+          <div className="flex items-center gap-2">
+            <ScenarioPanel moduleId="handoff" onLoad={resetRun} />
+            <RestoreDefaultsButton moduleId="handoff" onRestore={resetRun} />
+            <button 
+              onClick={() => setShowFormulas(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold transition-colors"
+            >
+              <Calculator className="w-4 h-4" />
+              View Formulas
+            </button>
+          </div>
         </div>
         <p className="text-slate-500 max-w-2xl">
           Explore how signals decay in cities, how networks manage moving users through handoffs, and the impact of multipath fading.
@@ -213,13 +348,20 @@ export function PropagationSimulator() {
               </div>
               <div className="flex items-center gap-2">
                 <button 
-                  onClick={() => setIsMoving(!isMoving)}
+                  onClick={() => {
+                    // Play after the run has ended starts a fresh traversal
+                    if (!isMoving && runRef.current.done) {
+                      runRef.current = createHandoffRun(initialServing);
+                      syncFromRun([]);
+                    }
+                    setIsMoving(!isMoving);
+                  }}
                   className={`p-2 rounded-lg transition-colors ${isMoving ? 'bg-amber-100 text-amber-600' : 'bg-emerald-100 text-emerald-600'}`}
                 >
                   {isMoving ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                 </button>
                 <button 
-                  onClick={() => { setUePosition(0); setHandoffEvents([]); setActiveBS(1); setIsMoving(false); }}
+                  onClick={resetRun}
                   className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors"
                 >
                   <RotateCcw className="w-4 h-4" />
@@ -231,7 +373,7 @@ export function PropagationSimulator() {
               {/* Algorithm Toggle */}
               <div className="space-y-3">
                 <label className="text-sm font-semibold text-slate-600">Handoff Algorithm</label>
-                <div className="grid grid-cols-2 gap-2">
+                <div className="grid grid-cols-3 gap-2">
                   <button 
                     onClick={() => setHandoffMode('threshold')}
                     className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${handoffMode === 'threshold' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
@@ -244,6 +386,12 @@ export function PropagationSimulator() {
                   >
                     Hysteresis
                   </button>
+                  <button 
+                    onClick={() => setHandoffMode('a3')}
+                    className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${handoffMode === 'a3' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    LTE/NR A3
+                  </button>
                 </div>
               </div>
 
@@ -263,7 +411,73 @@ export function PropagationSimulator() {
                 />
               </div>
 
-              {handoffMode === 'threshold' ? (
+              {handoffMode === 'a3' ? (
+                <div className="space-y-8">
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">A3 Offset (Off)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{a3Offset} dB</span>
+                    </div>
+                    <input 
+                      type="range" min="-5" max="15" step="0.5" 
+                      value={a3Offset} 
+                      onChange={(e) => {
+                        setA3Offset(parseFloat(e.target.value));
+                        triggerHaptic('selection');
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">A3 Hysteresis (Hys)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{a3Hysteresis} dB</span>
+                    </div>
+                    <input 
+                      type="range" min="0" max="10" step="0.5" 
+                      value={a3Hysteresis} 
+                      onChange={(e) => {
+                        setA3Hysteresis(parseFloat(e.target.value));
+                        triggerHaptic('selection');
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Time-to-Trigger</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{timeToTrigger} ms</span>
+                    </div>
+                    <input 
+                      type="range" min="0" max={TTT_VALUES.length - 1} step="1" 
+                      value={Math.max(TTT_VALUES.indexOf(timeToTrigger), 0)} 
+                      onChange={(e) => {
+                        setTimeToTrigger(TTT_VALUES[parseInt(e.target.value)]);
+                        triggerHaptic('selection');
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">L3 Filter Coefficient (k)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{filterK}</span>
+                    </div>
+                    <input 
+                      type="range" min="0" max="19" step="1" 
+                      value={filterK} 
+                      onChange={(e) => {
+                        setFilterK(parseInt(e.target.value));
+                        triggerHaptic('selection');
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                    <p className="text-[10px] text-slate-400">
+                      F<sub>n</sub> = (1 − a)·F<sub>n−1</sub> + a·M<sub>n</sub> with a = 1/2<sup>k/4</sup> = {(1 / Math.pow(2, filterK / 4)).toFixed(3)} per 200 ms; k = 0 disables filtering. Triggers when Mn − Hys &gt; Ms + Off holds for the whole time-to-trigger.
+                    </p>
+                  </div>
+                </div>
+              ) : handoffMode === 'threshold' ? (
                 <div className="space-y-4">
                   <div className="flex justify-between items-center">
                     <label className="text-sm font-semibold text-slate-600">Threshold Margin (Δ)</label>
@@ -300,16 +514,16 @@ export function PropagationSimulator() {
               )}
 
               <div className="space-y-4">
-                <label className="text-sm font-semibold text-slate-600">Environment (Tower Spacing & γ)</label>
+                <label className="text-sm font-semibold text-slate-600">Environment ({corridor ? 'γ' : 'Tower Spacing & γ'})</label>
                 <div className="grid grid-cols-2 gap-2">
                   <button 
-                    onClick={() => { setEnvironment('urban'); setUePosition(0); setHandoffEvents([]); }}
+                    onClick={() => { setEnvironment('urban'); resetRun(); }}
                     className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${environment === 'urban' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
                   >
                     Urban (1km, γ=4.0)
                   </button>
                   <button 
-                    onClick={() => { setEnvironment('highway'); setUePosition(0); setHandoffEvents([]); }}
+                    onClick={() => { setEnvironment('highway'); resetRun(); }}
                     className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${environment === 'highway' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
                   >
                     Highway (10km, γ=3.0)
@@ -319,11 +533,272 @@ export function PropagationSimulator() {
             </div>
           </section>
 
+          <CorridorPanel 
+            enabled={corridor}
+            onToggle={setCorridor}
+            length={corridorLength}
+            onLengthChange={setCorridorLength}
+            stations={routeStations}
+            onStationsChange={setCorridorStations}
+            handoffsPerKm={uePosition > 0 ? runStats.handoffs / (uePosition / 1000) : null}
+            predictedPerKm={predictedRun.stats.handoffs / (TOTAL_DIST / 1000)}
+            holes={holes}
+            shadowedHoles={shadowedHoles}
+          />
+
+          <UmbrellaPanel 
+            enabled={umbrella}
+            onToggle={setUmbrella}
+            power={umbrellaPower}
+            onPowerChange={setUmbrellaPower}
+            height={umbrellaHeight}
+            onHeightChange={setUmbrellaHeight}
+            speedThreshold={speedThreshold}
+            onSpeedThresholdChange={setSpeedThreshold}
+            estimator={speedEstimator}
+            onEstimatorChange={setSpeedEstimator}
+            cellSize={cellSize}
+            speed={ueSpeed}
+            estimate={speedEstimate}
+            onUmbrella={serving === umbrellaStation}
+            sweep={umbrellaSweep}
+          />
+
+          <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+            <div className="flex items-center gap-2 mb-6">
+              <Radio className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-bold text-slate-800">Propagation Model</h3>
+            </div>
+
+            <div className="space-y-8">
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-slate-600">Path Loss Model</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {PATH_LOSS_MODELS.map(m => (
+                    <button 
+                      key={m}
+                      onClick={() => { setModel(m); triggerHaptic('selection'); }}
+                      className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${model === m ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                    >
+                      {MODEL_LABELS[m]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-semibold text-slate-600">Transmit Power</label>
+                  <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{txPower} dBm</span>
+                </div>
+                <input 
+                  type="range" min="0" max="60" step="1" 
+                  value={txPower} 
+                  onChange={(e) => {
+                    setTxPower(parseInt(e.target.value));
+                    triggerHaptic('selection');
+                  }}
+                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+              </div>
+
+              {model !== 'simple' && (
+                <>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Carrier Frequency</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{frequency} MHz</span>
+                    </div>
+                    <input 
+                      type="range" min="100" max="3000" step="50" 
+                      value={frequency} 
+                      onChange={(e) => {
+                        setFrequency(parseInt(e.target.value));
+                        triggerHaptic('selection');
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Base Station Height (hb)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{baseHeight} m</span>
+                    </div>
+                    <input 
+                      type="range" min="10" max="200" step="5" 
+                      value={baseHeight} 
+                      onChange={(e) => {
+                        setBaseHeight(parseInt(e.target.value));
+                        triggerHaptic('selection');
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Mobile Height (hm)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{mobileHeight} m</span>
+                    </div>
+                    <input 
+                      type="range" min="1" max="10" step="0.5" 
+                      value={mobileHeight} 
+                      onChange={(e) => {
+                        setMobileHeight(parseFloat(e.target.value));
+                        triggerHaptic('selection');
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+                </>
+              )}
+
+              {model === 'logDistance' && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Reference Distance (d₀)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{referenceDistance} m</span>
+                  </div>
+                  <input 
+                    type="range" min="1" max="1000" step="1" 
+                    value={referenceDistance} 
+                    onChange={(e) => {
+                      setReferenceDistance(parseInt(e.target.value));
+                      triggerHaptic('selection');
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  />
+                  <p className="text-[10px] text-slate-400">Free space up to d₀, then γ from the environment beyond it.</p>
+                </div>
+              )}
+
+              {(model === 'hata' || model === 'cost231') && (
+                <div className="space-y-3">
+                  <label className="text-sm font-semibold text-slate-600">Area Type</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {HATA_AREAS.map(area => (
+                      <button 
+                        key={area}
+                        onClick={() => { setHataArea(area); triggerHaptic('selection'); }}
+                        className={`py-2 px-3 rounded-xl text-xs font-bold capitalize transition-all ${hataArea === area ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                      >
+                        {area}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </section>
+
+          <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-2">
+                <CloudFog className="w-5 h-5 text-indigo-600" />
+                <h3 className="font-bold text-slate-800">Shadow Fading</h3>
+              </div>
+              <button 
+                onClick={() => { setShadowing(!shadowing); resetRun(); triggerHaptic('selection'); }}
+                className={`px-3 py-1.5 rounded-xl text-xs font-bold transition-all ${shadowing ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                {shadowing ? 'On' : 'Off'}
+              </button>
+            </div>
+
+            {shadowing ? (
+              <div className="space-y-8">
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Standard Deviation (σ)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{shadowSigma} dB</span>
+                  </div>
+                  <input 
+                    type="range" min="0" max="12" step="0.5" 
+                    value={shadowSigma} 
+                    onChange={(e) => {
+                      setShadowSigma(parseFloat(e.target.value));
+                      triggerHaptic('selection');
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Decorrelation Distance (d)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{decorrelation} m</span>
+                  </div>
+                  <input 
+                    type="range" min="5" max="500" step="5" 
+                    value={decorrelation} 
+                    onChange={(e) => {
+                      setDecorrelation(parseInt(e.target.value));
+                      triggerHaptic('selection');
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Correlation Between BSs</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{stationCorrelation.toFixed(1)}</span>
+                  </div>
+                  <input 
+                    type="range" min="0" max="1" step="0.1" 
+                    value={stationCorrelation} 
+                    onChange={(e) => {
+                      setStationCorrelation(parseFloat(e.target.value));
+                      triggerHaptic('selection');
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-semibold text-slate-600">Seed</label>
+                  <div className="flex items-center gap-2">
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{seed}</span>
+                    <button 
+                      onClick={() => {
+                        setSeed(1 + Math.floor(Math.random() * MAX_SEED));
+                        resetRun();
+                        triggerHaptic('light');
+                      }}
+                      title="Draw a new shadowing field"
+                      className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors"
+                    >
+                      <Dices className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <p className="text-[10px] text-slate-400">
+                  Gudmundson model: the shadowing of a link decorrelates as e<sup>−Δx/d</sup> along the route, so at {ueSpeed} km/h it changes over about {(decorrelation / (ueSpeed / 3.6)).toFixed(1)} s. The same seed replays the same route.
+                </p>
+              </div>
+            ) : (
+              <p className="text-[10px] text-slate-400">Off: the UE measures the median path loss exactly, and the handoff lands on the predicted point.</p>
+            )}
+          </section>
+
           <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
             <h4 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
               <Activity className="w-4 h-4 text-indigo-600" />
               Simulation Log
             </h4>
+            <div className="grid grid-cols-4 gap-2 mb-4">
+              {[
+                { label: 'Handoffs', value: runStats.handoffs, color: 'text-indigo-600' },
+                { label: 'Ping-Pong', value: runStats.pingPongs, color: 'text-amber-600' },
+                { label: 'Too Late', value: runStats.tooLate, color: 'text-rose-600' },
+                { label: 'Drops', value: runStats.drops, color: 'text-rose-600' }
+              ].map(item => (
+                <div key={item.label} className="p-2 bg-slate-50 rounded-xl border border-slate-100 text-center">
+                  <p className={`text-lg font-mono font-bold ${item.color}`}>{item.value}</p>
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{item.label}</p>
+                </div>
+              ))}
+            </div>
             <div className="space-y-2 max-h-48 overflow-y-auto pr-2 custom-scrollbar">
               {isPingPonging && (
                 <div className="p-3 bg-rose-100 border border-rose-200 rounded-xl flex items-center gap-2 mb-2 animate-pulse">
@@ -336,7 +811,11 @@ export function PropagationSimulator() {
               )}
               {handoffEvents.map((event, idx) => (
                 <div key={idx} className={`p-2 rounded-lg text-[10px] font-bold flex items-center justify-between ${event.type === 'drop' ? 'bg-rose-50 text-rose-600' : 'bg-indigo-50 text-indigo-600'}`}>
-                  <span>{event.type === 'drop' ? 'CALL DROPPED' : 'HANDOFF TRIGGERED'}</span>
+                  <span>
+                    {event.type === 'drop' ? 'CALL DROPPED' : `HANDOFF ${stationName(event.from)} → ${stationName(event.to)}`}
+                    {event.pingPong && ' · PING-PONG'}
+                    {event.tooLate && ' · TOO LATE'}
+                  </span>
                   <span>at {event.pos.toFixed(1)}m</span>
                 </div>
               ))}
@@ -353,22 +832,27 @@ export function PropagationSimulator() {
               Handoff Visualization
             </h3>
             
-            <div className="relative h-48 bg-slate-50 rounded-3xl border border-slate-100 flex items-end px-12 pb-8">
+            <div 
+              onClick={(e) => {
+                const rect = e.currentTarget.getBoundingClientRect();
+                addStationAt((e.clientX - rect.left) / rect.width);
+              }}
+              className={`relative h-48 bg-slate-50 rounded-3xl border border-slate-100 flex items-end px-12 pb-8 ${corridor && corridorStations.length < MAX_STATIONS ? 'cursor-crosshair' : ''}`}
+            >
               <div className="absolute bottom-8 left-0 right-0 h-px bg-slate-200" />
               
-              <div className="absolute left-[10%] bottom-8 flex flex-col items-center -translate-x-1/2">
-                <div className={`transition-colors duration-500 ${activeBS === 1 ? 'text-indigo-600' : 'text-slate-300'}`}>
-                  <Tower className="w-12 h-12" />
-                </div>
-                <span className="text-[10px] font-bold text-slate-400 mt-1">BS 1 (0m)</span>
-              </div>
-
-              <div className="absolute left-[90%] bottom-8 flex flex-col items-center -translate-x-1/2">
-                <div className={`transition-colors duration-500 ${activeBS === 2 ? 'text-indigo-600' : 'text-slate-300'}`}>
-                  <Tower className="w-12 h-12" />
+              {stations.map((station, k) => (
+                <div 
+                  key={station.id}
+                  className={`absolute flex flex-col items-center -translate-x-1/2 ${k === umbrellaStation ? 'top-4' : 'bottom-8'}`}
+                  style={{ left: `${10 + (Math.min(Math.max(station.pos / TOTAL_DIST, 0), 1) * 80)}%` }}
+                >
+                  <div className={`transition-colors duration-500 ${serving === k ? 'text-indigo-600' : 'text-slate-300'}`}>
+                    <Tower className={stations.length > 4 && k !== umbrellaStation ? 'w-8 h-8' : 'w-12 h-12'} />
+                  </div>
+                  <span className="text-[10px] font-bold text-slate-400 mt-1 whitespace-nowrap">{stationName(k)} ({station.pos}m)</span>
                 </div>
-                <span className="text-[10px] font-bold text-slate-400 mt-1">BS 2 ({TOTAL_DIST}m)</span>
-              </div>
+              ))}
 
               <motion.div 
                 animate={{ left: `${10 + (uePosition / TOTAL_DIST * 80)}%` }}
@@ -400,21 +884,21 @@ export function PropagationSimulator() {
               <h3 className="font-bold text-slate-800 mb-6">Signal Strength vs. Distance</h3>
               
               <div className="absolute top-16 right-10 bg-white/95 backdrop-blur p-3 rounded-xl border border-slate-200 text-[10px] font-mono shadow-md z-20 space-y-1 min-w-[140px]">
-                <div className="flex justify-between gap-4">
-                  <span className="text-slate-400">BS1 Power:</span>
-                  <span className="font-bold text-indigo-600">{currentS1.toFixed(1)} dBm</span>
-                </div>
-                <div className="flex justify-between gap-4">
-                  <span className="text-slate-400">BS2 Power:</span>
-                  <span className="font-bold text-emerald-600">{currentS2.toFixed(1)} dBm</span>
-                </div>
+                {currentSignals.map((value, k) => (
+                  <div key={k} className="flex justify-between gap-4">
+                    <span className="text-slate-400">{stationName(k)} Power:</span>
+                    <span className="font-bold" style={{ color: STATION_COLORS[k % STATION_COLORS.length] }}>{value.toFixed(1)} dBm</span>
+                  </div>
+                ))}
                 <div className="flex justify-between gap-4 pt-1 border-t border-slate-100">
                   <span className="text-slate-400">Active:</span>
-                  <span className="font-bold text-slate-800">BS {activeBS}</span>
+                  <span className="font-bold text-slate-800">{stationName(serving)}</span>
                 </div>
                 <div className="flex justify-between gap-4">
                   <span className="text-slate-400">Target HO:</span>
-                  <span className="font-bold text-amber-600">{theoreticalHOPoint.toFixed(0)}m</span>
+                  <span className="font-bold text-amber-600">
+                    {targetHandoffs.length === 0 ? '—' : stations.length > 2 ? `${targetHandoffs.length} HOs` : `${targetHandoffs[0].pos.toFixed(0)}m`}
+                  </span>
                 </div>
               </div>
 
@@ -433,7 +917,7 @@ export function PropagationSimulator() {
                       label={{ value: 'Distance (m)', position: 'insideBottom', offset: -10, fontSize: 10 }}
                     />
                     <YAxis 
-                      domain={[-120, 40]}
+                      domain={[(min: number) => Math.min(-120, Math.floor(min / 20) * 20), 40]}
                       tick={{ fontSize: 10 }}
                       label={{ value: 'Power (dBm)', angle: -90, position: 'insideLeft', fontSize: 10, offset: 10 }}
                     />
@@ -456,13 +940,16 @@ export function PropagationSimulator() {
                     />
                     
                   {/* Handoff Point Marker (Theoretical based on Margin) */}
-                  <ReferenceLine 
-                    x={theoreticalHOPoint} 
-                    stroke="#fbbf24" 
-                    strokeWidth={2} 
-                    strokeDasharray="5 5" 
-                    label={{ value: 'Target HO', position: 'top', fontSize: 10, fill: '#d97706', fontWeight: 'bold' }} 
-                  />
+                  {targetHandoffs.map((event, idx) => (
+                    <ReferenceLine 
+                      key={`target-${idx}`}
+                      x={event.pos} 
+                      stroke="#fbbf24" 
+                      strokeWidth={2} 
+                      strokeDasharray="5 5" 
+                      label={{ value: 'Target HO', position: 'top', fontSize: 10, fill: '#d97706', fontWeight: 'bold' }} 
+                    />
+                  ))}
 
                     {/* Historical Handoff Points */}
                     {handoffEvents.map((event, idx) => (
@@ -475,24 +962,32 @@ export function PropagationSimulator() {
                       />
                     ))}
 
-                    <Line 
-                      type="monotone" 
-                      dataKey="bs1" 
-                      stroke="#4f46e5" 
-                      strokeWidth={2} 
-                      dot={false} 
-                      name="BS 1 Signal" 
-                      isAnimationActive={false}
-                    />
-                    <Line 
-                      type="monotone" 
-                      dataKey="bs2" 
-                      stroke="#10b981" 
-                      strokeWidth={2} 
-                      dot={false} 
-                      name="BS 2 Signal" 
-                      isAnimationActive={false}
-                    />
+                    {stations.map((station, k) => (
+                      <Line 
+                        key={station.id}
+                        type="monotone" 
+                        dataKey={`bs${k + 1}`} 
+                        stroke={STATION_COLORS[k % STATION_COLORS.length]} 
+                        strokeWidth={2} 
+                        dot={false} 
+                        name={`${stationName(k)} Signal`} 
+                        isAnimationActive={false}
+                      />
+                    ))}
+                    {field && stations.map((station, k) => (
+                      <Line 
+                        key={`shadowed-${station.id}`}
+                        type="linear" 
+                        dataKey={`bs${k + 1}Shadowed`} 
+                        stroke={STATION_COLORS[k % STATION_COLORS.length]} 
+                        strokeOpacity={0.45}
+                        strokeWidth={1} 
+                        dot={false} 
+                        name={`${stationName(k)} Shadowed`} 
+                        legendType={stations.length > 2 ? 'none' : 'line'}
+                        isAnimationActive={false}
+                      />
+                    ))}
                     
                     {/* Real-time position marker */}
                     <ReferenceLine 
@@ -505,9 +1000,35 @@ export function PropagationSimulator() {
                 </ResponsiveContainer>
               </div>
             </div>
+
+          {handoffMode === 'a3' && (
+            <A3TriggerChart
+              trace={trace}
+              events={handoffEvents}
+              length={TOTAL_DIST}
+              offset={a3Offset}
+              hysteresis={a3Hysteresis}
+              timeToTrigger={timeToTrigger}
+              tttProgress={tttProgress}
+            />
+          )}
+
+          <PathLossComparisonChart model={model} link={link} maxDistance={TOTAL_DIST} onSelect={setModel} />
         </div>
       </div>
 
+      <MonteCarloPanel 
+        config={config}
+        measureFor={measureFor}
+        seed={seed}
+        onApply={(parameter, margin) => {
+          setHandoffMode(SWEEP_MODES[parameter]);
+          if (parameter === 'hysteresisMargin') setHysteresisMargin(margin);
+          else setThresholdMargin(margin);
+          resetRun();
+        }}
+      />
+
       {/* Concept Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
@@ -525,7 +1046,7 @@ export function PropagationSimulator() {
           </div>
           <h4 className="font-bold text-slate-800 mb-2">Umbrella Cells</h4>
           <p className="text-xs text-slate-500 leading-relaxed">
-            Fast-moving vehicles are handled by large <strong>Macro Cells</strong> to minimize handoff frequency, while slow pedestrians use <strong>Micro Cells</strong> to maximize capacity in high-density areas.
+            Fast-moving vehicles are handled by large <strong>Macro Cells</strong> to minimize handoff frequency, while slow pedestrians use <strong>Micro Cells</strong> to maximize capacity in high-density areas. The network tells them apart by speed, estimated from how quickly the UE crosses microcells.
           </p>
         </div>
         <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
@@ -580,7 +1101,31 @@ export function PropagationSimulator() {
                 </section>
 
                 <section>
-                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">2. Handoff Margin (Δ)</h4>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">2. Okumura–Hata (Urban)</h4>
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
+                    <div className="text-indigo-600 mb-2">
+                      <BlockMath math="L = 69.55 + 26.16 \log f - 13.82 \log h_b - a(h_m) + (44.9 - 6.55 \log h_b) \log d" />
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      An empirical fit to Okumura's Tokyo measurements for <InlineMath math="f" /> in MHz (150–1500) and <InlineMath math="d" /> in km (1–20). Suburban and open areas subtract a correction; COST-231 refits the constants (46.3 + 33.9 log f) for 1500–2000 MHz.
+                    </p>
+                  </div>
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">3. Two-Ray Ground Reflection</h4>
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
+                    <div className="text-xl text-indigo-600 mb-2">
+                      <InlineMath math="PL(d) \approx 40 \log_{10} d - 20 \log_{10}(h_b h_m)" />
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      Beyond the crossover distance <InlineMath math="d_c = 4\pi h_b h_m / \lambda" /> the ground reflection cancels the direct ray and the loss grows 40 dB per decade; closer in, the two rays interfere and the loss swings around free space.
+                    </p>
+                  </div>
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">4. Handoff Margin (Δ)</h4>
                   <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
                     <div className="text-xl text-indigo-600 mb-2">
                       <InlineMath math="\Delta = P_{\text{handoff}} - P_{\text{min\_usable}}" />
@@ -592,7 +1137,19 @@ export function PropagationSimulator() {
                 </section>
 
                 <section>
-                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">3. Doppler Shift (fd)</h4>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">5. Event A3 (LTE/NR)</h4>
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
+                    <div className="text-xl text-indigo-600 mb-2">
+                      <InlineMath math="F_n - \text{Hys} > F_s + \text{Off} \;\text{ for } T_{\text{TTT}}" />
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      A neighbour's filtered RSRP must beat the serving cell's by the offset plus hysteresis for the whole time-to-trigger. The layer-3 filter <InlineMath math="F_n = (1 - a) F_{n-1} + a M_n" /> with <InlineMath math="a = 2^{-k/4}" /> smooths out fast fluctuations first.
+                    </p>
+                  </div>
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">6. Doppler Shift (fd)</h4>
                   <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
                     <div className="text-xl text-rose-600 mb-4 text-center">
                       <BlockMath math="f_d = (v / \lambda) \cos \theta" />
@@ -604,7 +1161,7 @@ export function PropagationSimulator() {
                 </section>
 
                 <section>
-                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">4. Coherence Time (Tc)</h4>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">7. Coherence Time (Tc)</h4>
                   <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
                     <div className="text-xl text-indigo-600 mb-2">
                       <InlineMath math="T_c \approx 1 / f_d" />
@@ -21,6 +21,9 @@ import { motion, AnimatePresence } from 'motion/react';
 import { InlineMath, BlockMath } from 'react-katex';
 import * as math from 'mathjs';
 import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
 
 import { Line, Bar } from 'react-chartjs-2';
 import {
@@ -58,14 +61,14 @@ export function SignalRecoverySimulator() {
   const [stage, setStage] = useState(1);
   
   // Stage 1: Transmitter
-  const [signalType, setSignalType] = useState<'binary' | 'pilot'>('binary');
-  const [inputBits, setInputBits] = useState("10110");
+  const [signalType, setSignalType] = useSimulatorState<'binary' | 'pilot'>('signal-recovery', 'signalType', 'binary', { allowed: ['binary', 'pilot'] });
+  const [inputBits, setInputBits] = useSimulatorState('signal-recovery', 'inputBits', "10110", { url: false });
   const [samplesPerSymbol, setSamplesPerSymbol] = useState(10);
   const [signalX, setSignalX] = useState<number[]>([]);
   
   // Stage 2: Channel
   const [showAdvancedChannel, setShowAdvancedChannel] = useState(false);
-  const [taps, setTaps] = useState([
+  const [taps, setTaps] = useSimulatorState('signal-recovery', 'taps', [
     { delay: 0, amp: 1.0 },   // LOS
     { delay: 5, amp: 0.5 },   // Echo 1
     { delay: 12, amp: -0.3 }  // Echo 2
@@ -74,7 +77,7 @@ export function SignalRecoverySimulator() {
 
   // Stage 3: Convolution
   const [signalY, setSignalY] = useState<number[]>([]);
-  const [noiseVariance, setNoiseVariance] = useState(0.0);
+  const [noiseVariance, setNoiseVariance] = useSimulatorState('signal-recovery', 'noise', 0.0, { min: 0, max: 0.5 });
   const [signalYNoisy, setSignalYNoisy] = useState<number[]>([]);
 
   // Stage 4: Frequency Domain
@@ -305,13 +308,17 @@ export function SignalRecoverySimulator() {
             In a modern communication system, the UE (User Equipment/Phone) is the one doing the math to 'find' h(t). The 'Transmitter' (Cell Tower) doesn't know what the environment looks like (buildings, moving cars). It sends a pre-defined, known signal. In 4G/5G, instead of a literal Dirac delta, we send Pilot Signals or Reference Signals—sequences both the tower and phone have memorized. As that signal travels, it hits buildings (echoes) and bounces off the ground. The city itself is the system that 'convolves' the signal with its own h(t).
           </p>
         </div>
-        <button
-          onClick={reset}
-          className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium shrink-0"
-        >
-          <RotateCcw className="w-4 h-4" />
-          Reset Simulation
-        </button>
+        <div className="flex items-center gap-2 shrink-0">
+          <ScenarioPanel moduleId="signal-recovery" onLoad={reset} />
+          <RestoreDefaultsButton moduleId="signal-recovery" onRestore={reset} />
+          <button
+            onClick={reset}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium shrink-0"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset Simulation
+          </button>
+        </div>
       </header>
 
       {/* --- NEW: THE CITY CANVAS --- */}
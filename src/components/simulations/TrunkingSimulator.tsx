@@ -29,98 +29,288 @@ import {
   CheckCircle2,
   XCircle,
   Calculator,
-  PhoneCall
+  PhoneCall,
+  Hourglass,
+  AlertTriangle,
+  Clock,
+  ListOrdered,
+  Repeat,
+  Redo2
 } from 'lucide-react';
-import { calculateErlangB, calculateStateProbabilities } from '../../utils/math';
+import {
+  calculateErlangB,
+  calculateErlangC,
+  calculateEngsetBlocking,
+  calculateEngsetStateProbabilities,
+  calculateGuardChannelProbabilities,
+  calculateMeanWait,
+  calculateQueueStateProbabilities,
+  calculateRetrialFixedPoint,
+  calculateStateProbabilities,
+  calculateWaitProbability
+} from '../../utils/math';
 import { useHaptics } from '../../contexts/HapticsContext';
+import { RestoreDefaultsButton } from '../RestoreDefaultsButton';
+import { ScenarioPanel } from '../ScenarioPanel';
+import { useSimulatorState } from '../../hooks/useSimulatorState';
+import { PlanningPanel } from './trunking/PlanningPanel';
+import { BatchPanel } from './trunking/BatchPanel';
+import { EngsetConvergenceChart } from './trunking/EngsetConvergenceChart';
+import { RetrialCharts } from './trunking/RetrialCharts';
+import { TrafficProfilePanel, type TrafficProfileChoice } from './trunking/TrafficProfilePanel';
+import {
+  advanceTrunking,
+  createTrunkingEngine,
+  HOURS_PER_DAY,
+  offerCall,
+  PROFILE_PRESETS,
+  rescheduleArrival,
+  type CallClass,
+  type CallRecord,
+  type HourTally,
+  type TrunkingConfig,
+  type TrunkingEngine,
+  type TrunkingEvent,
+  type TrunkingEventType,
+  type TrunkingMode,
+  type TrunkingStats
+} from '../../utils/trunking';
 
 interface Event {
   id: number;
-  type: 'success' | 'drop' | 'end';
+  type: TrunkingEventType;
+  callClass: CallClass;
+  attempt: number;
+  retrying?: boolean;
   time: string;
 }
 
+const CLASS_COLORS: Record<CallClass, string> = { new: '#4f46e5', handoff: '#0ea5e9' };
+
+const SPEEDS = [0.1, 0.5, 2, 10]; // Simulated hours per real second
+const TICK_MS = 100;
+const WAIT_BINS = 12;
+
+const formatSimTime = (hours: number) => `t = ${hours.toFixed(2)} h`;
+const formatTimeOfDay = (hours: number) => {
+  const day = Math.floor(hours / HOURS_PER_DAY) + 1;
+  const minutes = Math.floor((hours % HOURS_PER_DAY) * 60);
+  return `Day ${day}, ${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
 export function TrunkingSimulator() {
   const { triggerHaptic } = useHaptics();
 
   // Parameters
-  const [channels, setChannels] = useState(10);
-  const [arrivalRate, setArrivalRate] = useState(5); // lambda
-  const [serviceRate, setServiceRate] = useState(1); // mu
+  const [channels, setChannels] = useSimulatorState('trunking', 'channels', 10, { min: 1, max: 50 });
+  const [arrivalRate, setArrivalRate] = useSimulatorState('trunking', 'arrivalRate', 5, { min: 0.1, max: 20 }); // lambda
+  const [serviceRate, setServiceRate] = useSimulatorState('trunking', 'serviceRate', 1, { min: 0.1, max: 5 }); // mu
+  const [systemMode, setSystemMode] = useSimulatorState<TrunkingMode>('trunking', 'mode', 'cleared', { allowed: ['cleared', 'delayed'] });
+  const [waitThreshold, setWaitThreshold] = useSimulatorState('trunking', 'waitThreshold', 0.1, { min: 0, max: 2 }); // t, in hours
+  const [sourceModel, setSourceModel] = useSimulatorState<'infinite' | 'finite'>('trunking', 'sourceModel', 'infinite', { allowed: ['infinite', 'finite'] });
+  const [population, setPopulation] = useSimulatorState('trunking', 'population', 20, { min: 1, max: 200 }); // N
+  const [handoffPriority, setHandoffPriority] = useSimulatorState('trunking', 'handoffPriority', false);
+  const [handoffRate, setHandoffRate] = useSimulatorState('trunking', 'handoffRate', 2, { min: 0.1, max: 20 }); // lambda_h
+  const [guardChannels, setGuardChannels] = useSimulatorState('trunking', 'guardChannels', 2, { min: 0, max: 10 }); // g
+  const [retrials, setRetrials] = useSimulatorState('trunking', 'retrials', false);
+  const [retryProbability, setRetryProbability] = useSimulatorState('trunking', 'retryProbability', 0.7, { min: 0, max: 0.95 }); // p
+  const [retryDelay, setRetryDelay] = useSimulatorState('trunking', 'retryDelay', 2, { min: 0.05, max: 5 }); // Mean redial delay, in hours
+  const [trafficProfile, setTrafficProfile] = useSimulatorState<TrafficProfileChoice>('trunking', 'trafficProfile', 'flat', { allowed: ['flat', 'office', 'residential', 'stadium', 'custom'] });
+  const [customProfile, setCustomProfile] = useSimulatorState('trunking', 'customProfile', PROFILE_PRESETS.office);
+  const [simSpeed, setSimSpeed] = useSimulatorState('trunking', 'speed', 0.5, { allowed: SPEEDS, url: false });
+
+  // Engset, guard channels and redials only cover blocked calls cleared, the
+  // last two with an infinite population
+  const isFiniteSource = sourceModel === 'finite' && systemMode === 'cleared';
+  const isPriority = handoffPriority && systemMode === 'cleared' && !isFiniteSource;
+  const isRetrial = retrials && systemMode === 'cleared' && !isFiniteSource && !isPriority;
+  // A flat profile is the constant-rate model; finite sources set their own rate
+  const isProfiled = trafficProfile !== 'flat' && !isFiniteSource;
+  const profile = useMemo(
+    () => (trafficProfile === 'custom' ? customProfile : PROFILE_PRESETS[trafficProfile]),
+    [trafficProfile, customProfile]
+  );
+  const guard = Math.min(guardChannels, channels);
+
+  const config = useMemo<TrunkingConfig>(
+    () => ({
+      channels,
+      arrivalRate,
+      serviceRate,
+      mode: systemMode,
+      sources: isFiniteSource ? population : undefined,
+      handoffRate: isPriority ? handoffRate : undefined,
+      guardChannels: isPriority ? guard : undefined,
+      retryProbability: isRetrial ? retryProbability : undefined,
+      retryDelay: isRetrial ? retryDelay : undefined,
+      profile: isProfiled ? profile : undefined
+    }),
+    [channels, arrivalRate, serviceRate, systemMode, isFiniteSource, population, isPriority, handoffRate, guard, isRetrial, retryProbability, retryDelay, isProfiled, profile]
+  );
+  const configRef = useRef(config);
+  configRef.current = config;
 
-  // Simulation State
+  // Simulation State (mirrored from the event-driven engine)
+  const engineRef = useRef<TrunkingEngine>(createTrunkingEngine(config));
+  const eventSeq = useRef(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [simTime, setSimTime] = useState(0);
   const [currentBusy, setCurrentBusy] = useState(0);
+  const [queueLength, setQueueLength] = useState(0);
   const [events, setEvents] = useState<Event[]>([]);
-  const [stats, setStats] = useState({ totalCalls: 0, droppedCalls: 0 });
+  const [stats, setStats] = useState<TrunkingStats>(engineRef.current.stats);
+  const [records, setRecords] = useState<CallRecord[]>([]);
+  const [waitTimes, setWaitTimes] = useState<number[]>([]); // Queueing delay of every connected call
+  const [occupancy, setOccupancy] = useState<Record<CallClass, number>>({ new: 0, handoff: 0 });
+  const [hourly, setHourly] = useState<HourTally[]>(engineRef.current.hourly);
   const [showFormulas, setShowFormulas] = useState(false);
 
+  const isDelayed = systemMode === 'delayed';
   const trafficLoad = arrivalRate / serviceRate; // A = lambda / mu
-  const blockingProb = useMemo(() => calculateErlangB(channels, trafficLoad), [channels, trafficLoad]);
-  const stateProbs = useMemo(() => calculateStateProbabilities(channels, trafficLoad), [channels, trafficLoad]);
-
-  const handleCallAttempt = (isManual = false) => {
-    setStats(s => ({ ...s, totalCalls: s.totalCalls + 1 }));
-    if (currentBusy < channels) {
-      setCurrentBusy(prev => prev + 1);
-      const newEvent: Event = { id: Date.now(), type: 'success', time: new Date().toLocaleTimeString() };
-      setEvents(prev => [newEvent, ...prev].slice(0, 5));
-      triggerHaptic('medium');
-    } else {
-      setStats(s => ({ ...s, droppedCalls: s.droppedCalls + 1 }));
-      const newEvent: Event = { id: Date.now(), type: 'drop', time: new Date().toLocaleTimeString() };
-      setEvents(prev => [newEvent, ...prev].slice(0, 5));
-      triggerHaptic('error');
-    }
+  const isStable = trafficLoad < channels;
+  const sourceLoad = trafficLoad / population; // beta: offered traffic per idle source
+  const handoffLoad = handoffRate / serviceRate;
+  const guardResult = useMemo(
+    () => calculateGuardChannelProbabilities(channels, guard, trafficLoad, handoffLoad),
+    [channels, guard, trafficLoad, handoffLoad]
+  );
+  const retrialResult = useMemo(
+    () => calculateRetrialFixedPoint(channels, trafficLoad, retryProbability),
+    [channels, trafficLoad, retryProbability]
+  );
+  const blockingProb = useMemo(() => {
+    if (isFiniteSource) return calculateEngsetBlocking(channels, population, sourceLoad);
+    if (isPriority) return guardResult.newCallBlocking;
+    return calculateErlangB(channels, trafficLoad);
+  }, [channels, trafficLoad, isFiniteSource, population, sourceLoad, isPriority, guardResult]);
+  const delayProb = useMemo(() => calculateErlangC(channels, trafficLoad), [channels, trafficLoad]);
+  const meanWait = calculateMeanWait(channels, trafficLoad, serviceRate);
+  const waitExceedProb = calculateWaitProbability(channels, trafficLoad, serviceRate, waitThreshold);
+  const stateProbs = useMemo(() => {
+    if (isDelayed && isStable) return calculateQueueStateProbabilities(channels, trafficLoad, channels + 10);
+    if (isFiniteSource) return calculateEngsetStateProbabilities(channels, population, sourceLoad);
+    if (isPriority) return guardResult.stateProbs;
+    return calculateStateProbabilities(channels, trafficLoad);
+  }, [channels, trafficLoad, isDelayed, isStable, isFiniteSource, population, sourceLoad, isPriority, guardResult]);
+
+  const syncFromEngine = (newEvents: TrunkingEvent[]) => {
+    const engine = engineRef.current;
+    setSimTime(engine.clock);
+    setCurrentBusy(engine.busy);
+    setQueueLength(engine.queue.length);
+    setStats({ ...engine.stats });
+    setRecords(engine.records.slice(0, 8).map(r => ({ ...r })));
+    setWaitTimes([...engine.waits]);
+    setHourly(engine.hourly.map(h => ({ ...h })));
+    const active = { new: 0, handoff: 0 };
+    engine.live.forEach(call => {
+      if (call.outcome === 'active') active[call.callClass]++;
+    });
+    setOccupancy(active);
+    if (newEvents.length === 0) return;
+
+    const logged = newEvents.slice(-5).reverse().map(e => ({
+      id: ++eventSeq.current,
+      type: e.type,
+      callClass: e.callClass,
+      attempt: e.attempt,
+      retrying: e.retrying,
+      time: formatSimTime(e.time)
+    }));
+    setEvents(prev => [...logged, ...prev].slice(0, 5));
+
+    // One haptic per update, for the most significant thing that happened
+    const types = new Set(newEvents.map(e => e.type));
+    if (types.has('blocked')) triggerHaptic('error');
+    else if (types.has('queued')) triggerHaptic('warning');
+    else if (types.has('connected')) triggerHaptic('medium');
+  };
+
+  const handleCallAttempt = (callClass?: CallClass) => {
+    syncFromEngine([offerCall(engineRef.current, config, callClass)]);
   };
 
-  // Simulation Loop
+  // A new λ only changes when the next arrival is drawn
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isPlaying) {
-      interval = setInterval(() => {
-        const dt = 0.1; // time step
-        const arrivalProb = arrivalRate * dt;
-        const departureProb = currentBusy * serviceRate * dt;
-
-        const randArrival = Math.random();
-        const randDeparture = Math.random();
-
-        // Handle Arrival
-        if (randArrival < arrivalProb) {
-          handleCallAttempt();
-        }
-
-        // Handle Departure
-        if (randDeparture < departureProb && currentBusy > 0) {
-          setCurrentBusy(prev => Math.max(0, prev - 1));
-          const newEvent: Event = { id: Date.now() + 1, type: 'end', time: new Date().toLocaleTimeString() };
-          setEvents(prev => [newEvent, ...prev].slice(0, 5));
-        }
-      }, 200);
-    }
+    rescheduleArrival(engineRef.current, configRef.current);
+  }, [arrivalRate, isFiniteSource, population, isPriority, handoffRate, isProfiled, profile]);
+
+  // Simulation Loop: the virtual clock advances by simSpeed hours per real second
+  useEffect(() => {
+    if (!isPlaying) return;
+    let last = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const elapsed = Math.min((now - last) / 1000, 0.5);
+      last = now;
+      const engine = engineRef.current;
+      syncFromEngine(advanceTrunking(engine, configRef.current, engine.clock + elapsed * simSpeed));
+    }, TICK_MS);
     return () => clearInterval(interval);
-  }, [isPlaying, currentBusy, arrivalRate, serviceRate, channels]);
+  }, [isPlaying, simSpeed]);
+
+  const editProfileHour = (hour: number, value: number) => {
+    setCustomProfile(prev => {
+      const next = [...(trafficProfile === 'custom' ? prev : profile)];
+      next[hour] = value;
+      return next;
+    });
+    setTrafficProfile('custom');
+  };
 
   const resetSim = () => {
-    setCurrentBusy(0);
+    engineRef.current = createTrunkingEngine(configRef.current);
+    syncFromEngine([]);
     setEvents([]);
-    setStats({ totalCalls: 0, droppedCalls: 0 });
     setIsPlaying(false);
     triggerHaptic('selection');
   };
 
-  // Data for the Erlang B curve
+  // A reset requested together with a parameter change waits for the render
+  // that carries the new config, so the fresh engine is built from it
+  const [resetRequest, setResetRequest] = useState(0);
+  const requestReset = () => setResetRequest(n => n + 1);
+  useEffect(() => {
+    if (resetRequest > 0) resetSim();
+  }, [resetRequest]);
+
+  const observedMeanWait = stats.served > 0 ? stats.totalWait / stats.served : 0;
+  const freshAttempts = stats.offered - stats.retries;
+  const observedLoad = simTime > 0 ? stats.offered / simTime / serviceRate : null; // Attempts per hour over mu
+  const observedBlocking = stats.offered > 0 ? stats.blocked / stats.offered : null;
+
+  // Data for the Erlang B / Erlang C / Engset curve
   const curveData = useMemo(() => {
     const data = [];
     for (let a = 0.1; a <= Math.max(trafficLoad * 2, 20); a += 0.5) {
       data.push({
         load: a.toFixed(1),
-        prob: calculateErlangB(channels, a)
+        prob: isDelayed ? calculateErlangC(channels, a) :
+          isFiniteSource ? calculateEngsetBlocking(channels, population, a / population) :
+          isPriority ? calculateGuardChannelProbabilities(channels, guard, a, handoffLoad).newCallBlocking : calculateErlangB(channels, a),
+        drop: isPriority ? calculateGuardChannelProbabilities(channels, guard, a, handoffLoad).handoffDropping : undefined
       });
     }
     return data;
-  }, [channels, trafficLoad]);
+  }, [channels, trafficLoad, isDelayed, isFiniteSource, population, isPriority, guard, handoffLoad]);
+
+  // Waiting-time histogram of delayed calls, against the exponential tail
+  // P(W > t | W > 0) = e^{-(C·mu - lambda) t} predicted by Erlang C
+  const waitHistogram = useMemo(() => {
+    const delayed = waitTimes.filter(w => w > 0);
+    const decay = channels * serviceRate - arrivalRate;
+    const maxWait = Math.max(...delayed, isStable ? 3 / decay : 1);
+    const binWidth = maxWait / WAIT_BINS;
+    return Array.from({ length: WAIT_BINS }, (_, i) => {
+      const lo = i * binWidth;
+      const hi = lo + binWidth;
+      return {
+        bin: lo.toFixed(2),
+        observed: delayed.filter(w => w >= lo && (w < hi || i === WAIT_BINS - 1)).length,
+        expected: isStable ? delayed.length * (Math.exp(-decay * lo) - Math.exp(-decay * hi)) : 0
+      };
+    });
+  }, [waitTimes, channels, serviceRate, arrivalRate, isStable]);
 
   // Data for state distribution
   const distributionData = stateProbs.map((prob, i) => ({
@@ -133,19 +323,23 @@ export function TrunkingSimulator() {
       <header className="flex flex-col gap-2">
         <div className="flex items-center justify-between">
           <h2 className="text-3xl font-bold text-slate-900 tracking-tight">Blocking Probability (GoS)</h2>
-          <button 
-            onClick={() => {
-              triggerHaptic('selection');
-              setShowFormulas(true);
-            }}
-            className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold transition-colors"
-          >
-            <Calculator className="w-4 h-4" />
-            View Formulas
-          </button>
+          <div className="flex items-center gap-2">
+            <ScenarioPanel moduleId="trunking" onLoad={requestReset} />
+            <RestoreDefaultsButton moduleId="trunking" onRestore={requestReset} />
+            <button 
+              onClick={() => {
+                triggerHaptic('selection');
+                setShowFormulas(true);
+              }}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold transition-colors"
+            >
+              <Calculator className="w-4 h-4" />
+              View Formulas
+            </button>
+          </div>
         </div>
         <p className="text-slate-500 max-w-2xl">
-          Understand Grade of Service (GoS) and how cellular networks manage a limited pool of channels to serve users using Erlang B models.
+          Understand Grade of Service (GoS) and how cellular networks manage a limited pool of channels to serve users using Erlang B and Erlang C models.
         </p>
       </header>
 
@@ -177,7 +371,120 @@ export function TrunkingSimulator() {
               </div>
             </div>
 
+            <div className="flex items-center justify-between mb-6 p-3 bg-slate-50 rounded-xl border border-slate-100">
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-slate-400" />
+                <span className="text-xs font-mono font-bold text-slate-700">{isProfiled ? formatTimeOfDay(simTime) : formatSimTime(simTime)}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                {SPEEDS.map(speed => (
+                  <button
+                    key={speed}
+                    onClick={() => {
+                      setSimSpeed(speed);
+                      triggerHaptic('selection');
+                    }}
+                    title={`${speed} simulated hours per second`}
+                    className={`px-2 py-1 rounded-md text-[10px] font-bold font-mono transition-all ${simSpeed === speed ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    {speed}h/s
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="space-y-8">
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-slate-600">Blocked Call Handling</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => { setSystemMode('cleared'); requestReset(); }}
+                    className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${systemMode === 'cleared' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    Blocked Calls Cleared
+                  </button>
+                  <button
+                    onClick={() => { setSystemMode('delayed'); requestReset(); }}
+                    className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${systemMode === 'delayed' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    Blocked Calls Delayed
+                  </button>
+                </div>
+              </div>
+
+              {!isDelayed && (
+                <div className="space-y-3">
+                  <label className="text-sm font-semibold text-slate-600">Source Population</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => { setSourceModel('infinite'); requestReset(); }}
+                      className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${sourceModel === 'infinite' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                    >
+                      Infinite (Erlang B)
+                    </button>
+                    <button
+                      onClick={() => { setSourceModel('finite'); requestReset(); }}
+                      className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${sourceModel === 'finite' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                    >
+                      Finite (Engset)
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {!isDelayed && !isFiniteSource && (
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-semibold text-slate-600">Handoff Priority</label>
+                  <button
+                    onClick={() => {
+                      setHandoffPriority(!handoffPriority);
+                      if (!handoffPriority) setRetrials(false);
+                      requestReset();
+                    }}
+                    className={`relative w-11 h-6 rounded-full transition-colors ${handoffPriority ? 'bg-indigo-600' : 'bg-slate-200'}`}
+                  >
+                    <span className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full shadow transition-transform ${handoffPriority ? 'translate-x-5' : ''}`} />
+                  </button>
+                </div>
+              )}
+
+              {!isDelayed && !isFiniteSource && (
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-semibold text-slate-600">Blocked Callers Redial</label>
+                  <button
+                    onClick={() => {
+                      setRetrials(!retrials);
+                      if (!retrials) setHandoffPriority(false);
+                      requestReset();
+                    }}
+                    className={`relative w-11 h-6 rounded-full transition-colors ${isRetrial ? 'bg-indigo-600' : 'bg-slate-200'}`}
+                  >
+                    <span className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full shadow transition-transform ${isRetrial ? 'translate-x-5' : ''}`} />
+                  </button>
+                </div>
+              )}
+
+              {isFiniteSource && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Population Size (N)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{population} sources</span>
+                  </div>
+                  <input
+                    type="range" min="1" max="200" step="1"
+                    value={population}
+                    onChange={(e) => {
+                      triggerHaptic('selection');
+                      setPopulation(parseInt(e.target.value));
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  />
+                  <p className="text-[10px] text-slate-400">
+                    Each idle source calls at λ/N = {(arrivalRate / population).toFixed(3)} calls/hr, so busy sources cannot generate new calls.
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <label className="text-sm font-semibold text-slate-600">Total Channels (C)</label>
@@ -189,7 +496,6 @@ export function TrunkingSimulator() {
                   onChange={(e) => {
                     triggerHaptic('selection');
                     setChannels(parseInt(e.target.value));
-                    if (currentBusy > parseInt(e.target.value)) setCurrentBusy(parseInt(e.target.value));
                   }}
                   className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
                 />
@@ -197,7 +503,7 @@ export function TrunkingSimulator() {
 
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
-                  <label className="text-sm font-semibold text-slate-600">Arrival Rate (λ)</label>
+                  <label className="text-sm font-semibold text-slate-600">{isPriority ? 'New Call Rate (λₙ)' : 'Arrival Rate (λ)'}{isProfiled ? ' at Busy Hour' : ''}</label>
                   <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{arrivalRate} calls/hr</span>
                 </div>
                 <input 
@@ -226,31 +532,248 @@ export function TrunkingSimulator() {
                   className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
                 />
               </div>
+
+              {isDelayed && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-semibold text-slate-600">Wait Threshold (t)</label>
+                    <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{waitThreshold} hr</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="2" step="0.05"
+                    value={waitThreshold}
+                    onChange={(e) => {
+                      triggerHaptic('selection');
+                      setWaitThreshold(parseFloat(e.target.value));
+                    }}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  />
+                </div>
+              )}
               
-              <button
-                onClick={() => handleCallAttempt(true)}
-                className="w-full py-3 bg-indigo-50 text-indigo-600 font-bold rounded-xl hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2"
-              >
-                <PhoneCall className="w-4 h-4" />
-                Manual Call Attempt
-              </button>
+              {isPriority && (
+                <>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Handoff Rate (λₕ)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{handoffRate} calls/hr</span>
+                    </div>
+                    <input
+                      type="range" min="0.1" max="20" step="0.1"
+                      value={handoffRate}
+                      onChange={(e) => {
+                        triggerHaptic('selection');
+                        setHandoffRate(parseFloat(e.target.value));
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                    />
+                  </div>
+
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Guard Channels (g)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{guard}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max={Math.min(10, channels)} step="1"
+                      value={guard}
+                      onChange={(e) => {
+                        triggerHaptic('selection');
+                        setGuardChannels(parseInt(e.target.value));
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                    />
+                    <p className="text-[10px] text-slate-400">
+                      New calls are refused once {channels - guard} channels are busy; the last {guard} serve handoffs only.
+                    </p>
+                  </div>
+                </>
+              )}
+              
+              {isRetrial && (
+                <>
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Redial Probability (p)</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{retryProbability.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="0.95" step="0.05"
+                      value={retryProbability}
+                      onChange={(e) => {
+                        triggerHaptic('selection');
+                        setRetryProbability(parseFloat(e.target.value));
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-semibold text-slate-600">Mean Redial Delay</label>
+                      <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{retryDelay} hr</span>
+                    </div>
+                    <input
+                      type="range" min="0.05" max="5" step="0.05"
+                      value={retryDelay}
+                      onChange={(e) => {
+                        triggerHaptic('selection');
+                        setRetryDelay(parseFloat(e.target.value));
+                      }}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                    <p className="text-[10px] text-slate-400">
+                      A blocked caller tries again with probability p after an exponential delay, and gives up otherwise. Every redial that is blocked rolls again.
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {isPriority ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => handleCallAttempt('new')}
+                    className="py-3 bg-indigo-50 text-indigo-600 font-bold rounded-xl hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2 text-xs"
+                  >
+                    <PhoneCall className="w-4 h-4" />
+                    New Call
+                  </button>
+                  <button
+                    onClick={() => handleCallAttempt('handoff')}
+                    className="py-3 bg-sky-50 text-sky-600 font-bold rounded-xl hover:bg-sky-100 transition-colors flex items-center justify-center gap-2 text-xs"
+                  >
+                    <Repeat className="w-4 h-4" />
+                    Handoff Call
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => handleCallAttempt()}
+                  className="w-full py-3 bg-indigo-50 text-indigo-600 font-bold rounded-xl hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2"
+                >
+                  <PhoneCall className="w-4 h-4" />
+                  Manual Call Attempt
+                </button>
+              )}
             </div>
 
             <div className="mt-8 pt-6 border-t border-slate-100 space-y-4">
               <div className="flex justify-between items-center">
-                <span className="text-sm text-slate-500">Traffic Load (A)</span>
+                <span className="text-sm text-slate-500">{isPriority ? 'New Call Load (Aₙ)' : isRetrial ? 'Fresh Traffic (A)' : 'Traffic Load (A)'}</span>
                 <span className="font-mono font-bold text-indigo-600">{trafficLoad.toFixed(2)} Erlangs</span>
               </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-slate-500 font-bold">Theoretical Blocking</span>
-                <span className="font-mono font-bold text-rose-600">{(blockingProb * 100).toFixed(2)}%</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-slate-500 font-bold">Observed Blocking</span>
-                <span className="font-mono font-bold text-rose-500">
-                  {stats.totalCalls > 0 ? ((stats.droppedCalls / stats.totalCalls) * 100).toFixed(2) : '0.00'}%
-                </span>
-              </div>
+              {isProfiled && (
+                <p className="text-[10px] text-slate-400">
+                  Formulas below use the busy-hour load, while the observed figures cover the whole day. The traffic profile panel compares them hour by hour.
+                </p>
+              )}
+              {isPriority && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-slate-500">Handoff Load (Aₕ)</span>
+                  <span className="font-mono font-bold text-sky-600">{handoffLoad.toFixed(2)} Erlangs</span>
+                </div>
+              )}
+              {isDelayed ? (
+                <>
+                  {!isStable && (
+                    <div className="flex items-start gap-2 p-3 bg-amber-50 text-amber-700 rounded-xl text-[11px] font-medium">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      A ≥ C: calls arrive faster than the channels can serve them, so the queue grows without bound.
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">P(Delay) · Erlang C</span>
+                    <span className="font-mono font-bold text-amber-600">{(delayProb * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Observed P(Delay)</span>
+                    <span className="font-mono font-bold text-amber-500">
+                      {stats.offered > 0 ? ((stats.delayed / stats.offered) * 100).toFixed(2) : '0.00'}%
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">Mean Wait (W)</span>
+                    <span className="font-mono font-bold text-amber-600">{isStable ? `${meanWait.toFixed(3)} hr` : '∞'}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Observed Mean Wait</span>
+                    <span className="font-mono font-bold text-amber-500">{observedMeanWait.toFixed(3)} hr</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">P(W &gt; {waitThreshold} hr)</span>
+                    <span className="font-mono font-bold text-rose-600">{(waitExceedProb * 100).toFixed(2)}%</span>
+                  </div>
+                </>
+              ) : isPriority ? (
+                <>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">New-Call Blocking</span>
+                    <span className="font-mono font-bold text-rose-600">{(guardResult.newCallBlocking * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Observed</span>
+                    <span className="font-mono font-bold text-rose-500">
+                      {stats.offered > stats.handoffOffered ? (((stats.blocked - stats.handoffBlocked) / (stats.offered - stats.handoffOffered)) * 100).toFixed(2) : '0.00'}%
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">Handoff Dropping</span>
+                    <span className="font-mono font-bold text-sky-600">{(guardResult.handoffDropping * 100).toFixed(3)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Observed</span>
+                    <span className="font-mono font-bold text-sky-500">
+                      {stats.handoffOffered > 0 ? ((stats.handoffBlocked / stats.handoffOffered) * 100).toFixed(3) : '0.000'}%
+                    </span>
+                  </div>
+                </>
+              ) : isRetrial ? (
+                <>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">Effective Load (A_eff)</span>
+                    <span className="font-mono font-bold text-indigo-600">{retrialResult.effectiveLoad.toFixed(2)} Erlangs</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Observed</span>
+                    <span className="font-mono font-bold text-indigo-500">{observedLoad !== null ? observedLoad.toFixed(2) : '—'} Erlangs</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">Attempt Blocking</span>
+                    <span className="font-mono font-bold text-rose-600">{(retrialResult.attemptBlocking * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Observed</span>
+                    <span className="font-mono font-bold text-rose-500">{((observedBlocking ?? 0) * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Erlang B Without Redials</span>
+                    <span className="font-mono font-bold text-slate-500">{(blockingProb * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">Callers Lost</span>
+                    <span className="font-mono font-bold text-emerald-600">{(retrialResult.lossProbability * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500">Observed</span>
+                    <span className="font-mono font-bold text-emerald-500">
+                      {freshAttempts > 0 ? ((stats.abandoned / freshAttempts) * 100).toFixed(2) : '0.00'}%
+                    </span>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">{isFiniteSource ? 'Engset Blocking' : 'Theoretical Blocking'}</span>
+                    <span className="font-mono font-bold text-rose-600">{(blockingProb * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-500 font-bold">Observed Blocking</span>
+                    <span className="font-mono font-bold text-rose-500">
+                      {stats.offered > 0 ? ((stats.blocked / stats.offered) * 100).toFixed(2) : '0.00'}%
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
           </section>
 
@@ -271,22 +794,78 @@ export function TrunkingSimulator() {
                     animate={{ opacity: 1, x: 0 }}
                     exit={{ opacity: 0, scale: 0.9 }}
                     className={`flex items-center gap-3 p-2 rounded-lg text-xs font-medium ${
-                      event.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 
-                      event.type === 'drop' ? 'bg-rose-50 text-rose-700' : 'bg-slate-50 text-slate-600'
+                      event.type === 'connected' || event.type === 'dequeued' ? 'bg-emerald-50 text-emerald-700' : 
+                      event.type === 'blocked' ? 'bg-rose-50 text-rose-700' :
+                      event.type === 'queued' ? 'bg-amber-50 text-amber-700' : 'bg-slate-50 text-slate-600'
                     }`}
                   >
-                    {event.type === 'success' ? <CheckCircle2 className="w-3 h-3" /> : 
-                     event.type === 'drop' ? <XCircle className="w-3 h-3" /> : <Activity className="w-3 h-3" />}
+                    {event.type === 'connected' || event.type === 'dequeued' ? <CheckCircle2 className="w-3 h-3" /> : 
+                     event.type === 'blocked' ? <XCircle className="w-3 h-3" /> :
+                     event.type === 'queued' ? <Hourglass className="w-3 h-3" /> : <Activity className="w-3 h-3" />}
                     <span className="flex-1">
-                      {event.type === 'success' ? 'Call Connected' : 
-                       event.type === 'drop' ? 'Call Dropped (Blocked)' : 'Call Finished'}
+                      {event.type === 'connected' ? 'Call Connected' : 
+                       event.type === 'blocked' ? (event.retrying ? 'Blocked, Will Redial' : 'Call Dropped (Blocked)') :
+                       event.type === 'queued' ? 'Call Queued (All Busy)' :
+                       event.type === 'dequeued' ? 'Queued Call Connected' : 'Call Finished'}
                     </span>
+                    {isPriority && (
+                      <span className="px-1.5 py-0.5 rounded text-[9px] font-bold text-white" style={{ backgroundColor: CLASS_COLORS[event.callClass] }}>
+                        {event.callClass === 'handoff' ? 'HO' : 'NEW'}
+                      </span>
+                    )}
+                    {isRetrial && (
+                      <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${event.attempt > 1 ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-600'}`}>
+                        {event.attempt > 1 ? `RETRY ${event.attempt - 1}` : 'FRESH'}
+                      </span>
+                    )}
                     <span className="opacity-50 font-mono">{event.time}</span>
                   </motion.div>
                 ))}
               </AnimatePresence>
             </div>
           </section>
+
+          <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+            <h4 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <ListOrdered className="w-4 h-4 text-indigo-600" />
+              Call Records
+            </h4>
+            {records.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">Each offered call is recorded with its arrival, wait and holding time.</p>
+            ) : (
+              <table className="w-full text-[10px] font-mono">
+                <thead className="text-slate-400 uppercase">
+                  <tr>
+                    <th className="text-left font-bold pb-2">#</th>
+                    <th className="text-right font-bold pb-2">Arrival</th>
+                    <th className="text-right font-bold pb-2">Wait</th>
+                    <th className="text-right font-bold pb-2">Hold</th>
+                    <th className="text-right font-bold pb-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {records.map(record => (
+                    <tr key={record.id} className="border-t border-slate-100 text-slate-700">
+                      <td className="py-1.5 font-bold" style={isPriority ? { color: CLASS_COLORS[record.callClass] } : undefined}>
+                        {record.id}{isPriority && record.callClass === 'handoff' ? ' HO' : ''}{record.attempt > 1 ? ` ↻${record.attempt - 1}` : ''}
+                      </td>
+                      <td className="py-1.5 text-right">{record.arrival.toFixed(2)}</td>
+                      <td className="py-1.5 text-right">{record.start !== null ? (record.start - record.arrival).toFixed(2) : '—'}</td>
+                      <td className="py-1.5 text-right">{record.outcome === 'blocked' ? '—' : record.holding.toFixed(2)}</td>
+                      <td className={`py-1.5 text-right font-bold ${
+                        record.outcome === 'blocked' ? 'text-rose-600' :
+                        record.outcome === 'queued' ? 'text-amber-600' :
+                        record.outcome === 'active' ? 'text-emerald-600' : 'text-slate-400'
+                      }`}>
+                        {record.outcome}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="text-[10px] text-slate-400 mt-3">Times in simulated hours.</p>
+          </section>
         </div>
 
         {/* Visualizations */}
@@ -298,23 +877,62 @@ export function TrunkingSimulator() {
               <div className="text-4xl font-black text-indigo-600">{currentBusy} / {channels}</div>
               <div className="w-full bg-slate-100 h-2 rounded-full mt-4 overflow-hidden">
                 <motion.div 
-                  animate={{ width: `${(currentBusy / channels) * 100}%` }}
-                  className={`h-full transition-colors ${currentBusy === channels ? 'bg-rose-500' : 'bg-indigo-500'}`}
+                  animate={{ width: `${Math.min(currentBusy / channels, 1) * 100}%` }}
+                  className={`h-full transition-colors ${currentBusy >= channels ? 'bg-rose-500' : 'bg-indigo-500'}`}
                 />
               </div>
             </div>
             <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm flex flex-col items-center justify-center text-center">
               <span className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Total Calls</span>
-              <div className="text-4xl font-black text-slate-800">{stats.totalCalls}</div>
+              <div className="text-4xl font-black text-slate-800">{stats.offered}</div>
               <span className="text-[10px] text-slate-400 mt-2">Requests since start</span>
             </div>
-            <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm flex flex-col items-center justify-center text-center">
-              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Dropped Calls</span>
-              <div className="text-4xl font-black text-rose-600">{stats.droppedCalls}</div>
-              <span className="text-[10px] text-slate-400 mt-2">Capacity exceeded</span>
-            </div>
+            {isDelayed ? (
+              <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm flex flex-col items-center justify-center text-center">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Queue Length</span>
+                <div className="text-4xl font-black text-amber-500">{queueLength}</div>
+                <div className="flex flex-wrap justify-center gap-1 mt-3 min-h-[8px]">
+                  {Array.from({ length: Math.min(queueLength, 20) }, (_, i) => (
+                    <div key={i} className="w-2 h-2 rounded-full bg-amber-400" />
+                  ))}
+                  {queueLength > 20 && <span className="text-[10px] text-amber-500 font-bold">+{queueLength - 20}</span>}
+                </div>
+              </div>
+            ) : (
+              <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm flex flex-col items-center justify-center text-center">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Dropped Calls</span>
+                <div className="text-4xl font-black text-rose-600">{stats.blocked}</div>
+                <span className="text-[10px] text-slate-400 mt-2">Capacity exceeded</span>
+              </div>
+            )}
           </div>
 
+          {isPriority && (
+            <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-bold text-slate-800">Channel Pool</h3>
+                <div className="flex items-center gap-4 text-[10px] font-bold">
+                  <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded" style={{ backgroundColor: CLASS_COLORS.new }} />New ({occupancy.new})</span>
+                  <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded" style={{ backgroundColor: CLASS_COLORS.handoff }} />Handoff ({occupancy.handoff})</span>
+                  <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border-2 border-dashed border-sky-300" />Guard</span>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {Array.from({ length: channels }, (_, i) => {
+                  const callClass: CallClass | null = i < occupancy.new ? 'new' : i < occupancy.new + occupancy.handoff ? 'handoff' : null;
+                  const isGuard = i >= channels - guard;
+                  return (
+                    <div
+                      key={i}
+                      className={`w-8 h-8 rounded-lg transition-colors ${isGuard ? 'border-2 border-dashed border-sky-300' : 'border border-slate-200'}`}
+                      style={{ backgroundColor: callClass ? CLASS_COLORS[callClass] : '#f8fafc' }}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Markov Chain Diagram */}
           <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
             <div className="flex items-center justify-between mb-6">
@@ -322,7 +940,7 @@ export function TrunkingSimulator() {
                 <Activity className="w-5 h-5 text-indigo-600" />
                 <h3 className="font-bold text-slate-800">Markov Chain State Diagram</h3>
               </div>
-              <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400">M/M/C/C Model</span>
+              <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400">{isDelayed ? 'M/M/C Model' : isFiniteSource ? 'M/M/C/C/N Model' : 'M/M/C/C Model'}</span>
             </div>
             
             <div className="overflow-x-auto pb-4">
@@ -335,8 +953,8 @@ export function TrunkingSimulator() {
                         <motion.div 
                           initial={false}
                           animate={{ 
-                            scale: isActive ? 1.2 : (typeof state === 'number' ? 1 + stateProbs[state] * 0.5 : 1),
-                            backgroundColor: isActive ? '#4f46e5' : (typeof state === 'number' ? (state === channels ? '#f43f5e' : '#e2e8f0') : '#f1f5f9'),
+                            scale: isActive ? 1.2 : (typeof state === 'number' ? 1 + (stateProbs[state] ?? 0) * 0.5 : 1),
+                            backgroundColor: isActive ? '#4f46e5' : (typeof state === 'number' ? (state === channels ? (isDelayed ? '#f59e0b' : '#f43f5e') : '#e2e8f0') : '#f1f5f9'),
                             color: isActive || (state === channels) ? '#fff' : '#64748b',
                             boxShadow: isActive ? '0 0 20px rgba(79, 70, 229, 0.4)' : 'none'
                           }}
@@ -345,13 +963,16 @@ export function TrunkingSimulator() {
                           {state}
                         </motion.div>
                         <span className="text-[10px] font-mono text-slate-400">
-                          {typeof state === 'number' ? `${(stateProbs[state] * 100).toFixed(1)}%` : ''}
+                          {typeof state === 'number' ? `${((stateProbs[state] ?? 0) * 100).toFixed(1)}%` : ''}
                         </span>
                       </div>
                       {idx < 4 && (
                         <div className="flex flex-col items-center -space-y-1">
                           <div className="flex items-center text-indigo-400">
-                            <span className="text-[10px] font-bold mr-1">λ</span>
+                            <span className="text-[10px] font-bold mr-1">
+                              {isFiniteSource ? `${Math.max(0, population - (state === '...' ? channels - 1 : idx))}α` :
+                               isPriority && (state === '...' ? channels - 1 : idx) >= channels - guard ? 'λₕ' : 'λ'}
+                            </span>
                             <ArrowRight className="w-4 h-4" />
                           </div>
                           <div className="flex items-center text-rose-400">
@@ -367,12 +988,17 @@ export function TrunkingSimulator() {
                 })}
               </div>
             </div>
+            {isDelayed && (
+              <p className="text-[10px] text-slate-400 text-center">
+                Beyond state C, arrivals join the queue instead of being lost; each queued call leaves at rate Cμ as channels free up.
+              </p>
+            )}
           </div>
 
           {/* Charts */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
-              <h4 className="text-sm font-bold text-slate-800 mb-6">Erlang B Curve (Pc vs Load)</h4>
+              <h4 className="text-sm font-bold text-slate-800 mb-6">{isDelayed ? 'Erlang C Curve (P(Delay) vs Load)' : isFiniteSource ? `Engset Curve (N = ${population})` : 'Erlang B Curve (Pc vs Load)'}</h4>
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
                   <AreaChart data={curveData}>
@@ -390,12 +1016,15 @@ export function TrunkingSimulator() {
                     />
                     <YAxis 
                       fontSize={10}
-                      label={{ value: 'Blocking Prob', angle: -90, position: 'insideLeft', fontSize: 10 }}
+                      label={{ value: isDelayed ? 'Delay Prob' : 'Blocking Prob', angle: -90, position: 'insideLeft', fontSize: 10 }}
                     />
                     <Tooltip 
                       contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
                     />
-                    <Area type="monotone" dataKey="prob" stroke="#4f46e5" fillOpacity={1} fill="url(#colorProb)" strokeWidth={2} />
+                    <Area type="monotone" dataKey="prob" name={isPriority ? 'New-call blocking' : 'Blocking'} stroke="#4f46e5" fillOpacity={1} fill="url(#colorProb)" strokeWidth={2} />
+                    {isPriority && (
+                      <Area type="monotone" dataKey="drop" name="Handoff dropping" stroke="#0ea5e9" fill="none" strokeWidth={2} strokeDasharray="5 5" />
+                    )}
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
@@ -405,7 +1034,7 @@ export function TrunkingSimulator() {
               <h4 className="text-sm font-bold text-slate-800 mb-6">State Probability Distribution</h4>
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={distributionData.slice(0, 15)}>
+                  <BarChart data={distributionData.slice(0, isDelayed ? channels + 11 : 15)}>
                     <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
                     <XAxis dataKey="state" fontSize={10} />
                     <YAxis fontSize={10} />
@@ -415,7 +1044,7 @@ export function TrunkingSimulator() {
                     />
                     <Bar dataKey="prob" radius={[4, 4, 0, 0]}>
                       {distributionData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={index === channels ? '#f43f5e' : (index === currentBusy ? '#4f46e5' : '#e2e8f0')} />
+                        <Cell key={`cell-${index}`} fill={index === currentBusy + queueLength ? '#4f46e5' : isPriority && index >= channels - guard ? '#7dd3fc' : (index > channels ? '#fcd34d' : (index === channels ? (isDelayed ? '#f59e0b' : '#f43f5e') : '#e2e8f0'))} />
                       ))}
                     </Bar>
                   </BarChart>
@@ -423,9 +1052,78 @@ export function TrunkingSimulator() {
               </div>
             </div>
           </div>
+
+          {isFiniteSource && (
+            <EngsetConvergenceChart channels={channels} trafficLoad={trafficLoad} population={population} />
+          )}
+
+          {isRetrial && (
+            <RetrialCharts
+              channels={channels}
+              trafficLoad={trafficLoad}
+              retryProbability={retryProbability}
+              observedLoad={observedLoad}
+              observedBlocking={observedBlocking}
+            />
+          )}
+
+          {isDelayed && (
+            <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+              <div className="flex items-center justify-between mb-6">
+                <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                  <Hourglass className="w-4 h-4 text-amber-500" />
+                  Waiting-Time Histogram (Delayed Calls)
+                </h4>
+                <span className="text-[10px] font-mono text-slate-400">{waitTimes.filter(w => w > 0).length} delayed calls served</span>
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={waitHistogram}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis
+                      dataKey="bin"
+                      fontSize={10}
+                      label={{ value: 'Wait (hr)', position: 'insideBottom', offset: -5, fontSize: 10 }}
+                    />
+                    <YAxis fontSize={10} allowDecimals={false} />
+                    <Tooltip
+                      cursor={{fill: '#f8fafc'}}
+                      formatter={(value: number, name: string) => [value.toFixed(name === 'expected' ? 1 : 0), name === 'expected' ? 'Erlang C' : 'Observed']}
+                      contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                    />
+                    <Bar dataKey="observed" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="expected" fill="#e2e8f0" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
+      {!isFiniteSource && (
+        <TrafficProfilePanel
+          config={config}
+          choice={trafficProfile}
+          profile={profile}
+          hourly={hourly}
+          onChoiceChange={(choice) => {
+            setTrafficProfile(choice);
+            requestReset();
+          }}
+          onEditHour={editProfileHour}
+        />
+      )}
+
+      <BatchPanel config={config} />
+
+      <PlanningPanel
+        onApplyChannels={(c) => {
+          setChannels(c);
+          requestReset();
+        }}
+      />
+
       {/* Formula Modal */}
       <AnimatePresence>
         {showFormulas && (
@@ -492,7 +1190,61 @@ export function TrunkingSimulator() {
                 </section>
 
                 <section>
-                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">4. State Probability (Pn)</h4>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">4. Erlang C Formula (Delay)</h4>
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
+                    <div className="text-xl text-amber-600 mb-4 text-center">
+                      <BlockMath math="C(C, A) = \frac{C \cdot B(C, A)}{C - A\,(1 - B(C, A))}" />
+                    </div>
+                    <div className="text-lg text-amber-600 mb-4 text-center">
+                      <BlockMath math="\bar{W} = \frac{C(C, A)}{C\mu - \lambda}, \quad P(W > t) = C(C, A)\, e^{-(C - A)\mu t}" />
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      With "Blocked Calls Delayed", a call that finds all channels busy waits in a queue until one frees up. Valid only while <InlineMath math="A < C" />.
+                    </p>
+                  </div>
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">5. Engset Formula (Finite Sources)</h4>
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
+                    <div className="text-xl text-indigo-600 mb-4 text-center">
+                      <BlockMath math="B_E = \frac{\binom{N-1}{C} \beta^C}{\sum_{i=0}^{C} \binom{N-1}{i} \beta^i}, \quad \beta = \frac{A}{N}" />
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      With only <i>N</i> sources, the arrival rate in state <i>n</i> drops to <InlineMath math="(N - n)\alpha" />. An arriving call sees the other <InlineMath math="N - 1" /> sources, and <InlineMath math="B_E \to B(C, A)" /> as <InlineMath math="N \to \infty" />.
+                    </p>
+                  </div>
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">6. Guard Channels (Handoff Priority)</h4>
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
+                    <div className="text-lg text-sky-600 mb-4 text-center">
+                      <BlockMath math="P_k = P_0 \cdot \begin{cases} \dfrac{(A_n + A_h)^k}{k!} & k \le C - g \\[2mm] \dfrac{(A_n + A_h)^{C-g} A_h^{\,k-(C-g)}}{k!} & k > C - g \end{cases}" />
+                    </div>
+                    <div className="text-lg text-sky-600 mb-4 text-center">
+                      <BlockMath math="P_{B,\text{new}} = \sum_{k=C-g}^{C} P_k, \quad P_{D,\text{handoff}} = P_C" />
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      Reserving <i>g</i> channels for handoffs trades a higher new-call blocking for a much lower dropping probability, since users tolerate a busy signal far better than a dropped call.
+                    </p>
+                  </div>
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">7. Redials (Retrial Fixed Point)</h4>
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
+                    <div className="text-xl text-indigo-600 mb-4 text-center">
+                      <BlockMath math="A_{\text{eff}} = \frac{A}{1 - p\,B(C, A_{\text{eff}})}, \quad P_{\text{loss}} = \frac{(1 - p)\,B}{1 - p\,B}" />
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      Each blocked attempt returns with probability <i>p</i>, so the channels see the fresh traffic plus every redial. Solving for <InlineMath math="A_{\text{eff}}" /> iteratively gives the attempt blocking <InlineMath math="B = B(C, A_{\text{eff}})" />. The approximation treats redials as independent Poisson arrivals; quick redials hit a still-congested cell and are blocked more often than it predicts.
+                    </p>
+                  </div>
+                </section>
+
+                <section>
+                  <h4 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">8. State Probability (Pn)</h4>
                   <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
                     <div className="text-xl text-indigo-600 mb-2">
                       <InlineMath math="P_n = P_0 \cdot \frac{A^n}{n!}" />
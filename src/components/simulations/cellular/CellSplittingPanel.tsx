@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { Scissors, Undo2, RotateCcw } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { calculateMaxTraffic } from '../../../utils/math';
+import {
+  CELL_RADIUS_M,
+  clusterSize,
+  MAX_SPLIT_DEPTH,
+  serviceAreaCells,
+  splitHistory,
+  splitTier
+} from '../../../utils/cellular';
+
+const TIER_NAMES = ['Macro (R)', 'Micro (R/2)', 'Pico (R/4)'];
+
+interface CellSplittingPanelProps {
+  i: number;
+  j: number;
+  pathLossExponent: number;
+  splits: string[];
+  extent: number; // Service area radius in cell steps
+  onUndo: () => void;
+  onReset: () => void;
+}
+
+export function CellSplittingPanel({ i, j, pathLossExponent, splits, extent, onUndo, onReset }: CellSplittingPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [txPower] = useSimulatorState('cellular', 'txPower', 43, { min: 20, max: 50 }); // dBm
+  const [cellChannels] = useSimulatorState('cellular', 'cellChannels', 60, { min: 6, max: 120 });
+  const [sectorGos] = useSimulatorState('cellular', 'sectorGos', 2, { min: 0.1, max: 20 }); // %
+  const n = clusterSize(i, j);
+
+  const history = useMemo(() => splitHistory(splits, extent), [splits, extent]);
+  const current = history[history.length - 1];
+  const tiers = useMemo(
+    () => Array.from({ length: MAX_SPLIT_DEPTH + 1 }, (_, d) => splitTier(d, n, pathLossExponent, txPower)),
+    [n, pathLossExponent, txPower]
+  );
+  const trafficPerCell = useMemo(() => calculateMaxTraffic(cellChannels, sectorGos / 100), [cellChannels, sectorGos]);
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <Scissors className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold text-slate-800">Cell Splitting</h3>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">Click a cell on the reuse map to split it</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => {
+              onUndo();
+              triggerHaptic('light');
+            }}
+            disabled={splits.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+          <button
+            onClick={() => {
+              onReset();
+              triggerHaptic('medium');
+            }}
+            disabled={splits.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Tiers, N = {n}</p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold">Tier</th>
+                  <th className="px-3 py-2 text-right font-bold">Radius</th>
+                  <th className="px-3 py-2 text-right font-bold">D</th>
+                  <th className="px-3 py-2 text-right font-bold">Tx Power</th>
+                  <th className="px-3 py-2 text-right font-bold">Reduction</th>
+                  <th className="px-3 py-2 text-right font-bold">Cells</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tiers.map(tier => (
+                  <tr key={tier.depth} className={`border-t border-slate-100 ${current.cellsByDepth[tier.depth] > 0 ? 'text-slate-700' : 'text-slate-400'}`}>
+                    <td className="px-3 py-2 font-bold">{TIER_NAMES[tier.depth]}</td>
+                    <td className="px-3 py-2 text-right">{(tier.radius * CELL_RADIUS_M).toFixed(0)} m</td>
+                    <td className="px-3 py-2 text-right">{(tier.reuseDistance * CELL_RADIUS_M).toFixed(0)} m</td>
+                    <td className="px-3 py-2 text-right">{tier.txPowerDbm.toFixed(1)} dBm</td>
+                    <td className="px-3 py-2 text-right">{tier.depth === 0 ? '—' : `−${tier.powerReductionDb.toFixed(1)} dB`}</td>
+                    <td className="px-3 py-2 text-right">{current.cellsByDepth[tier.depth]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            Split cells keep the N = {n} pattern on a lattice twice as fine, so Q = D/R and the boundary S/I stay the same while the co-channel distance halves. Holding the S/I requires the transmit power to fall by 10n·log₁₀2 = {tiers[1].powerReductionDb.toFixed(1)} dB per split. Each tier is drawn with its own channel pattern; in practice the parent's channels are partitioned between the large and small cells until the whole area has been split.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Capacity of the {serviceAreaCells(extent)}-cell service area, {cellChannels} channels per cell at {sectorGos}% GoS
+          </p>
+          <div className="overflow-x-auto max-h-72 overflow-y-auto">
+            <table className="w-full text-xs font-mono">
+              <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold">Step</th>
+                  <th className="px-3 py-2 text-left font-bold">Split</th>
+                  <th className="px-3 py-2 text-right font-bold">Cells</th>
+                  <th className="px-3 py-2 text-right font-bold">Channels</th>
+                  <th className="px-3 py-2 text-right font-bold">Carried (Erl)</th>
+                  <th className="px-3 py-2 text-right font-bold">Gain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(step => (
+                  <tr
+                    key={step.step}
+                    className={`border-t border-slate-100 ${step === current ? 'bg-blue-50 text-blue-700 font-bold' : 'text-slate-700'}`}
+                  >
+                    <td className="px-3 py-2">{step.step}</td>
+                    <td className="px-3 py-2">{step.cell ? `(${step.cell.q}, ${step.cell.r}) → ${TIER_NAMES[step.depth].split(' ')[0]}` : 'Baseline'}</td>
+                    <td className="px-3 py-2 text-right">{step.cells}</td>
+                    <td className="px-3 py-2 text-right">{step.cells * cellChannels}</td>
+                    <td className="px-3 py-2 text-right">{(step.cells * trafficPerCell).toFixed(1)}</td>
+                    <td className="px-3 py-2 text-right">×{(step.cells / history[0].cells).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            Each split covers the cell's area with four times as many cells of half the radius (counted by area: children on the boundary are shared with the neighbours), each with a full set of {cellChannels} channels, so the capacity of that area quadruples.
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+}
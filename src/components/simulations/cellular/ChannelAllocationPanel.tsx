@@ -0,0 +1,377 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend
+} from 'recharts';
+import { Shuffle, Play, Pause, RotateCcw, Clock } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { hexVertices } from '../../../utils/cellular';
+import {
+  advanceAllocation,
+  ALLOCATION_STRATEGIES,
+  createAllocationEngine,
+  fixedAllocationBlocking,
+  type AllocationConfig,
+  type AllocationEngine,
+  type AllocationSample,
+  type AllocationStrategy,
+  type CellTally
+} from '../../../utils/channelAllocation';
+
+const SPEEDS = [1, 5, 20]; // Simulated hours per real second
+const TICK_MS = 100;
+const EXTENT = 3; // 37 cells
+const HEX_R = 22; // Map hexagon radius in SVG units
+
+const STRATEGY_META: Record<AllocationStrategy, { label: string; color: string }> = {
+  fixed: { label: 'Fixed (FCA)', color: '#0f172a' },
+  borrowing: { label: 'Borrowing', color: '#2563eb' },
+  dynamic: { label: 'Dynamic (DCA)', color: '#059669' }
+};
+
+interface StrategySnapshot {
+  busy: number[];
+  tally: CellTally[];
+  offered: number;
+  blocked: number;
+}
+
+interface Snapshot {
+  clock: number;
+  samples: AllocationSample[];
+  states: Record<AllocationStrategy, StrategySnapshot>;
+}
+
+function snapshotOf(engine: AllocationEngine): Snapshot {
+  const copy = (strategy: AllocationStrategy): StrategySnapshot => {
+    const state = engine.states[strategy];
+    return { busy: [...state.busy], tally: state.tally.map(t => ({ ...t })), offered: state.offered, blocked: state.blocked };
+  };
+  return {
+    clock: engine.clock,
+    samples: [...engine.samples],
+    states: { fixed: copy('fixed'), borrowing: copy('borrowing'), dynamic: copy('dynamic') }
+  };
+}
+
+// White (no blocking) to rose (20% or more)
+function blockingFill(ratio: number): string {
+  const t = Math.min(1, ratio / 0.2);
+  const mix = (a: number, b: number) => Math.round(a + (b - a) * t);
+  return `rgb(${mix(248, 225)}, ${mix(250, 29)}, ${mix(252, 72)})`;
+}
+
+interface ChannelAllocationPanelProps {
+  i: number;
+  j: number;
+}
+
+export function ChannelAllocationPanel({ i, j }: ChannelAllocationPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [strategy, setStrategy] = useSimulatorState<AllocationStrategy>('cellular', 'allocStrategy', 'borrowing', { allowed: ALLOCATION_STRATEGIES });
+  const [channelsPerCell, setChannelsPerCell] = useSimulatorState('cellular', 'allocChannels', 8, { min: 2, max: 20 });
+  const [cellLoad, setCellLoad] = useSimulatorState('cellular', 'allocLoad', 4, { min: 0.5, max: 15 }); // Erlangs
+  const [hotspotLoad, setHotspotLoad] = useSimulatorState('cellular', 'hotspotLoad', 8, { min: 0.5, max: 20 }); // Erlangs
+  const [simSpeed, setSimSpeed] = useSimulatorState('cellular', 'allocSpeed', 5, { allowed: SPEEDS, url: false });
+
+  const config = useMemo<AllocationConfig>(
+    () => ({ i, j, extent: EXTENT, channelsPerCell, cellLoad, hotspotLoad }),
+    [i, j, channelsPerCell, cellLoad, hotspotLoad]
+  );
+  const engineRef = useRef<AllocationEngine>(createAllocationEngine(config));
+  const [snapshot, setSnapshot] = useState<Snapshot>(() => snapshotOf(engineRef.current));
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Any change to the layout or the loads starts a fresh run
+  useEffect(() => {
+    engineRef.current = createAllocationEngine(config);
+    setSnapshot(snapshotOf(engineRef.current));
+  }, [config]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let last = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const elapsed = Math.min((now - last) / 1000, 0.5);
+      last = now;
+      const engine = engineRef.current;
+      advanceAllocation(engine, engine.clock + elapsed * simSpeed);
+      setSnapshot(snapshotOf(engine));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, simSpeed]);
+
+  const resetSim = () => {
+    engineRef.current = createAllocationEngine(config);
+    setSnapshot(snapshotOf(engineRef.current));
+    setIsPlaying(false);
+    triggerHaptic('selection');
+  };
+
+  const layout = engineRef.current.layout;
+  const analytic = useMemo(() => fixedAllocationBlocking(layout), [layout]);
+  const shown = snapshot.states[strategy];
+
+  const summary = ALLOCATION_STRATEGIES.map(id => {
+    const state = snapshot.states[id];
+    const group = (hotspot: boolean) => {
+      let offered = 0;
+      let blocked = 0;
+      layout.cells.forEach((cell, k) => {
+        if (cell.hotspot !== hotspot) return;
+        offered += state.tally[k].offered;
+        blocked += state.tally[k].blocked;
+      });
+      return offered > 0 ? blocked / offered : null;
+    };
+    const carried = state.offered - state.blocked;
+    const borrowed = state.tally.reduce((sum, t) => sum + t.borrowed, 0);
+    return {
+      id,
+      system: state.offered > 0 ? state.blocked / state.offered : null,
+      hotspot: group(true),
+      others: group(false),
+      borrowedShare: carried > 0 ? borrowed / carried : 0
+    };
+  });
+
+  const chartData = snapshot.samples.map(s => ({ time: s.time, ...s.blocking }));
+  const bounds = layout.cells.reduce(
+    (b, c) => ({ x: Math.max(b.x, Math.abs(c.x)), y: Math.max(b.y, Math.abs(c.y)) }),
+    { x: 0, y: 0 }
+  );
+  const viewWidth = 2 * (bounds.x * HEX_R + HEX_R);
+  const viewHeight = 2 * (bounds.y * HEX_R + HEX_R);
+  const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(2)}%`);
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <Shuffle className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold text-slate-800">Channel Allocation</h3>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">{layout.cells.length} Cells, {layout.totalChannels} Channels</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {ALLOCATION_STRATEGIES.map(id => (
+              <button
+                key={id}
+                onClick={() => {
+                  setStrategy(id);
+                  triggerHaptic('selection');
+                }}
+                className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${strategy === id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {STRATEGY_META[id].label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => {
+              triggerHaptic('selection');
+              setIsPlaying(!isPlaying);
+            }}
+            className={`p-2 rounded-lg transition-colors ${isPlaying ? 'bg-amber-100 text-amber-600' : 'bg-emerald-100 text-emerald-600'}`}
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={resetSim}
+            className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          <div className="flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100">
+            <div className="flex items-center gap-2">
+              <Clock className="w-4 h-4 text-slate-400" />
+              <span className="text-xs font-mono font-bold text-slate-700">{snapshot.clock.toFixed(1)} h</span>
+            </div>
+            <div className="flex items-center gap-1">
+              {SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => {
+                    setSimSpeed(speed);
+                    triggerHaptic('selection');
+                  }}
+                  title={`${speed} simulated hours per second`}
+                  className={`px-2 py-1 rounded-md text-[10px] font-bold font-mono transition-all ${simSpeed === speed ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-200'}`}
+                >
+                  {speed}h/s
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Channels per Cell</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{channelsPerCell}</span>
+            </div>
+            <input
+              type="range" min="2" max="20" step="1"
+              value={channelsPerCell}
+              onChange={(e) => {
+                setChannelsPerCell(parseInt(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Load per Cell</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{cellLoad} Erl</span>
+            </div>
+            <input
+              type="range" min="0.5" max="15" step="0.5"
+              value={cellLoad}
+              onChange={(e) => {
+                setCellLoad(parseFloat(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Hotspot Load (7 Centre Cells)</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{hotspotLoad} Erl</span>
+            </div>
+            <input
+              type="range" min="0.5" max="20" step="0.5"
+              value={hotspotLoad}
+              onChange={(e) => {
+                setHotspotLoad(parseFloat(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+
+          <svg viewBox={`${-viewWidth / 2} ${-viewHeight / 2} ${viewWidth} ${viewHeight}`} className="w-full h-auto">
+            {layout.cells.map((cell, k) => {
+              const center = { x: cell.x * HEX_R, y: cell.y * HEX_R };
+              const tally = shown.tally[k];
+              const ratio = tally.offered > 0 ? tally.blocked / tally.offered : 0;
+              return (
+                <g key={k}>
+                  <title>{`(${cell.q}, ${cell.r}) · set ${cell.cluster + 1} · ${cell.load} Erl · ${tally.offered} calls, ${tally.blocked} blocked, ${tally.borrowed} borrowed`}</title>
+                  <polygon
+                    points={hexVertices(center, HEX_R).map(p => `${p.x},${p.y}`).join(' ')}
+                    fill={blockingFill(ratio)}
+                    stroke={cell.hotspot ? '#0f172a' : '#cbd5e1'}
+                    strokeWidth={cell.hotspot ? 1.5 : 0.75}
+                  />
+                  <text x={center.x} y={center.y - 2} textAnchor="middle" fontSize={7} fontWeight="bold" fill="#1e293b" fontFamily="monospace">
+                    {shown.busy[k]}/{channelsPerCell}
+                  </text>
+                  <text x={center.x} y={center.y + 8} textAnchor="middle" fontSize={6} fill="#64748b" fontFamily="monospace">
+                    {(ratio * 100).toFixed(1)}%
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+          <p className="text-[10px] text-slate-400">
+            Busy channels against the nominal set and blocking so far, per cell, for {STRATEGY_META[strategy].label.toLowerCase()}. Outlined cells carry the hotspot load; hover a cell for its counts.
+          </p>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  tickFormatter={(v: number) => v.toFixed(0)}
+                  fontSize={10}
+                  label={{ value: 'Simulated Time (h)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+                />
+                <YAxis
+                  tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`}
+                  fontSize={10}
+                  label={{ value: 'System Blocking', angle: -90, position: 'insideLeft', fontSize: 10 }}
+                />
+                <Tooltip
+                  formatter={(value: number) => `${(value * 100).toFixed(2)}%`}
+                  labelFormatter={(v: number) => `${v.toFixed(1)} h`}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                />
+                <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+                <ReferenceLine y={analytic.system} stroke="#94a3b8" strokeDasharray="5 5" label={{ value: 'Erlang B, fixed', position: 'insideTopRight', fontSize: 10, fill: '#64748b' }} />
+                {ALLOCATION_STRATEGIES.map(id => (
+                  <Line
+                    key={id}
+                    dataKey={id}
+                    name={STRATEGY_META[id].label}
+                    stroke={STRATEGY_META[id].color}
+                    strokeWidth={id === strategy ? 3 : 1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold">Strategy</th>
+                  <th className="px-3 py-2 text-right font-bold">System</th>
+                  <th className="px-3 py-2 text-right font-bold">Hotspot Cells</th>
+                  <th className="px-3 py-2 text-right font-bold">Other Cells</th>
+                  <th className="px-3 py-2 text-right font-bold">Borrowed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.map(row => (
+                  <tr
+                    key={row.id}
+                    className={`border-t border-slate-100 ${row.id === strategy ? 'bg-blue-50 text-blue-700 font-bold' : 'text-slate-700'}`}
+                  >
+                    <td className="px-3 py-2">{STRATEGY_META[row.id].label}</td>
+                    <td className="px-3 py-2 text-right">{formatPercent(row.system)}</td>
+                    <td className="px-3 py-2 text-right">{formatPercent(row.hotspot)}</td>
+                    <td className="px-3 py-2 text-right">{formatPercent(row.others)}</td>
+                    <td className="px-3 py-2 text-right">{row.id === 'borrowing' ? `${(row.borrowedShare * 100).toFixed(1)}%` : '—'}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-100 text-slate-400">
+                  <td className="px-3 py-2">Erlang B, fixed</td>
+                  <td className="px-3 py-2 text-right">{formatPercent(analytic.system)}</td>
+                  <td className="px-3 py-2 text-right">{formatPercent(analytic.perCell[layout.cells.findIndex(c => c.hotspot)])}</td>
+                  <td className="px-3 py-2 text-right">{formatPercent(analytic.perCell[layout.cells.findIndex(c => !c.hotspot)])}</td>
+                  <td className="px-3 py-2 text-right">—</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            All three strategies see the same calls. Fixed allocation serves a cell from its own {channelsPerCell} channels only. Borrowing takes a channel from the neighbour with the most free channels once the own set is full, if no cell within D uses it, and locks it in every cell within D for the length of the call. Dynamic allocation draws from all {layout.totalChannels} channels under the same distance rule, preferring the channel already reused most often. Cells on the edge of the area have fewer co-channel neighbours, which flatters borrowing and dynamic allocation there.
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceDot,
+  Legend
+} from 'recharts';
+import { Radio, ArrowRight, Target } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { toDb } from '../../../utils/math';
+import {
+  approximateSir,
+  axialToPoint,
+  clusterSize,
+  coChannelCells,
+  minimumCluster,
+  minimumClusterApprox,
+  patternSir,
+  reuseRatio,
+  sectorInterferers,
+  validClusterSizes,
+  worstCaseSir,
+  type ReusePattern
+} from '../../../utils/cellular';
+
+const MAX_SHIFT = 4; // Keeps the S/I curve to the common cluster sizes
+
+interface InterferencePanelProps {
+  i: number;
+  j: number;
+  pathLossExponent: number;
+  tiers: number;
+  requiredSir: number; // dB
+  sectors: number; // 1 for omnidirectional cells
+  onApplyCluster: (pattern: ReusePattern) => void;
+}
+
+export function InterferencePanel({ i, j, pathLossExponent, tiers, requiredSir, sectors, onApplyCluster }: InterferencePanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const n = clusterSize(i, j);
+
+  const interferers = useMemo(() => sectorInterferers(coChannelCells(i, j, tiers), sectors), [i, j, tiers, sectors]);
+  const worst = useMemo(() => worstCaseSir(interferers, pathLossExponent, sectors), [interferers, pathLossExponent, sectors]);
+  // i0 counts the first-tier co-channel cells (or sectors) that still point at the mobile
+  const i0 = interferers.filter(c => c.tier === 1).length;
+  const approxDb = toDb(approximateSir(n, pathLossExponent, i0));
+
+  // Share of the worst-case interference each tier contributes
+  const tierRows = useMemo(() => {
+    const contributions = interferers.map(c => {
+      const p = axialToPoint(c.q, c.r, 1);
+      const d = Math.hypot(worst.location.x - p.x, worst.location.y - p.y);
+      return { tier: c.tier, power: Math.pow(d, -pathLossExponent), distance: c.distance };
+    });
+    const total = contributions.reduce((sum, c) => sum + c.power, 0);
+    return Array.from({ length: tiers }, (_, k) => {
+      const inTier = contributions.filter(c => c.tier === k + 1);
+      return {
+        tier: k + 1,
+        count: inTier.length,
+        minDistance: Math.min(...inTier.map(c => c.distance)),
+        share: total > 0 ? inTier.reduce((sum, c) => sum + c.power, 0) / total : 0
+      };
+    });
+  }, [interferers, worst, pathLossExponent, tiers]);
+
+  const curve = useMemo(() => {
+    return validClusterSizes(MAX_SHIFT).map(p => ({
+      n: p.n,
+      approx: toDb(approximateSir(p.n, pathLossExponent, i0)),
+      tier1: patternSir(p.i, p.j, pathLossExponent, 1, sectors).sirDb,
+      tier2: patternSir(p.i, p.j, pathLossExponent, 2, sectors).sirDb
+    }));
+  }, [pathLossExponent, sectors, i0]);
+
+  const minExact = minimumCluster(requiredSir, pathLossExponent, tiers, MAX_SHIFT, sectors);
+  const minApprox = minimumClusterApprox(requiredSir, pathLossExponent, MAX_SHIFT, i0);
+  const meetsRequirement = worst.sirDb >= requiredSir;
+
+  const renderMinimum = (label: string, pattern: ReusePattern | null) => (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-sm text-slate-500">{label}</span>
+      {pattern ? (
+        <button
+          onClick={() => {
+            onApplyCluster(pattern);
+            triggerHaptic('success');
+          }}
+          disabled={pattern.i === i && pattern.j === j}
+          className="flex items-center gap-1 px-2 py-1 bg-blue-50 text-blue-600 rounded-lg text-xs font-bold font-mono hover:bg-blue-100 transition-colors disabled:opacity-50"
+        >
+          N = {pattern.n} ({pattern.i}, {pattern.j})
+          <ArrowRight className="w-3 h-3" />
+        </button>
+      ) : (
+        <span className="text-xs font-mono font-bold text-rose-500">None with i, j ≤ {MAX_SHIFT}</span>
+      )}
+    </div>
+  );
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-6">
+        <Radio className="w-5 h-5 text-blue-600" />
+        <h3 className="font-bold text-slate-800">Co-Channel Interference (S/I)</h3>
+        <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">Downlink, Worst-Case Mobile{sectors > 1 ? `, ${360 / sectors}° Sector` : ''}</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-slate-500">Q = D / R</span>
+            <span className="font-mono font-bold text-slate-700">{reuseRatio(n).toFixed(3)}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-slate-500 font-bold">Worst-Case S/I</span>
+            <span className={`font-mono font-bold ${meetsRequirement ? 'text-emerald-600' : 'text-rose-600'}`}>{worst.sirDb.toFixed(2)} dB</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-slate-500">(√(3N))ⁿ / {i0}</span>
+            <span className="font-mono font-bold text-blue-600">{approxDb.toFixed(2)} dB</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-slate-500">Approximation Error</span>
+            <span className="font-mono font-bold text-slate-500">{(approxDb - worst.sirDb >= 0 ? '+' : '')}{(approxDb - worst.sirDb).toFixed(2)} dB</span>
+          </div>
+
+          <table className="w-full text-[10px] font-mono">
+            <thead className="text-slate-400 uppercase">
+              <tr>
+                <th className="text-left font-bold pb-2">Tier</th>
+                <th className="text-right font-bold pb-2">Cells</th>
+                <th className="text-right font-bold pb-2">D / R</th>
+                <th className="text-right font-bold pb-2">Share of I</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tierRows.map(row => (
+                <tr key={row.tier} className="border-t border-slate-100 text-slate-700">
+                  <td className="py-1.5 font-bold">{row.tier}</td>
+                  <td className="py-1.5 text-right">{row.count}</td>
+                  <td className="py-1.5 text-right">{row.minDistance.toFixed(2)}</td>
+                  <td className="py-1.5 text-right">{(row.share * 100).toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+              <Target className="w-3 h-3" />
+              Minimum N for S/I ≥ {requiredSir} dB
+            </p>
+            {renderMinimum('Worst case', minExact)}
+            {renderMinimum('Approximation', minApprox)}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={curve} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="n"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                ticks={curve.map(p => p.n)}
+                fontSize={10}
+                label={{ value: 'Cluster Size (N)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+              />
+              <YAxis fontSize={10} label={{ value: 'S/I (dB)', angle: -90, position: 'insideLeft', fontSize: 10 }} />
+              <Tooltip
+                formatter={(value: number) => `${value.toFixed(2)} dB`}
+                labelFormatter={(v: number) => `N = ${v}`}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+              <ReferenceLine y={requiredSir} stroke="#f43f5e" strokeDasharray="5 5" label={{ value: 'Required', position: 'insideTopLeft', fontSize: 10, fill: '#f43f5e' }} />
+              <Line dataKey="approx" name={`(√(3N))ⁿ / ${i0}`} stroke="#2563eb" strokeDasharray="5 5" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+              <Line dataKey="tier1" name="Worst case, 1st tier" stroke="#0f172a" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+              <Line dataKey="tier2" name="Worst case, 1st + 2nd tier" stroke="#94a3b8" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+              <ReferenceDot x={n} y={worst.sirDb} r={5} fill="#f43f5e" stroke="#fff" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-4">
+        The approximation puts the mobile at distance R from its base station and every interferer at distance D. The worst case scans the cell boundary with the exact distance to each co-channel base station; the corner nearest the interferers loses about 1 dB, and the second tier costs roughly another 0.5 dB at n = 4.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Download, FileImage, FileCode2 } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { clusterSize } from '../../../utils/cellular';
+import { downloadPng, downloadSvg, reuseMapSvg } from '../../../utils/mapExport';
+
+const PNG_SCALES = [2, 3, 4];
+
+interface MapExportMenuProps {
+  i: number;
+  j: number;
+  colors: string[];
+  width: number;
+  height: number;
+  radius: number;
+}
+
+export function MapExportMenu({ i, j, colors, width, height, radius }: MapExportMenuProps) {
+  const { triggerHaptic } = useHaptics();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [labels, setLabels] = useSimulatorState('cellular', 'exportLabels', true, { url: false });
+  const [outlines, setOutlines] = useSimulatorState('cellular', 'exportOutlines', true, { url: false });
+  const [distance, setDistance] = useSimulatorState('cellular', 'exportDistance', true, { url: false });
+  const [scale, setScale] = useSimulatorState('cellular', 'exportScale', 3, { allowed: PNG_SCALES, url: false });
+
+  const filename = `reuse-N${clusterSize(i, j)}-i${i}-j${j}`;
+  const buildSvg = () => reuseMapSvg({ i, j, colors, width, height, radius, labels, outlines, distance });
+
+  const exportPng = async () => {
+    setIsExporting(true);
+    try {
+      await downloadPng(buildSvg(), width, height, scale, `${filename}@${scale}x.png`);
+      triggerHaptic('success');
+    } catch {
+      triggerHaptic('error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const options: { label: string; value: boolean; set: (value: boolean) => void }[] = [
+    { label: 'Set Labels', value: labels, set: setLabels },
+    { label: 'Cluster Outlines', value: outlines, set: setOutlines },
+    { label: 'D Annotation', value: distance, set: setDistance }
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setIsOpen(!isOpen);
+          triggerHaptic('selection');
+        }}
+        className={`flex items-center gap-1 px-3 py-1.5 rounded-xl text-xs font-bold transition-colors ${isOpen ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+      >
+        <Download className="w-3 h-3" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 p-4 bg-white rounded-2xl border border-slate-200 shadow-xl z-20 space-y-4">
+          <div className="space-y-2">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Include</p>
+            <div className="grid grid-cols-1 gap-2">
+              {options.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => {
+                    option.set(!option.value);
+                    triggerHaptic('selection');
+                  }}
+                  className={`py-2 px-3 rounded-xl text-xs font-bold text-left transition-all ${option.value ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">PNG Resolution</p>
+            <div className="flex bg-slate-100 p-1 rounded-xl">
+              {PNG_SCALES.map(s => (
+                <button
+                  key={s}
+                  onClick={() => {
+                    setScale(s);
+                    triggerHaptic('selection');
+                  }}
+                  title={`${width * s} × ${height * s} px`}
+                  className={`flex-1 px-3 py-1 rounded-lg text-xs font-bold transition-all ${scale === s ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {s}×
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => {
+                downloadSvg(buildSvg(), `${filename}.svg`);
+                triggerHaptic('success');
+              }}
+              className="flex items-center justify-center gap-1 py-2 bg-blue-50 text-blue-600 rounded-xl text-xs font-bold hover:bg-blue-100 transition-colors"
+            >
+              <FileCode2 className="w-3 h-3" />
+              SVG
+            </button>
+            <button
+              onClick={exportPng}
+              disabled={isExporting}
+              className="flex items-center justify-center gap-1 py-2 bg-blue-50 text-blue-600 rounded-xl text-xs font-bold hover:bg-blue-100 transition-colors disabled:opacity-50"
+            >
+              <FileImage className="w-3 h-3" />
+              PNG
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            Exports the plain reuse pattern at {width} × {height}, without split cells or interferer markers; the SVG stays sharp at any size.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { BookOpen, CheckCircle2, XCircle, FlipHorizontal2 } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { calculateMaxTraffic, toDb } from '../../../utils/math';
+import {
+  approximateSir,
+  clusterSize,
+  patternSir,
+  reuseCatalog,
+  reuseRatio,
+  verifyReuseTiling,
+  type ReusePattern
+} from '../../../utils/cellular';
+
+const MAX_CATALOG_N = 49; // Every pattern up to here fits within MAX_SHIFT
+
+interface ReuseCatalogPanelProps {
+  i: number;
+  j: number;
+  pathLossExponent: number;
+  requiredSir: number; // dB
+  sectors: number;
+  onSelect: (pattern: ReusePattern) => void;
+}
+
+export function ReuseCatalogPanel({ i, j, pathLossExponent, requiredSir, sectors, onSelect }: ReuseCatalogPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [catalogMaxN, setCatalogMaxN] = useSimulatorState('cellular', 'catalogMaxN', 28, { min: 3, max: MAX_CATALOG_N });
+  const [spectrumChannels, setSpectrumChannels] = useSimulatorState('cellular', 'spectrumChannels', 420, { min: 50, max: 1000 });
+  const [sectorGos] = useSimulatorState('cellular', 'sectorGos', 2, { min: 0.1, max: 20 }); // %
+  const n = clusterSize(i, j);
+
+  const rows = useMemo(() => {
+    return reuseCatalog(catalogMaxN).map(entry => {
+      const perCell = Math.floor(spectrumChannels / entry.n);
+      return {
+        ...entry,
+        q: reuseRatio(entry.n),
+        perCell,
+        traffic: perCell > 0 ? calculateMaxTraffic(perCell, sectorGos / 100) : 0,
+        approxDb: toDb(approximateSir(entry.n, pathLossExponent)),
+        // Mirror images share their worst case; different patterns with the same N
+        // (7,0 and 5,3 for 49) turn the lattice differently against the hexagon
+        worstDb: Math.min(...entry.patterns.filter(p => p.i >= p.j).map(p => patternSir(p.i, p.j, pathLossExponent, 1, sectors).sirDb))
+      };
+    });
+  }, [catalogMaxN, spectrumChannels, sectorGos, pathLossExponent, sectors]);
+
+  const check = useMemo(() => verifyReuseTiling(i, j), [i, j]);
+
+  const checks = [
+    { label: `${check.sets} distinct channel sets (N = ${n})`, ok: check.sets === n },
+    { label: `Unchanged by the shifts a = (${i}, ${j}) and b = (${-j}, ${i + j})`, ok: check.shiftInvariant },
+    { label: 'Same set exactly when cells differ by a lattice vector', ok: check.cosetsMatch },
+    { label: `Nearest co-channel cell at ${check.minCoChannelDistance.toFixed(3)}R (D = ${reuseRatio(n).toFixed(3)}R)`, ok: Math.abs(check.minCoChannelDistance - reuseRatio(n)) < 1e-9 }
+  ];
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-6">
+        <BookOpen className="w-5 h-5 text-blue-600" />
+        <h3 className="font-bold text-slate-800">Reuse Pattern Catalog</h3>
+        <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">Every N = i² + ij + j² up to {catalogMaxN}</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Largest N</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{catalogMaxN}</span>
+            </div>
+            <input
+              type="range" min="3" max={MAX_CATALOG_N} step="1"
+              value={catalogMaxN}
+              onChange={(e) => {
+                setCatalogMaxN(parseInt(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Total Channels (S)</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{spectrumChannels}</span>
+            </div>
+            <input
+              type="range" min="50" max="1000" step="10"
+              value={spectrumChannels}
+              onChange={(e) => {
+                setSpectrumChannels(parseInt(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Tiling Check, ({i}, {j})</p>
+            {checks.map(item => (
+              <div key={item.label} className="flex items-start gap-2">
+                {item.ok
+                  ? <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />
+                  : <XCircle className="w-4 h-4 text-rose-500 shrink-0" />}
+                <span className="text-xs text-slate-600">{item.label}</span>
+              </div>
+            ))}
+            <p className={`text-xs font-bold ${check.valid ? 'text-emerald-600' : 'text-rose-600'}`}>
+              {check.valid ? 'A true reuse tiling' : 'Not a reuse tiling'}
+            </p>
+            {check.shortcutSets !== n && (
+              <p className="text-[10px] text-slate-400">
+                gcd(i, j) &gt; 1: the shortcut (q·i + r·(i + j)) mod N reaches only {check.shortcutSets} of the {n} sets, so the map numbers the cosets of the lattice directly.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 overflow-x-auto max-h-[28rem] overflow-y-auto">
+          <table className="w-full text-xs font-mono">
+            <thead className="bg-slate-50 text-slate-500 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left font-bold">N</th>
+                <th className="px-3 py-2 text-left font-bold">(i, j)</th>
+                <th className="px-3 py-2 text-right font-bold">Q = D/R</th>
+                <th className="px-3 py-2 text-right font-bold">Ch / Cell</th>
+                <th className="px-3 py-2 text-right font-bold">Erl / Cell</th>
+                <th className="px-3 py-2 text-right font-bold">S/I Approx</th>
+                <th className="px-3 py-2 text-right font-bold">S/I Worst</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr
+                  key={row.n}
+                  className={`border-t border-slate-100 ${row.n === n ? 'bg-blue-50 text-blue-700 font-bold' : 'text-slate-700'}`}
+                >
+                  <td className="px-3 py-2">{row.n}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {row.patterns.map(p => {
+                        const active = p.i === i && p.j === j;
+                        const mirrored = row.patterns.some(o => o.i === p.j && o.j === p.i && o !== p);
+                        return (
+                          <button
+                            key={`${p.i},${p.j}`}
+                            onClick={() => {
+                              onSelect(p);
+                              triggerHaptic('selection');
+                            }}
+                            title={mirrored && p.i < p.j ? `Mirror image of (${p.j}, ${p.i})` : undefined}
+                            className={`flex items-center gap-1 px-2 py-0.5 rounded-lg font-bold transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                          >
+                            ({p.i}, {p.j})
+                            {mirrored && p.i < p.j && <FlipHorizontal2 className="w-3 h-3" />}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right">{row.q.toFixed(3)}</td>
+                  <td className="px-3 py-2 text-right">{row.perCell}</td>
+                  <td className="px-3 py-2 text-right">{row.traffic.toFixed(1)}</td>
+                  <td className="px-3 py-2 text-right">{row.approxDb.toFixed(1)} dB</td>
+                  <td className={`px-3 py-2 text-right ${row.worstDb >= requiredSir ? 'text-emerald-600' : 'text-rose-600'}`}>{row.worstDb.toFixed(1)} dB</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400 mt-3">
+            Capacity splits S = {spectrumChannels} channels evenly over the cluster and carries Erlang B traffic at {sectorGos}% GoS. S/I uses n = {pathLossExponent.toFixed(1)} with the first tier{sectors > 1 ? ` and ${360 / sectors}° sectors` : ''}; green meets the {requiredSir} dB target. (j, i) is the mirror image of (i, j) and gives the same N, D and S/I; rotating a pattern by 60° steps leaves its lattice unchanged. Some N, such as 49, also come from genuinely different patterns; the worst case is then the lowest of them.
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useMemo } from 'react';
+import { PieChart } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { calculateErlangB, calculateMaxTraffic, toDb } from '../../../utils/math';
+import {
+  approximateSir,
+  clusterSize,
+  coChannelCells,
+  patternSir,
+  SECTOR_COUNT,
+  sectorInterferers,
+  type Sectoring
+} from '../../../utils/cellular';
+
+const OPTIONS: { id: Sectoring; label: string }[] = [
+  { id: 'omni', label: 'Omni' },
+  { id: '120', label: '120°' },
+  { id: '60', label: '60°' }
+];
+
+interface SectoringPanelProps {
+  i: number;
+  j: number;
+  pathLossExponent: number;
+  tiers: number;
+  sectoring: Sectoring;
+  onSectoringChange: (sectoring: Sectoring) => void;
+}
+
+export function SectoringPanel({ i, j, pathLossExponent, tiers, sectoring, onSectoringChange }: SectoringPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [cellChannels, setCellChannels] = useSimulatorState('cellular', 'cellChannels', 60, { min: 6, max: 120 });
+  const [sectorGos, setSectorGos] = useSimulatorState('cellular', 'sectorGos', 2, { min: 0.1, max: 20 }); // %
+  const n = clusterSize(i, j);
+  const gos = sectorGos / 100;
+
+  const rows = useMemo(() => {
+    const omniTraffic = calculateMaxTraffic(cellChannels, gos);
+    const omniSir = patternSir(i, j, pathLossExponent, tiers).sirDb;
+    return OPTIONS.map(option => {
+      const sectors = SECTOR_COUNT[option.id];
+      const i0 = sectorInterferers(coChannelCells(i, j, 1), sectors).length;
+      const perSector = Math.floor(cellChannels / sectors);
+      const traffic = perSector > 0 ? sectors * calculateMaxTraffic(perSector, gos) : 0;
+      const sirDb = patternSir(i, j, pathLossExponent, tiers, sectors).sirDb;
+      return {
+        ...option,
+        sectors,
+        i0,
+        sirDb,
+        approxDb: toDb(approximateSir(n, pathLossExponent, i0)),
+        sirGain: sirDb - omniSir,
+        perSector,
+        traffic,
+        efficiency: omniTraffic > 0 ? traffic / omniTraffic : 0,
+        // Blocking if the load the omni cell carries at the target GoS is split evenly over the sectors
+        blockingAtOmniLoad: perSector > 0 ? calculateErlangB(perSector, omniTraffic / sectors) : 1
+      };
+    });
+  }, [i, j, n, pathLossExponent, tiers, cellChannels, gos]);
+
+  const selected = rows.find(r => r.id === sectoring) ?? rows[0];
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <PieChart className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold text-slate-800">Cell Sectoring</h3>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">S/I Gain vs Trunking Efficiency</span>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-xl">
+          {OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => {
+                onSectoringChange(option.id);
+                triggerHaptic('selection');
+              }}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${sectoring === option.id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Channels per Cell</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{cellChannels}</span>
+            </div>
+            <input
+              type="range" min="6" max="120" step="1"
+              value={cellChannels}
+              onChange={(e) => {
+                setCellChannels(parseInt(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Target GoS</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{sectorGos}%</span>
+            </div>
+            <input
+              type="range" min="0.1" max="20" step="0.1"
+              value={sectorGos}
+              onChange={(e) => {
+                setSectorGos(parseFloat(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500">S/I Improvement</span>
+              <span className="font-mono font-bold text-emerald-600">+{selected.sirGain.toFixed(2)} dB</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500">Trunking Efficiency</span>
+              <span className="font-mono font-bold text-rose-600">{(selected.efficiency * 100).toFixed(1)}%</span>
+            </div>
+            <p className="text-[10px] text-slate-400">
+              {selected.sectors > 1
+                ? `${selected.sectors} groups of ${selected.perSector} channels carry ${selected.traffic.toFixed(1)} Erl at ${sectorGos}% instead of ${rows[0].traffic.toFixed(1)} Erl in one pool of ${cellChannels}.`
+                : 'One pool of channels shared by the whole cell: the most efficient trunking, but all six first-tier interferers reach every mobile.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-bold">Antenna</th>
+                <th className="px-3 py-2 text-right font-bold">i0</th>
+                <th className="px-3 py-2 text-right font-bold">S/I Worst</th>
+                <th className="px-3 py-2 text-right font-bold">S/I Approx</th>
+                <th className="px-3 py-2 text-right font-bold">Ch / Sector</th>
+                <th className="px-3 py-2 text-right font-bold">Carried (Erl)</th>
+                <th className="px-3 py-2 text-right font-bold">Efficiency</th>
+                <th className="px-3 py-2 text-right font-bold">B at Omni Load</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr
+                  key={row.id}
+                  className={`border-t border-slate-100 ${row.id === sectoring ? 'bg-blue-50 text-blue-700 font-bold' : 'text-slate-700'}`}
+                >
+                  <td className="px-3 py-2">{row.label}</td>
+                  <td className="px-3 py-2 text-right">{row.i0}</td>
+                  <td className="px-3 py-2 text-right">{row.sirDb.toFixed(2)} dB</td>
+                  <td className="px-3 py-2 text-right">{row.approxDb.toFixed(2)} dB</td>
+                  <td className="px-3 py-2 text-right">{row.perSector}</td>
+                  <td className="px-3 py-2 text-right">{row.traffic.toFixed(2)}</td>
+                  <td className="px-3 py-2 text-right">{(row.efficiency * 100).toFixed(1)}%</td>
+                  <td className="px-3 py-2 text-right">{(row.blockingAtOmniLoad * 100).toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400 mt-3">
+            Co-channel sectors share the same orientation, so only those whose beam points back at the serving sector interfere; ideal antennas with no back lobe are assumed. The last column offers the omni cell's {rows[0].traffic.toFixed(1)} Erl evenly to each sector and applies Erlang B to the smaller groups.
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { Signal } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { cellSinrSamples, CELL_RADIUS_M, type SinrModel, type SiteGrid } from '../../../utils/cellular';
+
+const CDF_POINTS = 120;
+
+interface SinrPanelProps {
+  grid: SiteGrid;
+  model: SinrModel;
+  requiredSir: number; // dB
+  worstSir: number; // Geometric worst-case S/I, dB
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+export function SinrPanel({ grid, model, requiredSir, worstSir }: SinrPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [txPower, setTxPower] = useSimulatorState('cellular', 'txPower', 43, { min: 20, max: 50 }); // dBm
+  const [noiseFloor, setNoiseFloor] = useSimulatorState('cellular', 'noiseFloor', -100, { min: -120, max: -60 }); // dBm
+
+  const samples = useMemo(() => cellSinrSamples(grid, model), [grid, model]);
+
+  const cdf = useMemo(() => {
+    const stride = Math.max(1, Math.floor(samples.length / CDF_POINTS));
+    const points = [];
+    for (let k = 0; k < samples.length; k += stride) {
+      points.push({ sinr: samples[k], p: (k + 1) / samples.length });
+    }
+    if (samples.length > 0) points.push({ sinr: samples[samples.length - 1], p: 1 });
+    return points;
+  }, [samples]);
+
+  const below = samples.length > 0 ? samples.filter(s => s < requiredSir).length / samples.length : 0;
+  const p5 = percentile(samples, 0.05);
+  const median = percentile(samples, 0.5);
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-6">
+        <Signal className="w-5 h-5 text-blue-600" />
+        <h3 className="font-bold text-slate-800">SINR Over the Cell Area</h3>
+        <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">Downlink, Centre Cell, R = {CELL_RADIUS_M / 1000} km</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Transmit Power</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{txPower} dBm</span>
+            </div>
+            <input
+              type="range" min="20" max="50" step="1"
+              value={txPower}
+              onChange={(e) => {
+                setTxPower(parseInt(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Noise Floor</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{noiseFloor} dBm</span>
+            </div>
+            <input
+              type="range" min="-120" max="-60" step="1"
+              value={noiseFloor}
+              onChange={(e) => {
+                setNoiseFloor(parseInt(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500">5th Percentile</span>
+              <span className="font-mono font-bold text-slate-700">{p5.toFixed(1)} dB</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500">Median</span>
+              <span className="font-mono font-bold text-slate-700">{median.toFixed(1)} dB</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500">Worst-Case S/I</span>
+              <span className="font-mono font-bold text-slate-500">{worstSir.toFixed(1)} dB</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500 font-bold">Area Below {requiredSir} dB</span>
+              <span className={`font-mono font-bold ${below > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{(below * 100).toFixed(1)}%</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={cdf} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="sinr"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(v: number) => v.toFixed(0)}
+                fontSize={10}
+                label={{ value: 'SINR (dB)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+              />
+              <YAxis
+                domain={[0, 1]}
+                tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`}
+                fontSize={10}
+                label={{ value: 'Fraction of Cell Area', angle: -90, position: 'insideLeft', fontSize: 10 }}
+              />
+              <Tooltip
+                formatter={(value: number) => `${(value * 100).toFixed(1)}%`}
+                labelFormatter={(v: number) => `SINR ≤ ${v.toFixed(1)} dB`}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <ReferenceLine x={requiredSir} stroke="#f43f5e" strokeDasharray="5 5" label={{ value: 'Required', position: 'insideTopLeft', fontSize: 10, fill: '#f43f5e' }} />
+              <ReferenceLine x={worstSir} stroke="#94a3b8" strokeDasharray="3 3" label={{ value: 'Worst-case S/I', position: 'insideBottomRight', fontSize: 10, fill: '#64748b' }} />
+              <Line dataKey="p" name="CDF" stroke="#2563eb" strokeWidth={2} dot={false} type="stepAfter" isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-4">
+        Received power follows a log-distance law with the slider's path-loss exponent, referenced to 78.5 dB at 100 m; every co-channel site in a radius of {grid.extent} cells transmits at full power. The lower tail lands near the geometric worst case when interference dominates; raising the noise floor or lowering the power shows where the cell edge turns noise-limited.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,93 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend
+} from 'recharts';
+import { Timer } from 'lucide-react';
+import type { HandoffEvent, TracePoint } from '../../../utils/handoff';
+
+interface A3TriggerChartProps {
+  trace: TracePoint[];
+  events: HandoffEvent[];
+  length: number; // m
+  offset: number; // dB
+  hysteresis: number; // dB
+  timeToTrigger: number; // ms
+  tttProgress: number; // 0–1
+}
+
+export function A3TriggerChart({ trace, events, length, offset, hysteresis, timeToTrigger, tttProgress }: A3TriggerChartProps) {
+  const data = trace.map(point => ({ pos: point.pos, margin: point.margin, ttt: point.ttt * 100 }));
+  const entering = offset + hysteresis;
+  const leaving = offset - hysteresis;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-6">
+        <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <Timer className="w-4 h-4 text-indigo-600" />
+          Event A3 Conditions
+        </h4>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-mono text-slate-400">
+            TTT {(tttProgress * timeToTrigger).toFixed(0)} / {timeToTrigger} ms
+          </span>
+          <div className="w-32 h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-amber-500 transition-all" style={{ width: `${tttProgress * 100}%` }} />
+          </div>
+        </div>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis
+              dataKey="pos"
+              type="number"
+              domain={[0, length]}
+              fontSize={10}
+              label={{ value: 'Distance (m)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+            />
+            <YAxis
+              yAxisId="margin"
+              fontSize={10}
+              domain={[(min: number) => Math.min(Math.floor(min / 5) * 5, leaving - 5), (max: number) => Math.max(Math.ceil(max / 5) * 5, entering + 5)]}
+              label={{ value: 'Fn − Fs (dB)', angle: -90, position: 'insideLeft', fontSize: 10 }}
+            />
+            <YAxis yAxisId="ttt" orientation="right" domain={[0, 100]} hide />
+            <Tooltip
+              formatter={(value: number, name: string) => name === 'TTT Elapsed' ? `${value.toFixed(0)}%` : `${value.toFixed(1)} dB`}
+              labelFormatter={(pos: number) => `${pos.toFixed(0)} m`}
+              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+            <ReferenceLine yAxisId="margin" y={entering} stroke="#10b981" strokeDasharray="5 5" label={{ value: `Entering (Off + Hys = ${entering} dB)`, position: 'insideTopLeft', fontSize: 10, fill: '#10b981' }} />
+            <ReferenceLine yAxisId="margin" y={leaving} stroke="#f43f5e" strokeDasharray="5 5" label={{ value: `Leaving (Off − Hys = ${leaving} dB)`, position: 'insideBottomLeft', fontSize: 10, fill: '#f43f5e' }} />
+            {events.map((event, idx) => (
+              <ReferenceLine
+                key={idx}
+                yAxisId="margin"
+                x={event.pos}
+                stroke={event.type === 'drop' ? '#f43f5e' : '#4f46e5'}
+                label={{ value: event.type === 'drop' ? 'DROP' : 'HO', position: 'insideTopLeft', fontSize: 8, fill: event.type === 'drop' ? '#f43f5e' : '#4f46e5' }}
+              />
+            ))}
+            <Area yAxisId="ttt" type="stepAfter" dataKey="ttt" name="TTT Elapsed" stroke="#f59e0b" fill="#fde68a" fillOpacity={0.4} isAnimationActive={false} />
+            <Line yAxisId="margin" type="linear" dataKey="margin" name="Best Neighbour − Serving (L3)" stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-2">
+        The timer runs while the filtered margin stays above the entering line and restarts whenever it dips below; the handoff executes when it reaches {timeToTrigger} ms. Below the leaving line a triggered event would be withdrawn. The margin flips sign at each handoff because it is always measured against the new serving cell.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import React from 'react';
+import { Route, Plus, Trash2 } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { MAX_STATIONS, type BaseStation, type CoverageHole } from '../../../utils/handoff';
+
+export const STATION_COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#f43f5e', '#0ea5e9', '#8b5cf6', '#14b8a6', '#ec4899'];
+
+interface CorridorPanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  length: number; // m
+  onLengthChange: (length: number) => void;
+  stations: BaseStation[]; // Sorted by position
+  onStationsChange: (stations: BaseStation[]) => void;
+  handoffsPerKm: number | null; // This run, once the UE has moved
+  predictedPerKm: number; // Noise-free run
+  holes: CoverageHole[]; // Median signal
+  shadowedHoles: CoverageHole[] | null; // With this seed's shadowing
+}
+
+const holeLength = (holes: CoverageHole[]) => holes.reduce((sum, h) => sum + h.end - h.start, 0);
+
+export function CorridorPanel({
+  enabled,
+  onToggle,
+  length,
+  onLengthChange,
+  stations,
+  onStationsChange,
+  handoffsPerKm,
+  predictedPerKm,
+  holes,
+  shadowedHoles
+}: CorridorPanelProps) {
+  const { triggerHaptic } = useHaptics();
+
+  const updateStation = (id: number, patch: Partial<BaseStation>) => {
+    onStationsChange(stations.map(s => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const addStation = () => {
+    if (stations.length >= MAX_STATIONS) return;
+    // Into the middle of the widest gap along the route
+    const edges = [0, ...stations.map(s => s.pos).sort((a, b) => a - b), length];
+    let gap = 0;
+    for (let k = 1; k < edges.length; k++) {
+      if (edges[k] - edges[k - 1] > edges[gap + 1] - edges[gap]) gap = k - 1;
+    }
+    const last = stations[stations.length - 1];
+    onStationsChange([...stations, {
+      id: Math.max(0, ...stations.map(s => s.id)) + 1,
+      pos: Math.round((edges[gap] + edges[gap + 1]) / 2 / 50) * 50,
+      txPower: last?.txPower ?? 30,
+      height: last?.height ?? 30
+    }]);
+    triggerHaptic('light');
+  };
+
+  const removeStation = (id: number) => {
+    onStationsChange(stations.filter(s => s.id !== id));
+    triggerHaptic('selection');
+  };
+
+  const renderNumberInput = (value: number, min: number, max: number, step: number, onChange: (v: number) => void) => (
+    <input
+      type="number" min={min} max={max} step={step}
+      value={value}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (!Number.isNaN(v)) onChange(Math.min(max, Math.max(min, v)));
+      }}
+      className="w-full px-2 py-1 rounded-lg border border-slate-200 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    />
+  );
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Route className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-bold text-slate-800">Corridor</h3>
+        </div>
+        <button
+          onClick={() => {
+            onToggle(!enabled);
+            triggerHaptic('selection');
+          }}
+          className={`px-3 py-1.5 rounded-xl text-xs font-bold transition-all ${enabled ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+        >
+          {enabled ? `${stations.length} Stations` : 'Two Towers'}
+        </button>
+      </div>
+
+      {enabled ? (
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-slate-600">Route Length</label>
+              <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{(length / 1000).toFixed(1)} km</span>
+            </div>
+            <input
+              type="range" min="1000" max="20000" step="500"
+              value={length}
+              onChange={(e) => {
+                onLengthChange(parseInt(e.target.value));
+                triggerHaptic('selection');
+              }}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-bold">BS</th>
+                  <th className="px-2 py-2 text-left font-bold">Pos (m)</th>
+                  <th className="px-2 py-2 text-left font-bold">Tx (dBm)</th>
+                  <th className="px-2 py-2 text-left font-bold">h (m)</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {stations.map((station, idx) => (
+                  <tr key={station.id} className="border-t border-slate-100">
+                    <td className="px-2 py-1.5">
+                      <span className="flex items-center gap-1 font-bold text-slate-700">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STATION_COLORS[idx % STATION_COLORS.length] }} />
+                        {idx + 1}
+                      </span>
+                    </td>
+                    <td className="px-2 py-1.5">{renderNumberInput(station.pos, 0, length, 50, v => updateStation(station.id, { pos: v }))}</td>
+                    <td className="px-2 py-1.5">{renderNumberInput(station.txPower, 0, 60, 1, v => updateStation(station.id, { txPower: v }))}</td>
+                    <td className="px-2 py-1.5">{renderNumberInput(station.height, 10, 200, 5, v => updateStation(station.id, { height: v }))}</td>
+                    <td className="px-2 py-1.5 text-right">
+                      <button
+                        onClick={() => removeStation(station.id)}
+                        disabled={stations.length <= 2}
+                        className="p-1.5 text-slate-400 hover:text-rose-600 transition-colors disabled:opacity-30"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <button
+            onClick={addStation}
+            disabled={stations.length >= MAX_STATIONS}
+            className="w-full flex items-center justify-center gap-1 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-xs font-bold hover:bg-indigo-100 transition-colors disabled:opacity-40"
+          >
+            <Plus className="w-3 h-3" />
+            Add Station
+          </button>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-500">Handoffs per km (this run)</span>
+              <span className="text-xs font-mono font-bold text-slate-800">{handoffsPerKm !== null ? handoffsPerKm.toFixed(2) : '—'}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-500">Handoffs per km (no fading)</span>
+              <span className="text-xs font-mono font-bold text-slate-800">{predictedPerKm.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-500">Coverage holes (median)</span>
+              <span className={`text-xs font-mono font-bold ${holes.length > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                {holes.length} · {holeLength(holes).toFixed(0)} m
+              </span>
+            </div>
+            {shadowedHoles && (
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-slate-500">Coverage holes (shadowed)</span>
+                <span className={`text-xs font-mono font-bold ${shadowedHoles.length > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                  {shadowedHoles.length} · {holeLength(shadowedHoles).toFixed(0)} m
+                </span>
+              </div>
+            )}
+            {holes.length > 0 && (
+              <p className="text-[10px] text-rose-600">
+                No station reaches Pmin over {holes.map(h => `${h.start.toFixed(0)}–${h.end.toFixed(0)} m`).join(', ')}.
+              </p>
+            )}
+          </div>
+          <p className="text-[10px] text-slate-400">Click the track in the handoff visualization to place a station there. The UE starts on the strongest station at 0 m. Each station's power and mast height replace the Transmit Power and hb settings.</p>
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-400">Two towers at the ends of the route, spaced by the environment. Switch to a corridor to place up to {MAX_STATIONS} stations, each with its own power and mast height.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  ErrorBar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { BarChart3, FastForward, Target } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import {
+  DROP_TOLERANCE,
+  PING_PONG_LIMIT,
+  PING_PONG_TIME,
+  advanceHandoffSweep,
+  createHandoffSweep,
+  sweepResult,
+  type HandoffConfig,
+  type Measure,
+  type SweepParameter,
+  type SweepPoint,
+  type SweepResult
+} from '../../../utils/handoff';
+
+const TRAVERSAL_COUNTS = [100, 200, 500];
+const SWEEP_PARAMETERS: SweepParameter[] = ['hysteresisMargin', 'thresholdMargin'];
+const SWEEP_MARGINS = Array.from({ length: 11 }, (_, k) => 2 * k); // 0–20 dB, the sliders' range
+const CHUNK_MS = 40; // Longest stretch of traversals between yields to the browser
+
+const PARAMETER_LABELS: Record<SweepParameter, string> = {
+  hysteresisMargin: 'Hysteresis H',
+  thresholdMargin: 'Threshold Δ'
+};
+
+interface MonteCarloPanelProps {
+  config: HandoffConfig;
+  measureFor: ((trial: number) => Measure) | null; // Null without shadowing
+  seed: number; // Traversal t uses seed + t
+  onApply: (parameter: SweepParameter, margin: number) => void;
+}
+
+interface MetricChart {
+  key: keyof SweepPoint;
+  error?: keyof SweepPoint;
+  title: string;
+  unit: string;
+  scale: number;
+  color: string;
+}
+
+const METRICS: MetricChart[] = [
+  { key: 'handoffs', error: 'handoffsError', title: 'Handoffs per Traversal', unit: '', scale: 1, color: '#4f46e5' },
+  { key: 'pingPongRate', title: 'Ping-Pong Rate', unit: '%', scale: 100, color: '#f59e0b' },
+  { key: 'dropProbability', error: 'dropError', title: 'Call-Drop Probability', unit: '%', scale: 100, color: '#f43f5e' },
+  { key: 'meanHandoffPos', title: 'Mean Handoff Location', unit: ' m', scale: 1, color: '#10b981' }
+];
+
+export function MonteCarloPanel({ config, measureFor, seed, onApply }: MonteCarloPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [parameter, setParameter] = useSimulatorState<SweepParameter>('handoff', 'sweepParameter', 'hysteresisMargin', { allowed: SWEEP_PARAMETERS });
+  const [traversals, setTraversals] = useSimulatorState('handoff', 'traversals', 200, { allowed: TRAVERSAL_COUNTS });
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0); // Traversals completed by the running sweep
+  // Bumped to abandon the sweep in progress
+  const sweepId = useRef(0);
+
+  // A sweep of another route, speed or fading no longer describes the simulator
+  useEffect(() => {
+    sweepId.current++;
+    setResult(null);
+    setIsRunning(false);
+  }, [measureFor, config.speed, config.length, config.minPower]);
+
+  useEffect(() => () => {
+    sweepId.current++;
+  }, []);
+
+  const run = () => {
+    if (!measureFor) return;
+    const id = ++sweepId.current;
+    const sweep = createHandoffSweep(config, parameter, SWEEP_MARGINS, traversals);
+    const measure = (t: number) => measureFor(seed + t);
+    setIsRunning(true);
+    setProgress(0);
+    triggerHaptic('selection');
+
+    // Run traversals in short chunks and yield between them, so the page stays responsive
+    const step = () => {
+      if (sweepId.current !== id) return;
+      const start = performance.now();
+      while (sweep.completed < sweep.traversals && performance.now() - start < CHUNK_MS) {
+        advanceHandoffSweep(sweep, measure, 1);
+      }
+      if (sweep.completed < sweep.traversals) {
+        setProgress(sweep.completed);
+        setTimeout(step, 0);
+        return;
+      }
+      setResult(sweepResult(sweep));
+      setIsRunning(false);
+      triggerHaptic('success');
+    };
+    setTimeout(step, 0);
+  };
+
+  const data = result?.points.map(p => {
+    const row: Record<string, number | number[] | null> = { margin: p.margin };
+    METRICS.forEach(m => {
+      const value = p[m.key];
+      row[m.key] = value === null ? null : value * m.scale;
+      if (m.error) row[m.error] = (p[m.error] as number) * m.scale;
+    });
+    return row;
+  });
+  const current = config[result?.parameter ?? parameter];
+  const bestPoint = result?.points.find(p => p.margin === result.best);
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-bold text-slate-800">Monte Carlo Analysis</h3>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">
+            {result
+              ? `${result.traversals} traversals at ${result.speed} km/h`
+              : `Seeds ${seed}–${seed + traversals - 1} at ${config.speed} km/h`}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {SWEEP_PARAMETERS.map(p => (
+              <button
+                key={p}
+                onClick={() => {
+                  setParameter(p);
+                  triggerHaptic('selection');
+                }}
+                className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${parameter === p ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {PARAMETER_LABELS[p]}
+              </button>
+            ))}
+          </div>
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {TRAVERSAL_COUNTS.map(count => (
+              <button
+                key={count}
+                onClick={() => {
+                  setTraversals(count);
+                  triggerHaptic('selection');
+                }}
+                className={`px-3 py-1 rounded-lg text-xs font-bold font-mono transition-all ${traversals === count ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={run}
+            disabled={isRunning || !measureFor}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-sm hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <FastForward className="w-4 h-4" />
+            {isRunning ? `Running… ${progress}/${traversals}` : `Run ${traversals} Traversals`}
+          </button>
+        </div>
+      </div>
+
+      {!result ? (
+        <p className="text-xs text-slate-400 italic">
+          {measureFor
+            ? `Drives the UE along the route ${traversals} times, each under its own shadowing seed, for every ${PARAMETER_LABELS[parameter].toLowerCase()} margin from 0 to 20 dB, and charts the averages. Every margin replays the same fades, so the curves differ only through the margin.`
+            : 'Turn on shadow fading to run a batch: without it every traversal sees the same median signal and ends the same way.'}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {METRICS.map(metric => (
+              <div key={metric.key} className="space-y-2">
+                <h4 className="text-sm font-bold text-slate-800">{metric.title}</h4>
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                      <XAxis
+                        dataKey="margin"
+                        type="number"
+                        domain={[0, 20]}
+                        ticks={SWEEP_MARGINS}
+                        fontSize={10}
+                        label={{ value: `${PARAMETER_LABELS[result.parameter]} (dB)`, position: 'insideBottom', offset: -10, fontSize: 10 }}
+                      />
+                      <YAxis
+                        fontSize={10}
+                        domain={metric.key === 'meanHandoffPos' ? [0, config.length] : [0, 'auto']}
+                        tickFormatter={(v: number) => v.toFixed(metric.scale === 100 || metric.key === 'meanHandoffPos' ? 0 : 1)}
+                      />
+                      <Tooltip
+                        formatter={(value: number) => `${value.toFixed(metric.unit === ' m' ? 0 : 2)}${metric.unit}`}
+                        labelFormatter={(margin: number) => `${PARAMETER_LABELS[result.parameter]} = ${margin} dB`}
+                        contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                      />
+                      <ReferenceLine x={current} stroke="#94a3b8" strokeDasharray="5 5" label={{ value: 'Current', position: 'insideTopRight', fontSize: 9, fill: '#64748b' }} />
+                      {result.best !== null && (
+                        <ReferenceLine x={result.best} stroke="#10b981" strokeWidth={2} label={{ value: 'Best', position: 'insideTopLeft', fontSize: 9, fill: '#10b981', fontWeight: 'bold' }} />
+                      )}
+                      <Line type="monotone" dataKey={metric.key} name={metric.title} stroke={metric.color} strokeWidth={2} dot={{ r: 3 }} connectNulls isAnimationActive={false}>
+                        {metric.error && <ErrorBar dataKey={metric.error} width={4} strokeWidth={1} stroke={metric.color} direction="y" />}
+                      </Line>
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {bestPoint && (
+            <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <div className="flex items-center gap-3">
+                <Target className="w-5 h-5 text-emerald-600 shrink-0" />
+                <p className="text-xs text-slate-600">
+                  <span className="font-bold text-slate-800">{PARAMETER_LABELS[result.parameter]} = {bestPoint.margin} dB</span>: {bestPoint.handoffs.toFixed(2)} handoffs, {(bestPoint.pingPongRate * 100).toFixed(1)}% ping-pong, {(bestPoint.dropProbability * 100).toFixed(1)}% dropped.
+                </p>
+              </div>
+              <button
+                onClick={() => {
+                  onApply(result.parameter, bestPoint.margin);
+                  triggerHaptic('light');
+                }}
+                className="px-3 py-1.5 bg-emerald-50 text-emerald-600 rounded-xl text-xs font-bold hover:bg-emerald-100 transition-colors"
+              >
+                Use This Margin
+              </button>
+            </div>
+          )}
+          <p className="text-[10px] text-slate-400">
+            Error bars are 95% confidence intervals. Margins whose ping-pong rate exceeds {PING_PONG_LIMIT * 100}% are ruled out, unless all of them do; of the rest, the best margin has the fewest handoffs among those whose drop probability is within {DROP_TOLERANCE * 100} percentage point of the lowest. The ping-pong rate is the share of handoffs that return to the cell just left within {PING_PONG_TIME} s.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
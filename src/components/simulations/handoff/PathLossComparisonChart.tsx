@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend
+} from 'recharts';
+import { TrendingDown, AlertTriangle } from 'lucide-react';
+import {
+  MODEL_LABELS,
+  PATH_LOSS_MODELS,
+  modelWarnings,
+  pathLoss,
+  twoRayCrossover,
+  type LinkParams,
+  type PathLossModel
+} from '../../../utils/propagation';
+
+const MIN_DISTANCE = 10; // m
+const POINTS = 240; // Dense enough to resolve the two-ray nulls
+
+const MODEL_COLORS: Record<PathLossModel, string> = {
+  simple: '#94a3b8',
+  freeSpace: '#0ea5e9',
+  logDistance: '#4f46e5',
+  hata: '#f59e0b',
+  cost231: '#f43f5e',
+  twoRay: '#10b981'
+};
+
+interface PathLossComparisonChartProps {
+  model: PathLossModel;
+  link: LinkParams;
+  maxDistance: number; // m
+  onSelect: (model: PathLossModel) => void;
+}
+
+export function PathLossComparisonChart({ model, link, maxDistance, onSelect }: PathLossComparisonChartProps) {
+  const data = useMemo(() => {
+    const points = [];
+    const ratio = Math.pow(maxDistance / MIN_DISTANCE, 1 / POINTS);
+    for (let k = 0; k <= POINTS; k++) {
+      const d = MIN_DISTANCE * Math.pow(ratio, k);
+      const point: Record<string, number> = { d };
+      PATH_LOSS_MODELS.forEach(m => {
+        point[m] = pathLoss(m, d, link);
+      });
+      points.push(point);
+    }
+    return points;
+  }, [link, maxDistance]);
+
+  const ticks = [10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000].filter(t => t <= maxDistance);
+  const warnings = modelWarnings(model, link, maxDistance);
+  const crossover = twoRayCrossover(link);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-6">
+        <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <TrendingDown className="w-4 h-4 text-indigo-600" />
+          Path Loss Model Comparison
+        </h4>
+        <span className="text-[10px] font-mono text-slate-400">
+          {MODEL_LABELS[model]}: {pathLoss(model, maxDistance, link).toFixed(1)} dB at {maxDistance} m
+        </span>
+      </div>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis
+              dataKey="d"
+              type="number"
+              scale="log"
+              domain={[MIN_DISTANCE, maxDistance]}
+              ticks={ticks}
+              fontSize={10}
+              label={{ value: 'Distance (m)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+            />
+            <YAxis
+              fontSize={10}
+              domain={[0, 'auto']}
+              label={{ value: 'Path Loss (dB)', angle: -90, position: 'insideLeft', fontSize: 10 }}
+            />
+            <Tooltip
+              formatter={(value: number) => `${value.toFixed(1)} dB`}
+              labelFormatter={(d: number) => `d = ${d.toFixed(0)} m`}
+              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Legend
+              verticalAlign="top"
+              height={30}
+              wrapperStyle={{ fontSize: '10px', fontWeight: 'bold', cursor: 'pointer' }}
+              onClick={(entry) => onSelect(entry.dataKey as PathLossModel)}
+            />
+            {crossover < maxDistance && (
+              <ReferenceLine x={crossover} stroke="#10b981" strokeDasharray="3 3" label={{ value: 'Two-ray crossover', position: 'insideTopRight', fontSize: 10, fill: '#10b981' }} />
+            )}
+            {PATH_LOSS_MODELS.map(m => (
+              <Line
+                key={m}
+                dataKey={m}
+                name={MODEL_LABELS[m]}
+                stroke={MODEL_COLORS[m]}
+                strokeWidth={m === model ? 3 : 1.5}
+                strokeOpacity={m === model ? 1 : 0.6}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {warnings.length > 0 && (
+        <div className="mt-3 p-3 bg-amber-50 border border-amber-100 rounded-xl flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0" />
+          <span className="text-[10px] text-amber-700">{warnings.join('; ')}.</span>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-400 mt-2">
+        f = {link.frequency} MHz, hb = {link.baseHeight} m, hm = {link.mobileHeight} m, γ = {link.exponent.toFixed(1)}. The simple model assumes no loss at all at 1 m, so its curve is offset from the physical models; click a legend entry to drive the handoff run with that model.
+      </p>
+    </div>
+  );
+}
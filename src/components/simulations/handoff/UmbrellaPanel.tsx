@@ -0,0 +1,181 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend
+} from 'recharts';
+import { Umbrella } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { DWELL_CELLS, SPEED_ESTIMATORS, SPEED_HYSTERESIS, type SpeedEstimator, type UmbrellaSpeedPoint } from '../../../utils/handoff';
+
+const ESTIMATOR_LABELS: Record<SpeedEstimator, string> = {
+  dwell: 'Dwell Time',
+  rate: 'Handoff Rate'
+};
+
+interface UmbrellaPanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  power: number; // dBm
+  onPowerChange: (power: number) => void;
+  height: number; // m
+  onHeightChange: (height: number) => void;
+  speedThreshold: number; // km/h
+  onSpeedThresholdChange: (speed: number) => void;
+  estimator: SpeedEstimator;
+  onEstimatorChange: (estimator: SpeedEstimator) => void;
+  cellSize: number; // m
+  speed: number; // Actual UE speed, km/h
+  estimate: number | null; // km/h
+  onUmbrella: boolean;
+  sweep: UmbrellaSpeedPoint[];
+}
+
+export function UmbrellaPanel({
+  enabled,
+  onToggle,
+  power,
+  onPowerChange,
+  height,
+  onHeightChange,
+  speedThreshold,
+  onSpeedThresholdChange,
+  estimator,
+  onEstimatorChange,
+  cellSize,
+  speed,
+  estimate,
+  onUmbrella,
+  sweep
+}: UmbrellaPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const data = sweep.map(p => ({ ...p, umbrellaShare: p.umbrellaShare * 100 }));
+
+  const renderSlider = (label: string, value: number, unit: string, min: number, max: number, step: number, onChange: (v: number) => void) => (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-slate-600">{label}</label>
+        <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{value} {unit}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step}
+        value={value}
+        onChange={(e) => {
+          onChange(parseInt(e.target.value));
+          triggerHaptic('selection');
+        }}
+        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+      />
+    </div>
+  );
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Umbrella className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-bold text-slate-800">Umbrella Cell</h3>
+        </div>
+        <button
+          onClick={() => {
+            onToggle(!enabled);
+            triggerHaptic('selection');
+          }}
+          className={`px-3 py-1.5 rounded-xl text-xs font-bold transition-all ${enabled ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+        >
+          {enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {enabled ? (
+        <div className="space-y-8">
+          {renderSlider('Umbrella Power', power, 'dBm', 20, 60, 1, onPowerChange)}
+          {renderSlider('Umbrella Mast Height', height, 'm', 10, 200, 5, onHeightChange)}
+          {renderSlider('Speed Threshold', speedThreshold, 'km/h', 10, 120, 5, onSpeedThresholdChange)}
+
+          <div className="space-y-3">
+            <label className="text-sm font-semibold text-slate-600">Speed Estimate From</label>
+            <div className="grid grid-cols-2 gap-2">
+              {SPEED_ESTIMATORS.map(e => (
+                <button
+                  key={e}
+                  onClick={() => {
+                    onEstimatorChange(e);
+                    triggerHaptic('selection');
+                  }}
+                  className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${estimator === e ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {ESTIMATOR_LABELS[e]}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400">
+              {estimator === 'dwell'
+                ? `v̂ = distance across the last ${DWELL_CELLS} full microcells ÷ time taken, measured between cell edges halfway between the sites.`
+                : `v̂ = site spacings crossed ÷ the window a UE at ${speedThreshold} km/h needs for three ${cellSize.toFixed(0)} m cells.`}
+            </p>
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-500">Actual / estimated speed</span>
+              <span className="text-xs font-mono font-bold text-slate-800">
+                {speed} / {estimate !== null ? estimate.toFixed(0) : '—'} km/h
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-slate-500">Serving layer</span>
+              <span className={`text-xs font-mono font-bold ${onUmbrella ? 'text-indigo-600' : 'text-emerald-600'}`}>
+                {onUmbrella ? 'Umbrella (macro)' : 'Microcell'}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-bold text-slate-800">Handoffs vs UE Speed</h4>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis
+                    dataKey="speed"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    fontSize={10}
+                    label={{ value: 'UE Speed (km/h)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+                  />
+                  <YAxis yAxisId="handoffs" fontSize={10} allowDecimals={false} />
+                  <YAxis yAxisId="share" orientation="right" domain={[0, 100]} hide />
+                  <Tooltip
+                    formatter={(value: number, name: string) => name === 'On Umbrella' ? `${value.toFixed(0)}%` : value}
+                    labelFormatter={(v: number) => `${v} km/h`}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                  />
+                  <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+                  <ReferenceLine yAxisId="handoffs" x={speedThreshold} stroke="#fbbf24" strokeDasharray="5 5" />
+                  <ReferenceLine yAxisId="handoffs" x={speed} stroke="#94a3b8" />
+                  <Area yAxisId="share" type="stepAfter" dataKey="umbrellaShare" name="On Umbrella" stroke="#a5b4fc" fill="#e0e7ff" fillOpacity={0.6} isAnimationActive={false} />
+                  <Line yAxisId="handoffs" type="stepAfter" dataKey="microOnly" name="Microcells Only" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line yAxisId="handoffs" type="stepAfter" dataKey="overlay" name="With Umbrella" stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <p className="text-[10px] text-slate-400">
+            The other stations act as microcells and hand off among themselves with the hysteresis margin H, whichever algorithm is selected. A UE estimated faster than the threshold (dashed) moves to the umbrella cell; below {((1 - SPEED_HYSTERESIS) * 100).toFixed(0)}% of it, it returns to its microcell. The chart replays this route at every speed.
+          </p>
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-400">Overlay a macro cell at the middle of the route on top of the stations, and let the network move fast UEs up to it while slow UEs stay in the microcells.</p>
+      )}
+    </section>
+  );
+}
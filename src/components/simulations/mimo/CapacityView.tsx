@@ -0,0 +1,311 @@
+import React, { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend
+} from 'recharts';
+import { Settings2, Info, RefreshCw, Grid, Layers, Droplets, TrendingUp } from 'lucide-react';
+import { InlineMath, BlockMath } from 'react-katex';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { toDb } from '../../../utils/math';
+import {
+  channelMagnitudes,
+  eigenChannelGains,
+  equalPowerCapacity,
+  ergodicCapacity,
+  rayleighChannel,
+  waterFilling
+} from '../../../utils/mimo';
+
+const SNR_AXIS_DB = Array.from({ length: 21 }, (_, i) => -10 + i * 2);
+const ERGODIC_CONFIGS = [
+  { n: 1, key: 'mimo1', label: '1×1', color: '#94a3b8' },
+  { n: 2, key: 'mimo2', label: '2×2', color: '#2563eb' },
+  { n: 4, key: 'mimo4', label: '4×4', color: '#e11d48' },
+];
+
+export function CapacityView() {
+  const { triggerHaptic } = useHaptics();
+
+  // Parameters
+  const [nt, setNt] = useSimulatorState('mimo', 'nt', 2, { min: 1, max: 8 });
+  const [nr, setNr] = useSimulatorState('mimo', 'nr', 2, { min: 1, max: 8 });
+  const [snrDb, setSnrDb] = useSimulatorState('mimo', 'capacitySnr', 10, { min: -10, max: 30 });
+  const [channelModel, setChannelModel] = useSimulatorState<'iid' | 'kronecker'>('mimo', 'channelModel', 'iid', { allowed: ['iid', 'kronecker'] });
+  const [correlation, setCorrelation] = useSimulatorState('mimo', 'correlation', 0.7, { min: 0, max: 0.95 });
+
+  const [realization, setRealization] = useState(0);
+
+  const rho = channelModel === 'kronecker' ? correlation : 0;
+  const snrLinear = Math.pow(10, snrDb / 10);
+
+  // Current channel realization (redrawn on demand)
+  const channel = useMemo(() => rayleighChannel(nr, nt, rho), [nr, nt, rho, realization]);
+  const magnitudes = useMemo(() => channelMagnitudes(channel), [channel]);
+  const gains = useMemo(() => eigenChannelGains(channel), [channel]);
+  const filling = useMemo(() => waterFilling(gains, snrLinear), [gains, snrLinear]);
+  const equalCapacity = useMemo(() => equalPowerCapacity(channel, snrLinear), [channel, snrLinear]);
+  const sisoCapacity = Math.log2(1 + snrLinear);
+
+  const maxMagnitude = Math.max(...magnitudes.flat(), 1e-6);
+
+  const fillingData = gains.map((g, i) => {
+    const floor = 1 / (snrLinear * g);
+    return {
+      mode: `λ${i + 1}`,
+      floor: Math.min(floor, filling.level * 1.5),
+      water: filling.powers[i],
+      gainDb: toDb(g),
+    };
+  });
+
+  // Ergodic capacity curves (Monte-Carlo)
+  const ergodicData = useMemo(() => {
+    const curves = ERGODIC_CONFIGS.map(c => ergodicCapacity(c.n, c.n, SNR_AXIS_DB, rho));
+    return SNR_AXIS_DB.map((snr, idx) => {
+      const point: Record<string, number> = { snr, awgn: Math.log2(1 + Math.pow(10, snr / 10)) };
+      ERGODIC_CONFIGS.forEach((c, k) => {
+        point[c.key] = curves[k][idx];
+      });
+      return point;
+    });
+  }, [rho]);
+
+  const renderSlider = (
+    label: string,
+    display: string,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onChange: (v: number) => void
+  ) => (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-slate-600">{label}</label>
+        <span className="bg-slate-100 px-2 py-1 rounded text-xs font-mono font-bold text-slate-700">{display}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step}
+        value={value}
+        onChange={(e) => {
+          onChange(parseFloat(e.target.value));
+          triggerHaptic('selection');
+        }}
+        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-rose-600"
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+      {/* Controls */}
+      <div className="lg:col-span-1 space-y-6">
+        <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <Settings2 className="w-5 h-5 text-rose-600" />
+              <h3 className="font-bold text-slate-800">Channel Setup</h3>
+            </div>
+            <button
+              onClick={() => {
+                setRealization(r => r + 1);
+                triggerHaptic('selection');
+              }}
+              title="Draw a new channel realization"
+              className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-8">
+            {renderSlider('Transmit Antennas (Nt)', `${nt}`, nt, 1, 8, 1, setNt)}
+            {renderSlider('Receive Antennas (Nr)', `${nr}`, nr, 1, 8, 1, setNr)}
+            {renderSlider('SNR (ρ)', `${snrDb} dB`, snrDb, -10, 30, 1, setSnrDb)}
+
+            <div className="space-y-3">
+              <label className="text-sm font-semibold text-slate-600">Fading Model</label>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => { setChannelModel('iid'); triggerHaptic('selection'); }}
+                  className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${channelModel === 'iid' ? 'bg-rose-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  i.i.d. Rayleigh
+                </button>
+                <button
+                  onClick={() => { setChannelModel('kronecker'); triggerHaptic('selection'); }}
+                  className={`py-2 px-3 rounded-xl text-xs font-bold transition-all ${channelModel === 'kronecker' ? 'bg-rose-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  Kronecker
+                </button>
+              </div>
+            </div>
+
+            {channelModel === 'kronecker' &&
+              renderSlider('Antenna Correlation (r)', correlation.toFixed(2), correlation, 0, 0.95, 0.05, setCorrelation)}
+
+            <div className="pt-6 border-t border-slate-100 space-y-4">
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500">Equal Power</span>
+                <span className="font-mono font-bold text-slate-800">{equalCapacity.toFixed(2)} b/s/Hz</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500 font-bold">Water-Filling</span>
+                <span className="font-mono font-bold text-rose-600">{filling.capacity.toFixed(2)} b/s/Hz</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500">SISO AWGN</span>
+                <span className="font-mono font-bold text-slate-500">{sisoCapacity.toFixed(2)} b/s/Hz</span>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* Educational Side Panel */}
+        <section className="bg-slate-900 rounded-2xl p-6 text-slate-300 shadow-xl">
+          <h4 className="font-bold text-white mb-4 flex items-center gap-2">
+            <Info className="w-4 h-4 text-rose-400" />
+            Understanding the Simulation
+          </h4>
+          <div className="space-y-4 text-xs leading-relaxed">
+            <p>
+              <strong className="text-rose-400">Eigen-Channels:</strong> The SVD <InlineMath math="\mathbf{H} = \mathbf{U}\boldsymbol{\Sigma}\mathbf{V}^H" /> splits the MIMO link into <InlineMath math="\min(N_t, N_r)" /> parallel pipes with gains <InlineMath math="\lambda_i = \sigma_i^2" />.
+            </p>
+            <BlockMath math="C = \log_2 \det\left(\mathbf{I} + \tfrac{\rho}{N_t}\mathbf{H}\mathbf{H}^H\right)" />
+            <p>
+              <strong className="text-rose-400">Water-Filling:</strong> If the transmitter knows <b>H</b>, pouring power into strong eigen-channels and starving weak ones beats equal allocation, especially at low SNR.
+            </p>
+            <p>
+              <strong className="text-rose-400">Correlation:</strong> Closely spaced antennas see similar fading, which shrinks the weaker eigen-channels and the multiplexing gain with them.
+            </p>
+          </div>
+        </section>
+      </div>
+
+      {/* Visualizations */}
+      <div className="lg:col-span-3 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+            <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <Grid className="w-4 h-4 text-rose-600" />
+              Channel Matrix |h<sub>ij</sub>| ({nr}×{nt})
+            </h4>
+            <div
+              className="grid gap-1 mx-auto max-w-xs"
+              style={{ gridTemplateColumns: `repeat(${nt}, minmax(0, 1fr))` }}
+            >
+              {magnitudes.flatMap((row, i) => row.map((mag, j) => (
+                <div
+                  key={`${i}-${j}`}
+                  className="aspect-square rounded-md flex items-center justify-center text-[9px] font-mono font-bold"
+                  style={{
+                    backgroundColor: `rgba(225, 29, 72, ${0.1 + 0.9 * mag / maxMagnitude})`,
+                    color: mag / maxMagnitude > 0.5 ? '#fff' : '#475569',
+                  }}
+                  title={`h${i + 1}${j + 1}`}
+                >
+                  {mag.toFixed(2)}
+                </div>
+              )))}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-4 text-center">Rows: receive antennas · Columns: transmit antennas</p>
+          </div>
+
+          <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+            <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <Layers className="w-4 h-4 text-rose-600" />
+              Eigen-Channel Gains (SVD)
+            </h4>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={fillingData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="mode" fontSize={10} />
+                  <YAxis fontSize={10} label={{ value: 'σ² (dB)', angle: -90, position: 'insideLeft', fontSize: 10 }} />
+                  <Tooltip
+                    formatter={(value: number) => [`${value.toFixed(2)} dB`, 'Gain']}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                  />
+                  <ReferenceLine y={0} stroke="#cbd5e1" />
+                  <Bar dataKey="gainDb" fill="#e11d48" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+              <Droplets className="w-4 h-4 text-sky-500" />
+              Water-Filling Power Allocation
+            </h4>
+            <span className="text-[10px] font-mono text-slate-400">Water level μ = {filling.level.toFixed(3)}</span>
+          </div>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={fillingData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="mode" fontSize={10} />
+                <YAxis fontSize={10} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [value.toFixed(3), name === 'floor' ? '1/(ρλ)' : 'Power share']}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="floor" stackId="fill" fill="#475569" />
+                <Bar dataKey="water" stackId="fill" fill="#38bdf8" radius={[4, 4, 0, 0]} />
+                <ReferenceLine y={filling.level} stroke="#0284c7" strokeDasharray="5 5" label={{ value: 'μ', position: 'right', fontSize: 10, fill: '#0284c7' }} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-[10px] text-slate-400 mt-2">
+            Dark bars are the "floor" 1/(ρλ<sub>i</sub>); blue is the power poured into each eigen-channel. Modes whose floor sits above the water level get no power.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+          <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+            <TrendingUp className="w-4 h-4 text-rose-600" />
+            Ergodic Capacity vs SNR {channelModel === 'kronecker' && <span className="text-[10px] font-normal text-slate-400">(r = {correlation.toFixed(2)})</span>}
+          </h4>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={ergodicData} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis
+                  dataKey="snr"
+                  fontSize={10}
+                  label={{ value: 'SNR (dB)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+                />
+                <YAxis
+                  fontSize={10}
+                  label={{ value: 'Capacity (b/s/Hz)', angle: -90, position: 'insideLeft', fontSize: 10 }}
+                />
+                <Tooltip
+                  formatter={(value: number) => value.toFixed(2)}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                />
+                <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+                <ReferenceLine x={snrDb} stroke="#64748b" strokeDasharray="3 3" />
+                <Line type="monotone" dataKey="awgn" name="Shannon SISO (AWGN)" stroke="#0f172a" strokeDasharray="6 4" strokeWidth={2} dot={false} isAnimationActive={false} />
+                {ERGODIC_CONFIGS.map(c => (
+                  <Line key={c.key} type="monotone" dataKey={c.key} name={`${c.label} Rayleigh`} stroke={c.color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
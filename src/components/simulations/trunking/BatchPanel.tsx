@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  ErrorBar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+import { FastForward, Trash2, CheckCircle2, AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import {
+  advanceTrunkingBatch,
+  analyticBlocking,
+  batchMeasured,
+  batchResult,
+  createTrunkingBatch,
+  hasHandoffPriority,
+  hasRetrials,
+  isAnalyticApproximate,
+  isProfileSilent,
+  type BatchResult,
+  type TrunkingConfig
+} from '../../../utils/trunking';
+
+const BATCH_SIZES = [1000, 10000, 100000];
+const MAX_RESULTS = 8;
+const CHUNK_MS = 40; // Longest stretch of simulation between yields to the browser
+const CHUNK_CALLS = 500; // Calls simulated between clock checks
+
+interface BatchPanelProps {
+  config: TrunkingConfig;
+}
+
+export function BatchPanel({ config }: BatchPanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [batchCalls, setBatchCalls] = useSimulatorState('trunking', 'batchCalls', 10000, { allowed: BATCH_SIZES });
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0); // Calls measured by the running batch
+  // Bumped to abandon the batch in progress
+  const batchId = useRef(0);
+
+  const isDelayed = config.mode === 'delayed';
+  const isPriority = hasHandoffPriority(config);
+  const isRetrial = hasRetrials(config);
+  const baseFormula = isDelayed ? 'Erlang C' : isRetrial ? 'Poisson-Retrial Approximation' : config.sources !== undefined ? 'Engset' : isPriority ? 'Guard Channels' : 'Erlang B';
+  // With a traffic profile the formula is applied hour by hour, as if each hour were in steady state, and averaged over the day
+  const formula = config.profile ? `Per-Hour Steady-State ${baseFormula}` : baseFormula;
+  const isApproximate = isAnalyticApproximate(config);
+  const isSilent = isProfileSilent(config);
+  const load = config.arrivalRate / config.serviceRate;
+
+  // A batch of another system would be filed under the wrong parameters
+  useEffect(() => {
+    batchId.current++;
+    setIsRunning(false);
+  }, [config]);
+
+  useEffect(() => () => {
+    batchId.current++;
+  }, []);
+
+  const run = () => {
+    const id = ++batchId.current;
+    const batch = createTrunkingBatch(config, batchCalls);
+    setIsRunning(true);
+    setProgress(0);
+    triggerHaptic('selection');
+
+    // Simulate in short chunks and yield between them, so the page stays responsive
+    const step = () => {
+      if (batchId.current !== id) return;
+      const start = performance.now();
+      while (!batch.done && performance.now() - start < CHUNK_MS) {
+        advanceTrunkingBatch(batch, CHUNK_CALLS);
+      }
+      if (!batch.done) {
+        setProgress(batchMeasured(batch));
+        setTimeout(step, 0);
+        return;
+      }
+      const result = batchResult(batch);
+      setResults(prev => [result, ...prev].slice(0, MAX_RESULTS));
+      setIsRunning(false);
+      // An approximation is shown for reference only, so missing it is no warning
+      triggerHaptic(result.approximate || (result.analytic >= result.ciLow && result.analytic <= result.ciHigh) ? 'success' : 'warning');
+    };
+    setTimeout(step, 0);
+  };
+
+  // Analytic curve for the current channel count, with the matching batch points
+  const matching = results.filter(r =>
+    r.channels === config.channels &&
+    r.mode === config.mode &&
+    r.sources === config.sources &&
+    r.handoffRate === config.handoffRate &&
+    r.guardChannels === config.guardChannels &&
+    r.retryProbability === config.retryProbability &&
+    r.retryDelay === config.retryDelay &&
+    r.profile?.join() === config.profile?.join()
+  );
+  const maxLoad = Math.max(load * 2, 20, ...matching.map(r => r.load * 1.2));
+  const curve = useMemo(() => {
+    const data = [];
+    for (let a = 0; a <= maxLoad; a += maxLoad / 60) {
+      data.push({ load: a, analytic: analyticBlocking({ ...config, arrivalRate: a * config.serviceRate }) });
+    }
+    return data;
+  }, [config, maxLoad]);
+  const points = matching.map(r => ({
+    load: r.load,
+    empirical: r.estimate,
+    error: [r.estimate - r.ciLow, r.ciHigh - r.estimate]
+  }));
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <FastForward className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-bold text-slate-800">Batch Run</h3>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">
+            Empirical {isDelayed ? 'P(Delay)' : isPriority ? 'New-Call Blocking' : isRetrial ? 'Attempt Blocking' : 'Blocking'} {isApproximate ? 'beside' : 'vs'} {formula}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {BATCH_SIZES.map(size => (
+              <button
+                key={size}
+                onClick={() => {
+                  setBatchCalls(size);
+                  triggerHaptic('selection');
+                }}
+                className={`px-3 py-1 rounded-lg text-xs font-bold font-mono transition-all ${batchCalls === size ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {size.toLocaleString()}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={run}
+            disabled={isRunning || isSilent}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-sm hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <FastForward className="w-4 h-4" />
+            {isRunning ? `Running… ${progress.toLocaleString()}/${batchCalls.toLocaleString()}` : `Run ${batchCalls.toLocaleString()} Calls`}
+          </button>
+          <button
+            onClick={() => {
+              setResults([]);
+              triggerHaptic('selection');
+            }}
+            disabled={results.length === 0}
+            className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-40"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={curve} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="load"
+                type="number"
+                domain={[0, maxLoad]}
+                tickFormatter={(v: number) => v.toFixed(0)}
+                fontSize={10}
+                label={{ value: `${config.profile ? 'Busy-Hour ' : ''}${isPriority ? 'New Call Load (Aₙ)' : isRetrial ? 'Fresh Traffic (A)' : 'Traffic Load (A)'}`, position: 'insideBottom', offset: -10, fontSize: 10 }}
+              />
+              <YAxis fontSize={10} domain={[0, 1]} />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(4)}
+                labelFormatter={(v: number) => `A = ${v.toFixed(2)} Erl`}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+              <Line dataKey="analytic" name={`${formula} (C = ${config.channels}${config.sources !== undefined ? `, N = ${config.sources}` : ''})`} stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Scatter data={points} dataKey="empirical" name="Simulated (95% CI)" fill="#f43f5e">
+                <ErrorBar dataKey="error" width={6} strokeWidth={2} stroke="#f43f5e" direction="y" />
+              </Scatter>
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="space-y-2">
+          {isSilent && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 text-amber-700 rounded-xl text-[11px] font-medium">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              Every hour of the traffic profile is at 0, so no call ever arrives and there is nothing to measure.
+            </div>
+          )}
+          {results.length === 0 && (
+            <p className="text-xs text-slate-400 italic">
+              Simulates the calls as fast as possible with exponential inter-arrival and holding times, then compares the measured ratio with the formula.
+            </p>
+          )}
+          {results.map((r, idx) => {
+            const covered = r.analytic >= r.ciLow && r.analytic <= r.ciHigh;
+            return (
+              <div key={idx} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-100 text-[10px] font-mono">
+                {r.approximate
+                  ? <Info className="w-4 h-4 text-slate-400 shrink-0" />
+                  : covered ? <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" /> : <AlertCircle className="w-4 h-4 text-amber-500 shrink-0" />}
+                <div className="flex-1">
+                  <p className="font-bold text-slate-700">
+                    C = {r.channels}{r.sources !== undefined && `, N = ${r.sources}`}{r.guardChannels !== undefined && `, g = ${r.guardChannels}`}{r.retryProbability !== undefined && `, p = ${r.retryProbability.toFixed(2)}`}, A = {r.load.toFixed(2)} · {r.calls.toLocaleString()} calls
+                  </p>
+                  <p className="text-slate-500">
+                    {(r.estimate * 100).toFixed(2)}% [{(r.ciLow * 100).toFixed(2)}, {(r.ciHigh * 100).toFixed(2)}] {r.approximate ? '· approx.' : 'vs'} {(r.analytic * 100).toFixed(2)}%
+                  </p>
+                  {r.handoff && (
+                    <p className="text-sky-600">
+                      Dropping {(r.handoff.estimate * 100).toFixed(3)}% [{(r.handoff.ciLow * 100).toFixed(3)}, {(r.handoff.ciHigh * 100).toFixed(3)}] vs {(r.handoff.analytic * 100).toFixed(3)}%
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {isApproximate && (
+            <p className="text-[10px] text-slate-400">
+              {isRetrial && 'The Poisson-retrial approximation treats redials as fresh Poisson arrivals, but each simulated caller redials after its own delay. '}
+              {config.profile && 'The per-hour average assumes every hour reaches steady state, but the simulated system lags behind the changing rate. '}
+              The runs can therefore sit a point or two away from the curve, which is shown for reference, not as the value a run should match.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend
+} from 'recharts';
+import { Users } from 'lucide-react';
+import { calculateEngsetBlocking, calculateErlangB } from '../../../utils/math';
+
+const MAX_POPULATION = 200;
+
+interface EngsetConvergenceChartProps {
+  channels: number;
+  trafficLoad: number; // A = lambda / mu, held fixed while N grows
+  population: number;
+}
+
+export function EngsetConvergenceChart({ channels, trafficLoad, population }: EngsetConvergenceChartProps) {
+  const erlangB = calculateErlangB(channels, trafficLoad);
+
+  const data = useMemo(() => {
+    const points = [];
+    for (let n = 1; n <= MAX_POPULATION; n++) {
+      points.push({ n, engset: calculateEngsetBlocking(channels, n, trafficLoad / n) });
+    }
+    return points;
+  }, [channels, trafficLoad]);
+
+  const current = calculateEngsetBlocking(channels, population, trafficLoad / population);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-6">
+        <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <Users className="w-4 h-4 text-indigo-600" />
+          Engset → Erlang B as the Population Grows
+        </h4>
+        <span className="text-[10px] font-mono text-slate-400">
+          N = {population}: {(current * 100).toFixed(2)}% vs {(erlangB * 100).toFixed(2)}%
+        </span>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis
+              dataKey="n"
+              type="number"
+              scale="log"
+              domain={[1, MAX_POPULATION]}
+              ticks={[1, 2, 5, 10, 20, 50, 100, 200]}
+              fontSize={10}
+              label={{ value: 'Number of Sources (N)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+            />
+            <YAxis fontSize={10} label={{ value: 'Blocking Prob', angle: -90, position: 'insideLeft', fontSize: 10 }} />
+            <Tooltip
+              formatter={(value: number) => `${(value * 100).toFixed(3)}%`}
+              labelFormatter={(n: number) => `N = ${n}`}
+              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+            <ReferenceLine y={erlangB} stroke="#f43f5e" strokeDasharray="5 5" label={{ value: 'Erlang B', position: 'insideTopLeft', fontSize: 10, fill: '#f43f5e' }} />
+            <ReferenceLine x={population} stroke="#64748b" strokeDasharray="3 3" />
+            <Line dataKey="engset" name={`Engset (C = ${channels}, A = ${trafficLoad.toFixed(2)})`} stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-2">
+        With the total offered traffic held at A, a small population blocks less: callers already on a channel cannot generate new attempts.
+      </p>
+    </div>
+  );
+}
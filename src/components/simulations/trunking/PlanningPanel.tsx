@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardList, Plus, X, ArrowRight } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { calculateErlangB, calculateMaxTraffic, calculateRequiredChannels } from '../../../utils/math';
+
+const TABLE_ROWS = 50;
+const MAX_GOS_COLUMNS = 6;
+// GoS range of a column, in percent
+const MIN_GOS_COLUMN = 0.01;
+const MAX_GOS_COLUMN = 99;
+
+interface PlanningPanelProps {
+  /** Applies a solved channel count to the live simulator. */
+  onApplyChannels?: (channels: number) => void;
+}
+
+export function PlanningPanel({ onApplyChannels }: PlanningPanelProps) {
+  const { triggerHaptic } = useHaptics();
+
+  const [planGos, setPlanGos] = useSimulatorState('trunking', 'planGos', 2, { min: 0.1, max: 20 }); // %
+  const [planTraffic, setPlanTraffic] = useSimulatorState('trunking', 'planTraffic', 25, { min: 0.1, max: 200 }); // Erlangs
+  const [planChannels, setPlanChannels] = useSimulatorState('trunking', 'planChannels', 30, { min: 1, max: 200 });
+  const [gosColumns, setGosColumns] = useSimulatorState('trunking', 'gosColumns', [1, 2, 5] as number[]);
+  const [newColumn, setNewColumn] = useState('');
+  const [columnError, setColumnError] = useState<string | null>(null);
+  // Entries that are not valid inputs yet, by field; the last valid value stays in use
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const gos = planGos / 100;
+  const requiredChannels = calculateRequiredChannels(planTraffic, gos);
+  const achievedBlocking = Number.isFinite(requiredChannels) ? calculateErlangB(requiredChannels, planTraffic) : 1;
+  const maxTraffic = calculateMaxTraffic(planChannels, gos);
+
+  const table = useMemo(() => {
+    return Array.from({ length: TABLE_ROWS }, (_, i) => ({
+      channels: i + 1,
+      loads: gosColumns.map(col => calculateMaxTraffic(i + 1, col / 100))
+    }));
+  }, [gosColumns]);
+
+  const addColumn = () => {
+    const value = parseFloat(newColumn);
+    if (gosColumns.length >= MAX_GOS_COLUMNS) return;
+    if (!(value >= MIN_GOS_COLUMN && value <= MAX_GOS_COLUMN)) {
+      setColumnError(`GoS must be between ${MIN_GOS_COLUMN}% and ${MAX_GOS_COLUMN}%`);
+      triggerHaptic('error');
+      return;
+    }
+    if (gosColumns.includes(value)) {
+      setColumnError(`The table already has a ${value}% column`);
+      triggerHaptic('error');
+      return;
+    }
+    setGosColumns(prev => [...prev, value].sort((a, b) => a - b));
+    setNewColumn('');
+    setColumnError(null);
+    triggerHaptic('selection');
+  };
+
+  const removeColumn = (value: number) => {
+    setGosColumns(prev => prev.filter(col => col !== value));
+    triggerHaptic('selection');
+  };
+
+  const clearDraft = (field: string) => {
+    setDrafts(({ [field]: _removed, ...rest }) => rest);
+  };
+
+  const renderNumberInput = (field: string, label: string, unit: string, value: number, min: number, max: number, step: number, onChange: (v: number) => void) => {
+    const draft = drafts[field];
+    return (
+      <div className="space-y-2">
+        <label className="text-xs font-semibold text-slate-600">{label}</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number" min={min} max={max} step={step}
+            value={draft ?? value}
+            onChange={(e) => {
+              const v = parseFloat(e.target.value);
+              if (v >= min && v <= max) {
+                clearDraft(field);
+                onChange(v);
+              } else {
+                setDrafts(prev => ({ ...prev, [field]: e.target.value }));
+              }
+            }}
+            onBlur={() => clearDraft(field)}
+            className={`w-full px-3 py-2 rounded-xl border text-sm font-mono focus:outline-none focus:ring-2 ${draft !== undefined ? 'border-rose-300 focus:ring-rose-500' : 'border-slate-200 focus:ring-indigo-500'}`}
+          />
+          <span className="text-xs text-slate-400 font-bold shrink-0">{unit}</span>
+        </div>
+        {draft !== undefined && (
+          <p className="text-[10px] text-rose-600">Enter a value from {min} to {max} {unit}; {value} {unit} is still in use.</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-6">
+        <ClipboardList className="w-5 h-5 text-indigo-600" />
+        <h3 className="font-bold text-slate-800">Capacity Planning</h3>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          {renderNumberInput('planGos', 'Target GoS (B)', '%', planGos, 0.1, 20, 0.1, setPlanGos)}
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-4">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Channels for a given load</p>
+            {renderNumberInput('planTraffic', 'Offered Traffic (A)', 'Erl', planTraffic, 0.1, 200, 0.1, setPlanTraffic)}
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500 font-bold">Minimum Channels</span>
+              <span className="font-mono font-bold text-indigo-600">{Number.isFinite(requiredChannels) ? requiredChannels : '—'}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500">Achieved Blocking</span>
+              <span className="font-mono font-bold text-rose-500">{(achievedBlocking * 100).toFixed(3)}%</span>
+            </div>
+            {onApplyChannels && Number.isFinite(requiredChannels) && (
+              <button
+                onClick={() => {
+                  onApplyChannels(requiredChannels);
+                  triggerHaptic('success');
+                }}
+                disabled={requiredChannels > 50}
+                title={requiredChannels > 50 ? 'The live simulator supports up to 50 channels' : undefined}
+                className="w-full py-2 bg-indigo-50 text-indigo-600 rounded-xl text-xs font-bold hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                Use in Simulator
+                <ArrowRight className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-4">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Load for a given channel count</p>
+            {renderNumberInput('planChannels', 'Channels (C)', 'ch', planChannels, 1, 200, 1, v => setPlanChannels(Math.round(v)))}
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500 font-bold">Maximum Traffic</span>
+              <span className="font-mono font-bold text-indigo-600">{maxTraffic.toFixed(3)} Erl</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-500">Utilization</span>
+              <span className="font-mono font-bold text-slate-700">{((maxTraffic * (1 - gos) / planChannels) * 100).toFixed(1)}%</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-semibold text-slate-600 mr-2">GoS Columns</span>
+            {gosColumns.map(col => (
+              <span key={col} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-indigo-50 text-indigo-600 rounded-lg text-xs font-bold font-mono">
+                {col}%
+                <button
+                  onClick={() => removeColumn(col)}
+                  disabled={gosColumns.length === 1}
+                  className="p-0.5 rounded hover:bg-indigo-100 transition-colors disabled:opacity-30"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                addColumn();
+              }}
+              className="flex items-center gap-1"
+            >
+              <input
+                type="number" min={MIN_GOS_COLUMN} max={MAX_GOS_COLUMN} step="0.01"
+                value={newColumn}
+                onChange={(e) => {
+                  setNewColumn(e.target.value);
+                  setColumnError(null);
+                }}
+                placeholder="GoS %"
+                disabled={gosColumns.length >= MAX_GOS_COLUMNS}
+                className="w-20 px-2 py-1 rounded-lg border border-slate-200 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={gosColumns.length >= MAX_GOS_COLUMNS}
+                className="p-1.5 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-40"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </form>
+            {columnError && <span className="text-[10px] text-rose-600">{columnError}</span>}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto rounded-xl border border-slate-100">
+            <table className="w-full text-xs font-mono">
+              <thead className="sticky top-0 bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold">C</th>
+                  {gosColumns.map(col => (
+                    <th key={col} className="px-3 py-2 text-right font-bold">B = {col}%</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.map(row => (
+                  <tr
+                    key={row.channels}
+                    className={`border-t border-slate-100 ${row.channels === planChannels ? 'bg-indigo-50 text-indigo-700 font-bold' : 'text-slate-700'}`}
+                  >
+                    <td className="px-3 py-1.5">{row.channels}</td>
+                    {row.loads.map((load, i) => (
+                      <td key={gosColumns[i]} className="px-3 py-1.5 text-right">{load.toFixed(3)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-slate-400">Erlang B table: offered traffic (Erlangs) that C channels can carry at each GoS.</p>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceDot,
+  Legend
+} from 'recharts';
+import { Redo2 } from 'lucide-react';
+import { calculateErlangB, calculateRetrialFixedPoint } from '../../../utils/math';
+
+interface RetrialChartsProps {
+  channels: number;
+  trafficLoad: number; // Fresh traffic A
+  retryProbability: number;
+  observedLoad: number | null; // Measured attempts per hour / mu, once the run has started
+  observedBlocking: number | null; // Measured fraction of blocked attempts
+}
+
+export function RetrialCharts({ channels, trafficLoad, retryProbability, observedLoad, observedBlocking }: RetrialChartsProps) {
+  const data = useMemo(() => {
+    const points = [];
+    const maxLoad = Math.max(trafficLoad * 2, channels * 1.5);
+    for (let i = 1; i <= 60; i++) {
+      const a = (maxLoad * i) / 60;
+      const retrial = calculateRetrialFixedPoint(channels, a, retryProbability);
+      points.push({
+        load: a,
+        fresh: a,
+        effective: retrial.effectiveLoad,
+        erlangB: calculateErlangB(channels, a),
+        attempt: retrial.attemptBlocking,
+        loss: retrial.lossProbability
+      });
+    }
+    return points;
+  }, [channels, trafficLoad, retryProbability]);
+
+  const tooltipStyle = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' };
+  const xAxis = (
+    <XAxis
+      dataKey="load"
+      type="number"
+      domain={['dataMin', 'dataMax']}
+      tickFormatter={(v: number) => v.toFixed(0)}
+      fontSize={10}
+      label={{ value: 'Fresh Traffic (A)', position: 'insideBottom', offset: -10, fontSize: 10 }}
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <h4 className="text-sm font-bold text-slate-800 mb-6 flex items-center gap-2">
+        <Redo2 className="w-4 h-4 text-indigo-600" />
+        Redials vs the Plain Erlang B Prediction (p = {retryProbability.toFixed(2)})
+      </h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              {xAxis}
+              <YAxis fontSize={10} label={{ value: 'Offered Traffic (Erl)', angle: -90, position: 'insideLeft', fontSize: 10 }} />
+              <Tooltip formatter={(value: number) => value.toFixed(2)} labelFormatter={(v: number) => `A = ${v.toFixed(2)}`} contentStyle={tooltipStyle} />
+              <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+              <Line dataKey="fresh" name="Fresh only" stroke="#94a3b8" strokeDasharray="5 5" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line dataKey="effective" name="Fresh + redials" stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+              {observedLoad !== null && (
+                <ReferenceDot x={trafficLoad} y={observedLoad} r={5} fill="#f43f5e" stroke="#fff" />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              {xAxis}
+              <YAxis fontSize={10} domain={[0, 1]} label={{ value: 'Probability', angle: -90, position: 'insideLeft', fontSize: 10 }} />
+              <Tooltip formatter={(value: number) => `${(value * 100).toFixed(2)}%`} labelFormatter={(v: number) => `A = ${v.toFixed(2)}`} contentStyle={tooltipStyle} />
+              <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+              <Line dataKey="erlangB" name="Erlang B(C, A)" stroke="#94a3b8" strokeDasharray="5 5" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line dataKey="attempt" name="Attempt blocking" stroke="#f43f5e" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line dataKey="loss" name="Callers lost" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+              {observedBlocking !== null && (
+                <ReferenceDot x={trafficLoad} y={observedBlocking} r={5} fill="#f43f5e" stroke="#fff" />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-4">
+        Curves use the fixed point A<sub>eff</sub> = A / (1 − p·B(C, A<sub>eff</sub>)), which treats redials as fresh Poisson traffic. Red dots are the live simulation. Short redial delays make retries land while the cell is still congested, so the simulation blocks more than the approximation predicts.
+      </p>
+    </div>
+  );
+}
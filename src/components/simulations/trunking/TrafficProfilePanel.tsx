@@ -0,0 +1,269 @@
+import React, { useMemo, useRef } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend
+} from 'recharts';
+import { AlertTriangle, CalendarClock, Crown } from 'lucide-react';
+import { useHaptics } from '../../../contexts/HapticsContext';
+import { useSimulatorState } from '../../../hooks/useSimulatorState';
+import { calculateRequiredChannels } from '../../../utils/math';
+import {
+  analyticBlocking,
+  configAtHour,
+  HOURS_PER_DAY,
+  isProfileSilent,
+  type HourTally,
+  type ProfilePreset,
+  type TrunkingConfig
+} from '../../../utils/trunking';
+
+export type TrafficProfileChoice = ProfilePreset | 'custom';
+
+const CHOICES: { id: TrafficProfileChoice; label: string }[] = [
+  { id: 'flat', label: 'Flat' },
+  { id: 'office', label: 'Office' },
+  { id: 'residential', label: 'Residential' },
+  { id: 'stadium', label: 'Stadium' },
+  { id: 'custom', label: 'Custom' }
+];
+
+const EDITOR_HEIGHT = 120;
+const EDITOR_STEP = 0.05;
+
+interface TrafficProfilePanelProps {
+  config: TrunkingConfig; // Live config; its arrival rates are the busy-hour rates
+  choice: TrafficProfileChoice;
+  profile: number[];
+  hourly: HourTally[];
+  onChoiceChange: (choice: TrafficProfileChoice) => void;
+  /** Sets one hour of the profile, switching to a custom shape. */
+  onEditHour: (hour: number, value: number) => void;
+}
+
+const formatHour = (h: number) => `${String(h).padStart(2, '0')}:00`;
+
+export function TrafficProfilePanel({ config, choice, profile, hourly, onChoiceChange, onEditHour }: TrafficProfilePanelProps) {
+  const { triggerHaptic } = useHaptics();
+  const [planGos] = useSimulatorState('trunking', 'planGos', 2, { min: 0.1, max: 20 }); // %
+  const editorRef = useRef<SVGSVGElement>(null);
+  const dragging = useRef(false);
+
+  const isActive = config.profile !== undefined;
+  const isSilent = isProfileSilent(config);
+  const isDelayed = config.mode === 'delayed';
+  const peakLoad = (config.arrivalRate + (config.handoffRate ?? 0)) / config.serviceRate;
+
+  const hours = useMemo(() => {
+    return Array.from({ length: HOURS_PER_DAY }, (_, h) => {
+      const hourConfig = configAtHour(config, h);
+      const offered = (hourConfig.arrivalRate + (hourConfig.handoffRate ?? 0)) / config.serviceRate;
+      const predicted = analyticBlocking(hourConfig);
+      const tally = hourly[h];
+      return {
+        hour: h,
+        label: formatHour(h),
+        offered,
+        // Erlang C hours queue instead of losing calls, so they carry everything up to C
+        predictedCarried: isDelayed ? Math.min(offered, config.channels) : offered * (1 - predicted),
+        carried: tally && tally.time > 0 ? tally.busyTime / tally.time : null,
+        predicted,
+        observed: tally && tally.offered > 0 ? tally.blocked / tally.offered : null
+      };
+    });
+  }, [config, hourly, isDelayed]);
+
+  const busyHour = hours.reduce((best, h) => (h.offered > best.offered ? h : best), hours[0]);
+  const averageLoad = hours.reduce((sum, h) => sum + h.offered, 0) / HOURS_PER_DAY;
+  const simulatedDays = Math.min(...hourly.map(t => t.time));
+  const observedBusyHour = simulatedDays >= 1
+    ? hours.reduce((best, h) => ((h.carried ?? 0) > (best.carried ?? 0) ? h : best), hours[0])
+    : null;
+  const gos = planGos / 100;
+  // An idle profile needs no channels at all
+  const busyHourChannels = busyHour.offered > 0 ? calculateRequiredChannels(busyHour.offered, gos) : 0;
+  const averageChannels = averageLoad > 0 ? calculateRequiredChannels(averageLoad, gos) : 0;
+  const dailyPredicted = analyticBlocking(config);
+  const dailyOffered = hourly.reduce((sum, t) => sum + t.offered, 0);
+  const dailyObserved = dailyOffered > 0 ? hourly.reduce((sum, t) => sum + t.blocked, 0) / dailyOffered : null;
+
+  const editAt = (clientX: number, clientY: number) => {
+    const svg = editorRef.current;
+    if (!svg) return;
+    const rect = svg.getBoundingClientRect();
+    const hour = Math.floor(((clientX - rect.left) / rect.width) * HOURS_PER_DAY);
+    if (hour < 0 || hour >= HOURS_PER_DAY) return;
+    const raw = 1 - (clientY - rect.top) / rect.height;
+    const value = Math.min(1, Math.max(0, Math.round(raw / EDITOR_STEP) * EDITOR_STEP));
+    if (Math.abs(value - profile[hour]) < 1e-9) return;
+    onEditHour(hour, value);
+    triggerHaptic('selection');
+  };
+
+  const missLabel = isDelayed ? 'P(Delay)' : 'Blocking';
+  const tooltipStyle = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' };
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-bold text-slate-800">24-Hour Traffic Profile</h3>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-slate-400 ml-2">Busy-Hour Engineering</span>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-xl">
+          {CHOICES.map(c => (
+            <button
+              key={c.id}
+              onClick={() => {
+                onChoiceChange(c.id);
+                triggerHaptic('selection');
+              }}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${choice === c.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-2">
+          <p className="text-xs font-semibold text-slate-600">Arrival Rate as a Fraction of the Busy Hour</p>
+          <svg
+            ref={editorRef}
+            viewBox={`0 0 ${HOURS_PER_DAY * 10} ${EDITOR_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-32 bg-slate-50 rounded-xl border border-slate-100 cursor-ns-resize touch-none"
+            onPointerDown={(e) => {
+              dragging.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              editAt(e.clientX, e.clientY);
+            }}
+            onPointerMove={(e) => {
+              if (dragging.current) editAt(e.clientX, e.clientY);
+            }}
+            onPointerUp={() => {
+              dragging.current = false;
+            }}
+          >
+            {profile.map((value, h) => (
+              <rect
+                key={h}
+                x={h * 10 + 1}
+                y={EDITOR_HEIGHT * (1 - value)}
+                width={8}
+                height={EDITOR_HEIGHT * value}
+                rx={1.5}
+                fill={isActive && h === busyHour.hour ? '#f43f5e' : '#6366f1'}
+                opacity={isActive ? 0.9 : 0.35}
+              />
+            ))}
+          </svg>
+          <div className="flex justify-between text-[9px] font-mono text-slate-400">
+            {[0, 6, 12, 18, 23].map(h => <span key={h}>{formatHour(h)}</span>)}
+          </div>
+          <p className="text-[10px] text-slate-400">
+            Drag across the bars to draw a shape. Arrivals follow a non-homogeneous Poisson process whose rate is the busy-hour λ times the bar height for that hour.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          {!isActive ? (
+            <p className="text-xs text-slate-400 italic">
+              Pick a daily shape to make λ vary over the day. The simulator clock starts at midnight.
+            </p>
+          ) : (
+            <>
+              {isSilent && (
+                <div className="flex items-start gap-2 p-3 bg-amber-50 text-amber-700 rounded-xl text-[11px] font-medium">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  Every hour is at 0, so no call ever arrives. Raise at least one bar to offer traffic.
+                </div>
+              )}
+              <div className="flex items-center gap-3 p-4 bg-rose-50 rounded-2xl border border-rose-100">
+                <Crown className="w-5 h-5 text-rose-500 shrink-0" />
+                <div>
+                  <p className="text-[10px] font-bold text-rose-400 uppercase tracking-widest">Busy Hour</p>
+                  <p className="font-mono font-bold text-rose-600">{formatHour(busyHour.hour)} · {busyHour.offered.toFixed(2)} Erl</p>
+                  {observedBusyHour && (
+                    <p className="text-[10px] text-rose-400 font-mono">Observed: {formatHour(observedBusyHour.hour)} ({(observedBusyHour.carried ?? 0).toFixed(2)} Erl carried)</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500">Daily Average Load</span>
+                <span className="font-mono font-bold text-slate-700">{averageLoad.toFixed(2)} Erl</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500 font-bold">Channels for {planGos}% at Busy Hour</span>
+                <span className="font-mono font-bold text-indigo-600">{Number.isFinite(busyHourChannels) ? busyHourChannels : '—'}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500">Sized on the Daily Average</span>
+                <span className="font-mono font-bold text-slate-500">{Number.isFinite(averageChannels) ? averageChannels : '—'}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500">Busy-Hour {missLabel} at C = {config.channels}</span>
+                <span className="font-mono font-bold text-rose-600">{(busyHour.predicted * 100).toFixed(2)}%</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500 font-bold">Daily {missLabel} (Per-Hour Steady State)</span>
+                <span className="font-mono font-bold text-rose-600">{(dailyPredicted * 100).toFixed(2)}%</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-slate-500">Observed ({simulatedDays.toFixed(1)} days)</span>
+                <span className="font-mono font-bold text-rose-500">{dailyObserved !== null ? `${(dailyObserved * 100).toFixed(2)}%` : '—'}</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isActive && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mt-8">
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={hours} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="hour" fontSize={10} interval={2} label={{ value: 'Hour of Day', position: 'insideBottom', offset: -10, fontSize: 10 }} />
+                <YAxis fontSize={10} domain={[0, Math.max(peakLoad, config.channels) * 1.1]} tickFormatter={(v: number) => v.toFixed(0)} label={{ value: 'Erlangs', angle: -90, position: 'insideLeft', fontSize: 10 }} />
+                <Tooltip formatter={(value: number) => value.toFixed(2)} labelFormatter={(h: number) => formatHour(h)} contentStyle={tooltipStyle} />
+                <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+                <ReferenceLine y={config.channels} stroke="#64748b" strokeDasharray="3 3" label={{ value: `C = ${config.channels}`, position: 'insideTopRight', fontSize: 10, fill: '#64748b' }} />
+                <Bar dataKey="offered" name="Offered" fill="#e0e7ff" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+                <Line dataKey="predictedCarried" name="Carried (predicted)" stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line dataKey="carried" name="Carried (simulated)" stroke="#f43f5e" strokeWidth={2} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={hours} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="hour" fontSize={10} interval={2} label={{ value: 'Hour of Day', position: 'insideBottom', offset: -10, fontSize: 10 }} />
+                <YAxis fontSize={10} domain={[0, 'auto']} tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
+                <Tooltip formatter={(value: number) => `${(value * 100).toFixed(2)}%`} labelFormatter={(h: number) => formatHour(h)} contentStyle={tooltipStyle} />
+                <Legend verticalAlign="top" height={30} wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+                <ReferenceLine x={busyHour.hour} stroke="#f43f5e" strokeDasharray="3 3" />
+                <Line dataKey="predicted" name={`${missLabel} (${isDelayed ? 'Erlang C' : 'formula'} per hour)`} stroke="#4f46e5" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Scatter dataKey="observed" name={`${missLabel} (simulated)`} fill="#f43f5e" isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="md:col-span-2 text-[10px] text-slate-400">
+            Predictions treat each hour as if it had reached steady state. With holding times near an hour the real system lags behind the profile, so blocking rises later than predicted on the morning ramp and lingers after the peak. Simulated values accumulate over every day the clock has run.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,6 @@
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useWebHaptics } from 'web-haptics/react';
+import { getPreference, setPreference } from '../utils/storage';
 
 type HapticPreset = 'selection' | 'light' | 'medium' | 'heavy' | 'success' | 'error' | 'warning';
 
@@ -13,9 +14,13 @@ interface HapticsContextType {
 const HapticsContext = createContext<HapticsContextType | undefined>(undefined);
 
 export const HapticsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isHapticsEnabled, setIsHapticsEnabled] = useState(true);
+  const [isHapticsEnabled, setIsHapticsEnabled] = useState(() => getPreference('hapticsEnabled', true));
   const { trigger } = useWebHaptics();
 
+  useEffect(() => {
+    setPreference('hapticsEnabled', isHapticsEnabled);
+  }, [isHapticsEnabled]);
+
   const toggleHaptics = () => setIsHapticsEnabled(prev => !prev);
 
   const triggerHaptic = (type: HapticPreset | number | number[]) => {
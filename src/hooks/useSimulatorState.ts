@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore, type Dispatch, type SetStateAction } from 'react';
+import type { TabId } from '../components/Sidebar';
+import { parseRoute, writeRouteParam } from '../utils/routing';
+import { fitsSchema } from '../utils/scenarios';
+import { getModuleState, registerModuleDefault, setModuleValue, subscribe } from '../utils/storage';
+
+type UrlValue = string | number | boolean;
+
+interface SimulatorStateOptions<T> {
+  min?: number;
+  max?: number;
+  allowed?: readonly T[];
+  /** Set to false to persist the value without exposing it in the URL. */
+  url?: boolean;
+}
+
+function isUrlValue(value: unknown): value is UrlValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function decodeParam(raw: string, defaultValue: UrlValue): UrlValue | undefined {
+  if (typeof defaultValue === 'number') {
+    const value = Number(raw);
+    return raw.trim() !== '' && Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof defaultValue === 'boolean') {
+    return raw === 'true' ? true : raw === 'false' ? false : undefined;
+  }
+  return raw;
+}
+
+/**
+ * Coerces a value coming from the URL or from storage into something the
+ * simulator can safely use, falling back to the default when it does not fit.
+ * Lists are checked entry by entry against the module's scenario schema,
+ * which mirrors the ranges of the simulator's controls.
+ */
+function sanitize<T>(value: unknown, defaultValue: T, options: SimulatorStateOptions<T>, moduleId: TabId, key: string): T {
+  if (value === undefined || value === null) return defaultValue;
+  if (Array.isArray(defaultValue) !== Array.isArray(value) || typeof value !== typeof defaultValue) {
+    return defaultValue;
+  }
+  if (typeof value === 'object' && !fitsSchema(moduleId, key, value)) return defaultValue;
+
+  let result = value as T;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return defaultValue;
+    let clamped = value;
+    if (options.min !== undefined) clamped = Math.max(options.min, clamped);
+    if (options.max !== undefined) clamped = Math.min(options.max, clamped);
+    result = clamped as T;
+  }
+  if (options.allowed && !options.allowed.includes(result)) return defaultValue;
+  return result;
+}
+
+/**
+ * Drop-in replacement for useState for a simulator parameter. The value is
+ * persisted per module so it survives tab switches and reloads, and primitive
+ * values are mirrored into the route's query string so links can be shared.
+ * On mount a parameter present in the link wins over the stored value.
+ */
+export function useSimulatorState(moduleId: TabId, key: string, defaultValue: number, options?: SimulatorStateOptions<number>): [number, Dispatch<SetStateAction<number>>];
+export function useSimulatorState(moduleId: TabId, key: string, defaultValue: boolean, options?: SimulatorStateOptions<boolean>): [boolean, Dispatch<SetStateAction<boolean>>];
+export function useSimulatorState<T extends string>(moduleId: TabId, key: string, defaultValue: T, options?: SimulatorStateOptions<T>): [T, Dispatch<SetStateAction<T>>];
+export function useSimulatorState<T extends object>(moduleId: TabId, key: string, defaultValue: T): [T, Dispatch<SetStateAction<T>>];
+export function useSimulatorState<T>(
+  moduleId: TabId,
+  key: string,
+  defaultValue: T,
+  options: SimulatorStateOptions<T> = {}
+): [T, Dispatch<SetStateAction<T>>] {
+  // Keep the first default so inline array/object literals stay referentially stable
+  const [initialDefault] = useState(defaultValue);
+  const syncUrl = options.url !== false && isUrlValue(initialDefault);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // A parameter present in the link, read during the first render but only
+  // committed to the store once mounted; until then it overrides the stored value
+  const [linked] = useState<UrlValue | undefined>(() => {
+    if (!isUrlValue(initialDefault) || !syncUrl) return undefined;
+    const raw = parseRoute(window.location.hash).params.get(key);
+    if (raw === null) return undefined;
+    const decoded = decodeParam(raw, initialDefault);
+    return decoded === undefined ? undefined : sanitize<UrlValue>(decoded, initialDefault, options as SimulatorStateOptions<UrlValue>, moduleId, key);
+  });
+  const linkPending = useRef(linked !== undefined);
+
+  useEffect(() => {
+    registerModuleDefault(moduleId, key, initialDefault);
+  }, [moduleId, key, initialDefault]);
+
+  useEffect(() => {
+    if (!linkPending.current) return;
+    linkPending.current = false;
+    setModuleValue(moduleId, key, linked);
+  }, [moduleId, key, linked]);
+
+  const stored = useSyncExternalStore(subscribe, () => getModuleState(moduleId)?.[key]);
+  const value = sanitize(linkPending.current ? linked : stored, initialDefault, options, moduleId, key);
+
+  const setValue = useCallback((action: SetStateAction<T>) => {
+    const previous = linkPending.current ? linked : getModuleState(moduleId)?.[key];
+    const current = sanitize(previous, initialDefault, optionsRef.current, moduleId, key);
+    const next = typeof action === 'function' ? (action as (prev: T) => T)(current) : action;
+    linkPending.current = false;
+    setModuleValue(moduleId, key, next);
+  }, [moduleId, key, initialDefault, linked]);
+
+  useEffect(() => {
+    if (syncUrl) {
+      writeRouteParam(key, value === initialDefault ? null : String(value));
+    }
+  }, [syncUrl, key, value, initialDefault]);
+
+  return [value, setValue];
+}
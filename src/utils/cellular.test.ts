@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  approximateSir,
+  buildSiteGrid,
+  cellSinrSamples,
+  clusterSize,
+  coChannelCells,
+  minimumCluster,
+  minimumClusterApprox,
+  patternSir,
+  probeSinr,
+  receivedPowerDbm,
+  reuseCatalog,
+  reuseRatio,
+  sectorInterferers,
+  splitDepths,
+  splitHistory,
+  splitTier,
+  validClusterSizes,
+  verifyReuseTiling,
+  worstCaseSir
+} from './cellular';
+
+describe('co-channel interference', () => {
+  it('places six first-tier interferers at D = √(3N)·R', () => {
+    expect(clusterSize(2, 1)).toBe(7);
+    const tier1 = coChannelCells(2, 1, 1);
+    expect(tier1).toHaveLength(6);
+    tier1.forEach(cell => expect(cell.distance).toBeCloseTo(reuseRatio(7), 12));
+    expect(coChannelCells(2, 1, 2).filter(c => c.tier === 2)).toHaveLength(12);
+  });
+
+  it('gives the textbook 18.7 dB for N = 7 and n = 4', () => {
+    // (√21)⁴ / 6 = 73.5
+    expect(approximateSir(7, 4)).toBeCloseTo(73.5, 12);
+    expect(10 * Math.log10(approximateSir(7, 4))).toBeCloseTo(18.66, 2);
+  });
+
+  it('finds a worse S/I at the cell corner than the estimate', () => {
+    const worst = worstCaseSir(coChannelCells(2, 1, 1), 4);
+    expect(worst.sirDb).toBeCloseTo(17.82, 2);
+    expect(Math.hypot(worst.location.x, worst.location.y)).toBeCloseTo(1, 9);
+  });
+
+  it('picks a larger cluster for the worst case than for the estimate at 18 dB', () => {
+    expect(minimumClusterApprox(18, 4, 7)).toMatchObject({ n: 7 });
+    expect(minimumCluster(18, 4, 1, 7)).toMatchObject({ n: 9 });
+  });
+});
+
+describe('sectoring', () => {
+  it('leaves two first-tier interferers with 120° sectors and one with 60°', () => {
+    const tier1 = coChannelCells(2, 1, 1);
+    expect(sectorInterferers(tier1, 1)).toHaveLength(6);
+    expect(sectorInterferers(tier1, 3)).toHaveLength(2);
+    expect(sectorInterferers(tier1, 6)).toHaveLength(1);
+  });
+
+  it('raises the worst-case S/I of the pattern', () => {
+    const omni = patternSir(2, 1, 4, 1).sirDb;
+    const sector120 = patternSir(2, 1, 4, 1, 3).sirDb;
+    const sector60 = patternSir(2, 1, 4, 1, 6).sirDb;
+    expect(sector120).toBeGreaterThan(omni + 5);
+    expect(sector60).toBeGreaterThan(sector120 + 4);
+  });
+});
+
+describe('SINR map', () => {
+  const model = { pathLossExponent: 4, txPowerDbm: 43, noiseFloorDbm: -200, sectors: 1 };
+
+  it('falls off by 10n dB per decade beyond the reference distance', () => {
+    expect(receivedPowerDbm(0.1, model) - receivedPowerDbm(1, model)).toBeCloseTo(40, 12);
+  });
+
+  it('serves a point from its own cell and adds every co-channel site', () => {
+    const grid = buildSiteGrid(2, 1, 4);
+    const probe = probeSinr({ x: 0.5, y: 0 }, grid, model)!;
+    expect(probe.serving).toMatchObject({ q: 0, r: 0 });
+    expect(probe.strongest!.cluster).toBe(probe.serving.cluster);
+    expect(probe.sinrDb).toBeCloseTo(probe.signalDbm - probe.interferenceDbm, 6);
+  });
+
+  it('returns nothing outside the grid', () => {
+    expect(probeSinr({ x: 20, y: 0 }, buildSiteGrid(2, 1, 2), model)).toBeNull();
+  });
+
+  it('samples the cell area in ascending order', () => {
+    const samples = cellSinrSamples(buildSiteGrid(2, 1, 4), model, 20);
+    expect(samples.length).toBeGreaterThan(0);
+    expect(samples.every((s, k) => k === 0 || samples[k - 1] <= s)).toBe(true);
+  });
+});
+
+describe('cell splitting', () => {
+  it('halves the radius and lowers the power by 10n·log10(2) per split', () => {
+    const tier = splitTier(1, 7, 4, 43);
+    expect(tier.radius).toBe(0.5);
+    expect(tier.reuseDistance).toBeCloseTo(reuseRatio(7) / 2, 12);
+    expect(tier.powerReductionDb).toBeCloseTo(12.04, 2);
+    expect(tier.txPowerDbm).toBeCloseTo(43 - tier.powerReductionDb, 12);
+  });
+
+  it('caps the depth and ignores cells outside the service area', () => {
+    const depths = splitDepths(['0,0', '0,0', '0,0', '9,9', 'x'], 2);
+    expect([...depths.entries()]).toEqual([['0,0', 2]]);
+  });
+
+  it('counts four smaller cells for every split', () => {
+    // 19 cells, then 18 + 4, then 18 + 16, a no-op at the depth cap, then 17 + 4 + 16
+    expect(splitHistory(['0,0', '0,0', '0,0', '1,0'], 2).map(s => s.cells)).toEqual([19, 22, 34, 37]);
+  });
+});
+
+describe('reuse patterns', () => {
+  it('lists each cluster size once, smallest first', () => {
+    expect(validClusterSizes(2).map(p => p.n)).toEqual([1, 3, 4, 7, 12]);
+  });
+
+  it('catalogues every (i, j) that gives N', () => {
+    expect(reuseCatalog(49).find(entry => entry.n === 49)!.patterns.map(p => [p.i, p.j])).toEqual([[7, 0], [5, 3], [3, 5], [0, 7]]);
+  });
+
+  it.each([[1, 0], [1, 1], [2, 1], [2, 2], [3, 0], [4, 2]])('tiles the plane with (i, j) = (%i, %i)', (i, j) => {
+    const check = verifyReuseTiling(i, j);
+    expect(check.valid).toBe(true);
+    expect(check.sets).toBe(clusterSize(i, j));
+  });
+
+  it('needs the coset table when gcd(i, j) > 1', () => {
+    expect(verifyReuseTiling(3, 0).shortcutSets).toBe(3);
+  });
+});
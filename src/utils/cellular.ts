@@ -0,0 +1,595 @@
+import { toDb } from './math';
+
+/** Axial coordinates of a pointy-topped hexagonal cell. */
+export interface Axial {
+  q: number;
+  r: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Cluster size N = i² + ij + j², with the degenerate i = j = 0 treated as 1. */
+export function clusterSize(i: number, j: number): number {
+  const n = i * i + i * j + j * j;
+  return n === 0 ? 1 : n;
+}
+
+/** Largest i or j the simulator renders, enough for every pattern with N ≤ 49. */
+export const MAX_SHIFT = 7;
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b);
+}
+
+const mod = (a: number, n: number) => ((a % n) + n) % n;
+
+// Coset tables of the co-channel lattice, keyed by "i,j"
+const cosetTables = new Map<string, Map<string, number>>();
+
+/**
+ * Coordinates of (q, r) in the basis a = (i, j), b = (-j, i + j) of the
+ * co-channel lattice, scaled by N so they stay integers. Two cells reuse the
+ * same channels exactly when both coordinates agree modulo N.
+ */
+function latticeResidue(q: number, r: number, i: number, j: number, n: number): string {
+  return `${mod((i + j) * q + j * r, n)},${mod(-j * q + i * r, n)}`;
+}
+
+function cosetTable(i: number, j: number): Map<string, number> {
+  const key = `${i},${j}`;
+  let table = cosetTables.get(key);
+  if (!table) {
+    const n = clusterSize(i, j);
+    table = new Map();
+    // N·(1, 0) and N·(0, 1) lie in the lattice, so an N × N patch meets every coset
+    for (let r = 0; r < n && table.size < n; r++) {
+      for (let q = 0; q < n && table.size < n; q++) {
+        const residue = latticeResidue(q, r, i, j, n);
+        if (!table.has(residue)) table.set(residue, table.size);
+      }
+    }
+    cosetTables.set(key, table);
+  }
+  return table;
+}
+
+/**
+ * Channel set of the cell at (q, r): its coset modulo the co-channel lattice
+ * spanned by a = (i, j) and b = (-j, i + j). When gcd(i, j) = 1 the cosets
+ * form a cyclic group and the textbook (q·i + r·(i + j)) mod N numbers them;
+ * otherwise that shortcut only reaches N / gcd² sets (e.g. 3 instead of 9 for
+ * (3, 0)), so the cosets are numbered from a table instead.
+ */
+export function clusterIndex(q: number, r: number, i: number, j: number): number {
+  if (i === 0 && j === 0) return 0;
+  const n = clusterSize(i, j);
+  if (gcd(i, j) === 1) return mod(q * i + r * (i + j), n);
+  return cosetTable(i, j).get(latticeResidue(q, r, i, j, n)) ?? 0;
+}
+
+/** Centre of the cell at (q, r) relative to the origin cell, for cell radius R. */
+export function axialToPoint(q: number, r: number, radius: number): Point {
+  return {
+    x: radius * Math.sqrt(3) * (q + r / 2),
+    y: radius * 1.5 * r,
+  };
+}
+
+/** Corners of a pointy-topped hexagon, clockwise from the upper right. */
+export function hexVertices(center: Point, radius: number): Point[] {
+  return Array.from({ length: 6 }, (_, k) => {
+    const angle = (Math.PI / 180) * (60 * k - 30);
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
+
+/** Hex distance between cells, i.e. the number of cell steps between them. */
+export function hexDistance(a: Axial, b: Axial = { q: 0, r: 0 }): number {
+  const dq = a.q - b.q;
+  const dr = a.r - b.r;
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+}
+
+export interface CoChannelCell extends Axial {
+  tier: number; // 1 for the six nearest co-channel cells, 2 for the next ring of 12, ...
+  distance: number; // Centre-to-centre distance in units of the cell radius
+}
+
+/**
+ * Co-channel cells around the origin, tier by tier. They form a lattice
+ * spanned by a = (i, j) and a rotated by 60°, b = (-j, i + j); tier k is
+ * ring k of that lattice and holds 6k cells.
+ */
+export function coChannelCells(i: number, j: number, tiers: number): CoChannelCell[] {
+  if (i === 0 && j === 0) {
+    i = 1; // N = 1: every neighbour reuses the channels
+  }
+  const cells: CoChannelCell[] = [];
+  for (let m = -tiers; m <= tiers; m++) {
+    for (let n = -tiers; n <= tiers; n++) {
+      const tier = hexDistance({ q: m, r: n });
+      if (tier === 0 || tier > tiers) continue;
+      const q = m * i - n * j;
+      const r = m * j + n * (i + j);
+      const p = axialToPoint(q, r, 1);
+      cells.push({ q, r, tier, distance: Math.hypot(p.x, p.y) });
+    }
+  }
+  return cells.sort((a, b) => a.tier - b.tier || a.distance - b.distance);
+}
+
+/** Reuse ratio Q = D / R = √(3N). */
+export function reuseRatio(n: number): number {
+  return Math.sqrt(3 * n);
+}
+
+/** Textbook estimate S/I = (√(3N))^n / i0, assuming i0 interferers all at distance D. */
+export function approximateSir(clusterN: number, pathLossExponent: number, interferers = 6): number {
+  return Math.pow(reuseRatio(clusterN), pathLossExponent) / interferers;
+}
+
+export type Sectoring = 'omni' | '120' | '60';
+
+export const SECTOR_COUNT: Record<Sectoring, number> = { omni: 1, '120': 3, '60': 6 };
+
+/**
+ * True when a bearing (radians, canvas orientation with y down) falls in the
+ * given sector. Sector edges run through the hexagon's corners, starting at
+ * -30°; each sector is half-open so a bearing on an edge belongs to one sector.
+ */
+export function inSector(bearing: number, sectors: number, index = 0): boolean {
+  if (sectors <= 1) return true;
+  const width = (2 * Math.PI) / sectors;
+  const start = -Math.PI / 6 + index * width;
+  const offset = (((bearing - start) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  return offset < width - 1e-9;
+}
+
+/**
+ * Co-channel cells whose sector 0 antenna points at the serving cell. Every
+ * cell uses the same sector orientation and gives sector k the same channel
+ * subset, so only those sectors reuse the serving sector's channels in its
+ * direction; the rest radiate away from it. Ideal antennas (no back lobe)
+ * are assumed.
+ */
+export function sectorInterferers(cells: CoChannelCell[], sectors: number): CoChannelCell[] {
+  if (sectors <= 1) return cells;
+  return cells.filter(cell => {
+    const c = axialToPoint(cell.q, cell.r, 1);
+    return inSector(Math.atan2(-c.y, -c.x), sectors);
+  });
+}
+
+export interface SirResult {
+  sir: number; // Linear S/I
+  sirDb: number;
+  location: Point; // Mobile position in units of the cell radius, serving cell at the origin
+}
+
+const EDGE_SAMPLES = 24;
+
+/** Downlink S/I at a point (in units of R) served by the origin cell. */
+export function sirAt(point: Point, interferers: CoChannelCell[], pathLossExponent: number): number {
+  const signal = Math.pow(Math.max(Math.hypot(point.x, point.y), 1e-6), -pathLossExponent);
+  let interference = 0;
+  for (const cell of interferers) {
+    const c = axialToPoint(cell.q, cell.r, 1);
+    interference += Math.pow(Math.hypot(point.x - c.x, point.y - c.y), -pathLossExponent);
+  }
+  return interference > 0 ? signal / interference : Infinity;
+}
+
+/**
+ * Worst-case downlink S/I over the serving cell (or its sector 0). S/I only
+ * falls as the mobile moves away from its base station, so the minimum lies
+ * on the cell boundary; the boundary is scanned with every vertex included.
+ */
+export function worstCaseSir(interferers: CoChannelCell[], pathLossExponent: number, sectors = 1): SirResult {
+  const corners = hexVertices({ x: 0, y: 0 }, 1);
+  let worst: SirResult = { sir: Infinity, sirDb: Infinity, location: corners[0] };
+  corners.forEach((a, k) => {
+    const b = corners[(k + 1) % 6];
+    for (let s = 0; s < EDGE_SAMPLES; s++) {
+      const t = s / EDGE_SAMPLES;
+      const location = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      if (!inSector(Math.atan2(location.y, location.x), sectors)) continue;
+      const sir = sirAt(location, interferers, pathLossExponent);
+      if (sir < worst.sir) worst = { sir, sirDb: toDb(sir), location };
+    }
+  });
+  return worst;
+}
+
+export interface ReusePattern {
+  i: number;
+  j: number;
+  n: number;
+}
+
+/** Distinct cluster sizes reachable with 0 ≤ j ≤ i ≤ maxShift, smallest first. */
+export function validClusterSizes(maxShift: number): ReusePattern[] {
+  const byN = new Map<number, ReusePattern>();
+  for (let i = 1; i <= maxShift; i++) {
+    for (let j = 0; j <= i; j++) {
+      const n = clusterSize(i, j);
+      if (!byN.has(n)) byN.set(n, { i, j, n });
+    }
+  }
+  return [...byN.values()].sort((a, b) => a.n - b.n);
+}
+
+/** Every N up to maxN with all the (i, j) that produce it, mirrored pairs included. */
+export function reuseCatalog(maxN: number): { n: number; patterns: ReusePattern[] }[] {
+  const byN = new Map<number, ReusePattern[]>();
+  for (let i = 0; i * i <= maxN; i++) {
+    for (let j = 0; i * i + i * j + j * j <= maxN; j++) {
+      if (i === 0 && j === 0) continue;
+      const n = clusterSize(i, j);
+      byN.set(n, [...(byN.get(n) ?? []), { i, j, n }]);
+    }
+  }
+  return [...byN.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([n, patterns]) => ({ n, patterns: patterns.sort((a, b) => b.i - a.i) }));
+}
+
+export interface TilingCheck {
+  sets: number; // Distinct channel sets found in the patch
+  shiftInvariant: boolean; // Moving by a or b never changes the set
+  cosetsMatch: boolean; // Cells share a set exactly when they differ by a lattice vector
+  minCoChannelDistance: number; // Units of R
+  valid: boolean;
+  shortcutSets: number; // Sets the (q·i + r·(i + j)) mod N shortcut would give
+}
+
+/**
+ * Checks over a patch of cells that the colouring is a reuse tiling: N sets,
+ * each repeated along the co-channel lattice and nowhere else, with the
+ * nearest co-channel cells at D = √(3N)·R.
+ */
+export function verifyReuseTiling(i: number, j: number): TilingCheck {
+  const n = clusterSize(i, j);
+  const extent = Math.ceil(Math.sqrt(3 * n)) + 1;
+  const cells: (Axial & Point & { set: number })[] = [];
+  for (let q = -extent; q <= extent; q++) {
+    for (let r = -extent; r <= extent; r++) {
+      if (hexDistance({ q, r }) > extent) continue;
+      cells.push({ q, r, ...axialToPoint(q, r, 1), set: clusterIndex(q, r, i, j) });
+    }
+  }
+  const a = i === 0 && j === 0 ? { q: 1, r: 0 } : { q: i, r: j };
+  const b = { q: -a.r, r: a.q + a.r };
+  const shiftInvariant = cells.every(c =>
+    clusterIndex(c.q + a.q, c.r + a.r, i, j) === c.set && clusterIndex(c.q + b.q, c.r + b.r, i, j) === c.set
+  );
+
+  let cosetsMatch = true;
+  let minCoChannelDistance = Infinity;
+  for (let x = 0; x < cells.length; x++) {
+    for (let y = x + 1; y < cells.length; y++) {
+      const dq = cells[y].q - cells[x].q;
+      const dr = cells[y].r - cells[x].r;
+      const inLattice = mod((a.q + a.r) * dq + a.r * dr, n) === 0 && mod(-a.r * dq + a.q * dr, n) === 0;
+      const sameSet = cells[x].set === cells[y].set;
+      if (inLattice !== sameSet) cosetsMatch = false;
+      if (sameSet) minCoChannelDistance = Math.min(minCoChannelDistance, Math.hypot(cells[y].x - cells[x].x, cells[y].y - cells[x].y));
+    }
+  }
+
+  const sets = new Set(cells.map(c => c.set)).size;
+  const shortcutSets = new Set(cells.map(c => mod(c.q * i + c.r * (i + j), n))).size;
+  const valid = sets === n && shiftInvariant && cosetsMatch && Math.abs(minCoChannelDistance - reuseRatio(n)) < 1e-9;
+  return { sets, shiftInvariant, cosetsMatch, minCoChannelDistance, valid, shortcutSets };
+}
+
+/** Worst-case S/I of a reuse pattern, with sectoring applied to the interferers. */
+export function patternSir(i: number, j: number, pathLossExponent: number, tiers: number, sectors = 1): SirResult {
+  const interferers = sectorInterferers(coChannelCells(i, j, tiers), sectors);
+  return worstCaseSir(interferers, pathLossExponent, sectors);
+}
+
+/**
+ * Smallest valid cluster whose worst-case S/I (with the given interferer
+ * tiers and sectoring) meets the requirement, or null if none does within
+ * maxShift.
+ */
+export function minimumCluster(requiredDb: number, pathLossExponent: number, tiers: number, maxShift: number, sectors = 1): ReusePattern | null {
+  return validClusterSizes(maxShift).find(p => patternSir(p.i, p.j, pathLossExponent, tiers, sectors).sirDb >= requiredDb) ?? null;
+}
+
+/** Smallest valid cluster meeting the requirement under the (√(3N))^n / i0 estimate. */
+export function minimumClusterApprox(requiredDb: number, pathLossExponent: number, maxShift: number, interferers = 6): ReusePattern | null {
+  return validClusterSizes(maxShift).find(p => toDb(approximateSir(p.n, pathLossExponent, interferers)) >= requiredDb) ?? null;
+}
+
+/** Sector of the site that covers a bearing, 0 to sectors - 1. */
+export function sectorIndex(bearing: number, sectors: number): number {
+  if (sectors <= 1) return 0;
+  const width = (2 * Math.PI) / sectors;
+  const offset = (((bearing + Math.PI / 6) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  return Math.min(sectors - 1, Math.floor(offset / width + 1e-9));
+}
+
+/** Cell containing a point (cube rounding of the fractional axial coordinates). */
+export function pointToAxial(point: Point, radius: number): Axial {
+  const fq = ((Math.sqrt(3) / 3) * point.x - point.y / 3) / radius;
+  const fr = ((2 / 3) * point.y) / radius;
+  const fs = -fq - fr;
+  let q = Math.round(fq);
+  let r = Math.round(fr);
+  const s = Math.round(fs);
+  const dq = Math.abs(q - fq);
+  const dr = Math.abs(r - fr);
+  const ds = Math.abs(s - fs);
+  if (dq > dr && dq > ds) q = -r - s;
+  else if (dr > ds) r = -q - s;
+  return { q, r };
+}
+
+export interface Site extends Axial, Point {
+  cluster: number; // Channel set, from clusterIndex
+}
+
+/** Every base station within `extent` cell steps of the origin, grouped by channel set. */
+export interface SiteGrid {
+  i: number;
+  j: number;
+  extent: number;
+  sites: Site[];
+  byCluster: Site[][];
+}
+
+/** Builds the site grid with positions in units of the cell radius. */
+export function buildSiteGrid(i: number, j: number, extent: number): SiteGrid {
+  const n = clusterSize(i, j);
+  const sites: Site[] = [];
+  const byCluster: Site[][] = Array.from({ length: n }, () => []);
+  for (let q = -extent; q <= extent; q++) {
+    for (let r = -extent; r <= extent; r++) {
+      if (hexDistance({ q, r }) > extent) continue;
+      const site = { q, r, ...axialToPoint(q, r, 1), cluster: clusterIndex(q, r, i, j) };
+      sites.push(site);
+      byCluster[site.cluster].push(site);
+    }
+  }
+  return { i, j, extent, sites, byCluster };
+}
+
+export interface SinrModel {
+  pathLossExponent: number;
+  txPowerDbm: number;
+  noiseFloorDbm: number;
+  sectors: number;
+}
+
+// Physical scale of the map: 1 km cells at 2 GHz, log-distance loss beyond a
+// 100 m free-space reference
+export const CELL_RADIUS_M = 1000;
+const REFERENCE_DISTANCE_M = 100;
+const REFERENCE_LOSS_DB = 78.5;
+const MIN_DISTANCE_M = 10;
+
+/** Received power in dBm at a distance given in units of the cell radius. */
+export function receivedPowerDbm(distance: number, model: SinrModel, cellRadiusM = CELL_RADIUS_M): number {
+  const d = Math.max(distance * cellRadiusM, MIN_DISTANCE_M);
+  return model.txPowerDbm - REFERENCE_LOSS_DB - 10 * model.pathLossExponent * Math.log10(d / REFERENCE_DISTANCE_M);
+}
+
+export interface SinrProbe {
+  serving: Site;
+  signalDbm: number;
+  interferenceDbm: number; // -Infinity when nothing interferes
+  sinrDb: number;
+  strongest: (Site & { powerDbm: number }) | null; // Strongest co-channel interferer
+}
+
+/**
+ * Downlink SINR at a point (units of R) inside the grid. The serving site is
+ * the one whose cell contains the point; every other site with the same
+ * channel set interferes, or with sectoring only those whose same-numbered
+ * sector covers the point.
+ */
+export function probeSinr(point: Point, grid: SiteGrid, model: SinrModel): SinrProbe | null {
+  const cell = pointToAxial(point, 1);
+  if (hexDistance(cell) > grid.extent) return null;
+  const cluster = clusterIndex(cell.q, cell.r, grid.i, grid.j);
+  const serving = grid.byCluster[cluster].find(s => s.q === cell.q && s.r === cell.r)!;
+  const sector = sectorIndex(Math.atan2(point.y - serving.y, point.x - serving.x), model.sectors);
+
+  const signalDbm = receivedPowerDbm(Math.hypot(point.x - serving.x, point.y - serving.y), model);
+  let interference = 0;
+  let strongest: SinrProbe['strongest'] = null;
+  for (const site of grid.byCluster[cluster]) {
+    if (site === serving) continue;
+    if (!inSector(Math.atan2(point.y - site.y, point.x - site.x), model.sectors, sector)) continue;
+    const powerDbm = receivedPowerDbm(Math.hypot(point.x - site.x, point.y - site.y), model);
+    interference += Math.pow(10, powerDbm / 10);
+    if (!strongest || powerDbm > strongest.powerDbm) strongest = { ...site, powerDbm };
+  }
+  const noise = Math.pow(10, model.noiseFloorDbm / 10);
+  return {
+    serving,
+    signalDbm,
+    interferenceDbm: interference > 0 ? 10 * Math.log10(interference) : -Infinity,
+    sinrDb: signalDbm - 10 * Math.log10(interference + noise),
+    strongest
+  };
+}
+
+/**
+ * SINR samples on a regular grid inside the origin cell, i.e. the SINR
+ * distribution over the cell area.
+ */
+export function cellSinrSamples(grid: SiteGrid, model: SinrModel, resolution = 40): number[] {
+  const samples: number[] = [];
+  for (let a = 0; a <= resolution; a++) {
+    for (let b = 0; b <= resolution; b++) {
+      const point = { x: (Math.sqrt(3) / 2) * (2 * a / resolution - 1), y: 2 * b / resolution - 1 };
+      const cell = pointToAxial(point, 1);
+      if (cell.q !== 0 || cell.r !== 0) continue;
+      const probe = probeSinr(point, grid, model);
+      if (probe) samples.push(probe.sinrDb);
+    }
+  }
+  return samples.sort((x, y) => x - y);
+}
+
+// Cell splitting: a cell of radius R splits into cells of radius R/2 on a lattice
+// twice as fine, whose sites include the parent's. Each split quarters the cell
+// area, so the same channels serve four times the traffic in that region.
+export const MAX_SPLIT_DEPTH = 2;
+
+export interface SplitTier {
+  depth: number; // 0 for the original cells
+  radius: number; // Units of the original R
+  reuseDistance: number; // D = Q·R at this tier, units of the original R
+  powerReductionDb: number; // Relative to the original cells
+  txPowerDbm: number;
+}
+
+/**
+ * Radius, reuse distance and transmit power of the cells after `depth`
+ * splits. Keeping the same N keeps Q = D/R, so the S/I at the boundary of a
+ * split cell matches the original if the power drops by 10n·log10(2) dB per
+ * halving of the radius.
+ */
+export function splitTier(depth: number, clusterN: number, pathLossExponent: number, txPowerDbm: number): SplitTier {
+  const radius = Math.pow(2, -depth);
+  const powerReductionDb = 10 * pathLossExponent * depth * Math.log10(2);
+  return {
+    depth,
+    radius,
+    reuseDistance: reuseRatio(clusterN) * radius,
+    powerReductionDb,
+    txPowerDbm: txPowerDbm - powerReductionDb
+  };
+}
+
+// Splits are stored as "q,r" keys, one per click, so the list is also the history
+const SPLIT_KEY_PATTERN = /^-?\d+,-?\d+$/;
+
+export const splitKey = (cell: Axial) => `${cell.q},${cell.r}`;
+
+export function parseSplitKey(key: string): Axial | null {
+  if (!SPLIT_KEY_PATTERN.test(key)) return null;
+  const [q, r] = key.split(',').map(Number);
+  return { q, r };
+}
+
+/**
+ * Split depth of every cell in the service area after applying the splits in
+ * order; a cell split twice reaches R/4.
+ */
+export function splitDepths(splits: readonly string[], extent: number): Map<string, number> {
+  const depths = new Map<string, number>();
+  splits.forEach(key => {
+    const cell = parseSplitKey(key);
+    if (!cell || hexDistance(cell) > extent) return;
+    depths.set(key, Math.min(MAX_SPLIT_DEPTH, (depths.get(key) ?? 0) + 1));
+  });
+  return depths;
+}
+
+/** Cells of the finer lattice that overlap the parent at (q, r), in that lattice's axial coordinates. */
+export function childCells(parent: Axial, depth: number): Axial[] {
+  const scale = Math.pow(2, depth);
+  const reach = scale - 1; // Children whose hexagons cross the parent's boundary
+  const cells: Axial[] = [];
+  for (let dq = -reach; dq <= reach; dq++) {
+    for (let dr = -reach; dr <= reach; dr++) {
+      if (hexDistance({ q: dq, r: dr }) > reach) continue;
+      cells.push({ q: parent.q * scale + dq, r: parent.r * scale + dr });
+    }
+  }
+  return cells;
+}
+
+export interface SplitStep {
+  step: number;
+  cell: Axial | null; // Null for the unsplit baseline
+  depth: number; // Depth the cell reached at this step
+  cellsByDepth: number[]; // Equivalent number of cells of each tier in the service area
+  cells: number; // Equivalent cells in the service area
+}
+
+/** Number of original cells within `extent` steps of the origin. */
+export function serviceAreaCells(extent: number): number {
+  return 1 + 3 * extent * (extent + 1);
+}
+
+/**
+ * Cell counts over the service area after each split. A cell split to depth d
+ * is replaced by 4^d cells of the smaller tier (by area; the children on its
+ * boundary are shared with the neighbours).
+ */
+export function splitHistory(splits: readonly string[], extent: number): SplitStep[] {
+  const cellsByDepth = Array.from({ length: MAX_SPLIT_DEPTH + 1 }, (_, d) => (d === 0 ? serviceAreaCells(extent) : 0));
+  const depths = new Map<string, number>();
+  const steps: SplitStep[] = [{ step: 0, cell: null, depth: 0, cellsByDepth: [...cellsByDepth], cells: cellsByDepth[0] }];
+  splits.forEach(key => {
+    const from = depths.get(key) ?? 0;
+    if (from >= MAX_SPLIT_DEPTH) return;
+    const cell = parseSplitKey(key);
+    if (!cell || hexDistance(cell) > extent) return;
+    depths.set(key, from + 1);
+    cellsByDepth[from] -= Math.pow(4, from);
+    cellsByDepth[from + 1] += Math.pow(4, from + 1);
+    steps.push({
+      step: steps.length,
+      cell,
+      depth: from + 1,
+      cellsByDepth: [...cellsByDepth],
+      cells: cellsByDepth.reduce((sum, c) => sum + c, 0)
+    });
+  });
+  return steps;
+}
+
+// Representative cell of every channel set, the one nearest the origin
+const tileRepresentatives = new Map<string, Axial[]>();
+
+/**
+ * Cluster (tile) of N cells that the cell at (q, r) belongs to, as the
+ * co-channel lattice point the tile hangs from. Every tile holds one cell of
+ * each channel set, taking for each set the copy nearest its lattice point, so
+ * the tiles are compact and translate onto each other.
+ */
+export function clusterTile(q: number, r: number, i: number, j: number): Axial {
+  const key = `${i},${j}`;
+  let representatives = tileRepresentatives.get(key);
+  if (!representatives) {
+    const n = clusterSize(i, j);
+    const extent = Math.ceil(Math.sqrt(3 * n));
+    const best: { cell: Axial; distance: number; angle: number }[] = [];
+    for (let dq = -extent; dq <= extent; dq++) {
+      for (let dr = -extent; dr <= extent; dr++) {
+        const p = axialToPoint(dq, dr, 1);
+        const distance = Math.hypot(p.x, p.y);
+        const angle = (Math.atan2(p.y, p.x) + 2 * Math.PI) % (2 * Math.PI);
+        const set = clusterIndex(dq, dr, i, j);
+        const current = best[set];
+        // Ties on distance go to the smaller bearing, so the choice is deterministic
+        if (!current || distance < current.distance - 1e-9 || (Math.abs(distance - current.distance) < 1e-9 && angle < current.angle)) {
+          best[set] = { cell: { q: dq, r: dr }, distance, angle };
+        }
+      }
+    }
+    representatives = best.map(b => b.cell);
+    tileRepresentatives.set(key, representatives);
+  }
+  const rep = representatives[clusterIndex(q, r, i, j)];
+  return { q: q - rep.q, r: r - rep.r };
+}
+
+/** Axial step to the neighbour across edge k of hexVertices (corner k to corner k + 1). */
+export const EDGE_NEIGHBOURS: Axial[] = [
+  { q: 1, r: 0 },
+  { q: 0, r: 1 },
+  { q: -1, r: 1 },
+  { q: -1, r: 0 },
+  { q: 0, r: -1 },
+  { q: 1, r: -1 }
+];
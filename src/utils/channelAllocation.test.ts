@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { calculateErlangB } from './math';
+import { seededRandom } from './propagation';
+import {
+  advanceAllocation,
+  buildAllocationLayout,
+  createAllocationEngine,
+  fixedAllocationBlocking,
+  type AllocationConfig
+} from './channelAllocation';
+
+// N = 7 reuse over three rings of cells, with a hotspot in the middle
+const CONFIG: AllocationConfig = { i: 2, j: 1, extent: 3, channelsPerCell: 10, cellLoad: 5, hotspotLoad: 9 };
+
+describe('buildAllocationLayout', () => {
+  it('assigns each cluster its own channel set', () => {
+    const layout = buildAllocationLayout(CONFIG);
+    expect(layout.cells).toHaveLength(37);
+    expect(layout.totalChannels).toBe(70);
+    expect(layout.cells.filter(c => c.hotspot)).toHaveLength(7);
+  });
+
+  it('never gives the same nominal channel to cells within the reuse distance', () => {
+    const layout = buildAllocationLayout(CONFIG);
+    layout.cells.forEach(cell => {
+      expect(cell.neighbours.every(k => cell.interferers.includes(k))).toBe(true);
+      cell.interferers.forEach(k => {
+        expect(layout.cells[k].nominal.some(ch => cell.nominal.includes(ch))).toBe(false);
+      });
+    });
+  });
+});
+
+describe('fixedAllocationBlocking', () => {
+  it('is Erlang B per cell, weighted by load across the system', () => {
+    const layout = buildAllocationLayout(CONFIG);
+    const { perCell, system } = fixedAllocationBlocking(layout);
+    const ordinary = calculateErlangB(10, 5);
+    const hotspot = calculateErlangB(10, 9);
+    layout.cells.forEach((cell, k) => expect(perCell[k]).toBeCloseTo(cell.hotspot ? hotspot : ordinary, 12));
+    expect(system).toBeCloseTo((30 * 5 * ordinary + 7 * 9 * hotspot) / (30 * 5 + 7 * 9), 12);
+  });
+});
+
+describe('allocation engine', () => {
+  const engine = createAllocationEngine(CONFIG, seededRandom(1));
+  advanceAllocation(engine, 300);
+  const blocking = (strategy: 'fixed' | 'borrowing' | 'dynamic') => engine.states[strategy].blocked / engine.states[strategy].offered;
+
+  it('offers the same calls to every strategy', () => {
+    expect(engine.states.borrowing.offered).toBe(engine.states.fixed.offered);
+    expect(engine.states.dynamic.offered).toBe(engine.states.fixed.offered);
+  });
+
+  it('matches Erlang B under fixed allocation', () => {
+    expect(blocking('fixed')).toBeCloseTo(fixedAllocationBlocking(engine.layout).system, 2);
+  });
+
+  it('lets borrowing and dynamic allocation relieve the hotspot', () => {
+    expect(blocking('borrowing')).toBeLessThan(blocking('fixed'));
+    expect(blocking('dynamic')).toBeLessThan(blocking('fixed'));
+  });
+
+  it('keeps co-channel cells apart under every strategy', () => {
+    const s = engine.layout.totalChannels;
+    (['fixed', 'borrowing', 'dynamic'] as const).forEach(strategy => {
+      const { used } = engine.states[strategy];
+      engine.layout.cells.forEach(cell => {
+        for (let ch = 0; ch < s; ch++) {
+          if (!used[cell.index * s + ch]) continue;
+          expect(cell.interferers.some(k => used[k * s + ch])).toBe(false);
+        }
+      });
+    });
+  });
+});
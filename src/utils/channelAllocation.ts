@@ -0,0 +1,324 @@
+import { calculateErlangB } from './math';
+import { exponential } from './trunking';
+import {
+  axialToPoint,
+  clusterIndex,
+  clusterSize,
+  hexDistance,
+  reuseRatio,
+  type Axial,
+  type Point
+} from './cellular';
+
+export type AllocationStrategy = 'fixed' | 'borrowing' | 'dynamic';
+
+export const ALLOCATION_STRATEGIES: AllocationStrategy[] = ['fixed', 'borrowing', 'dynamic'];
+
+export interface AllocationConfig {
+  i: number;
+  j: number;
+  extent: number; // Cells within this many steps of the centre take part
+  channelsPerCell: number; // Nominal set size; the system has N times as many
+  cellLoad: number; // Offered traffic per ordinary cell, in Erlangs
+  hotspotLoad: number; // Offered traffic of the centre cell and its six neighbours
+}
+
+export interface AllocationCell extends Axial, Point {
+  index: number;
+  cluster: number;
+  load: number; // Erlangs, with a mean holding time of one hour
+  hotspot: boolean;
+  neighbours: number[]; // Adjacent cells, the ones a cell may borrow from
+  interferers: number[]; // Cells closer than the reuse distance D
+  nominal: number[]; // Channels the reuse pattern assigns to the cell
+}
+
+export interface AllocationLayout {
+  config: AllocationConfig;
+  cells: AllocationCell[];
+  totalChannels: number;
+}
+
+const HOTSPOT_EXTENT = 1;
+
+/**
+ * Cells of the service area with their nominal channel sets. Two cells may
+ * share a channel only when their centres are at least D = √(3N)·R apart.
+ */
+export function buildAllocationLayout(config: AllocationConfig): AllocationLayout {
+  const n = clusterSize(config.i, config.j);
+  const reuseDistance = reuseRatio(n);
+  const cells: AllocationCell[] = [];
+  for (let q = -config.extent; q <= config.extent; q++) {
+    for (let r = -config.extent; r <= config.extent; r++) {
+      if (hexDistance({ q, r }) > config.extent) continue;
+      const cluster = clusterIndex(q, r, config.i, config.j);
+      const hotspot = hexDistance({ q, r }) <= HOTSPOT_EXTENT;
+      cells.push({
+        q,
+        r,
+        ...axialToPoint(q, r, 1),
+        index: cells.length,
+        cluster,
+        load: hotspot ? config.hotspotLoad : config.cellLoad,
+        hotspot,
+        neighbours: [],
+        interferers: [],
+        nominal: Array.from({ length: config.channelsPerCell }, (_, k) => cluster * config.channelsPerCell + k)
+      });
+    }
+  }
+  cells.forEach(a => {
+    cells.forEach(b => {
+      if (a === b) return;
+      if (hexDistance(a, b) === 1) a.neighbours.push(b.index);
+      if (Math.hypot(a.x - b.x, a.y - b.y) < reuseDistance - 1e-9) a.interferers.push(b.index);
+    });
+  });
+  return { config, cells, totalChannels: n * config.channelsPerCell };
+}
+
+interface Departure {
+  time: number;
+  cell: number;
+  channel: number;
+  borrowed: boolean;
+}
+
+export interface CellTally {
+  offered: number;
+  blocked: number;
+  borrowed: number; // Calls carried on a channel borrowed from a neighbour
+}
+
+/** Channel occupancy and counters of one allocation strategy. */
+export interface StrategyState {
+  strategy: AllocationStrategy;
+  used: Uint8Array; // used[cell * S + channel]
+  locks: Uint16Array; // Borrowing only: co-channel locks per cell and channel
+  busy: number[]; // Calls in progress per cell
+  departures: Departure[]; // Sorted by time
+  tally: CellTally[];
+  offered: number;
+  blocked: number;
+}
+
+export interface AllocationSample {
+  time: number;
+  blocking: Record<AllocationStrategy, number>; // Cumulative blocking up to this time
+}
+
+/**
+ * The three strategies run side by side on the same arrivals (cell, time and
+ * holding time), so their blocking can be compared without the noise of
+ * separate random streams.
+ */
+export interface AllocationEngine {
+  layout: AllocationLayout;
+  clock: number;
+  next: { time: number; cell: number; holding: number };
+  states: Record<AllocationStrategy, StrategyState>;
+  samples: AllocationSample[];
+  sampleInterval: number; // Hours; doubles whenever the history is thinned
+  nextSample: number;
+  rng: () => number;
+}
+
+const MAX_SAMPLES = 240;
+const INITIAL_SAMPLE_INTERVAL = 0.25;
+
+function createState(strategy: AllocationStrategy, layout: AllocationLayout): StrategyState {
+  const size = layout.cells.length * layout.totalChannels;
+  return {
+    strategy,
+    used: new Uint8Array(size),
+    locks: new Uint16Array(size),
+    busy: layout.cells.map(() => 0),
+    departures: [],
+    tally: layout.cells.map(() => ({ offered: 0, blocked: 0, borrowed: 0 })),
+    offered: 0,
+    blocked: 0
+  };
+}
+
+function drawArrival(layout: AllocationLayout, from: number, rng: () => number): AllocationEngine['next'] {
+  const total = layout.cells.reduce((sum, c) => sum + c.load, 0);
+  if (total <= 0) return { time: Infinity, cell: 0, holding: 0 };
+  let pick = rng() * total;
+  let cell = 0;
+  while (cell < layout.cells.length - 1 && pick >= layout.cells[cell].load) {
+    pick -= layout.cells[cell].load;
+    cell++;
+  }
+  return { time: from + exponential(total, rng), cell, holding: exponential(1, rng) };
+}
+
+export function createAllocationEngine(config: AllocationConfig, rng: () => number = Math.random): AllocationEngine {
+  const layout = buildAllocationLayout(config);
+  return {
+    layout,
+    clock: 0,
+    next: drawArrival(layout, 0, rng),
+    states: {
+      fixed: createState('fixed', layout),
+      borrowing: createState('borrowing', layout),
+      dynamic: createState('dynamic', layout)
+    },
+    samples: [{ time: 0, blocking: { fixed: 0, borrowing: 0, dynamic: 0 } }],
+    sampleInterval: INITIAL_SAMPLE_INTERVAL,
+    nextSample: INITIAL_SAMPLE_INTERVAL,
+    rng
+  };
+}
+
+/** True when no cell within the reuse distance of `cell` (nor the cell itself) uses the channel. */
+function clearOfInterference(state: StrategyState, layout: AllocationLayout, cell: number, channel: number): boolean {
+  const s = layout.totalChannels;
+  if (state.used[cell * s + channel]) return false;
+  return layout.cells[cell].interferers.every(k => !state.used[k * s + channel]);
+}
+
+/** Nominal channel that the cell itself can still use (borrowing: free and not locked). */
+function freeNominal(state: StrategyState, layout: AllocationLayout, cell: number): number[] {
+  const s = layout.totalChannels;
+  return layout.cells[cell].nominal.filter(ch => !state.used[cell * s + ch] && !state.locks[cell * s + ch]);
+}
+
+/**
+ * Picks a channel for a call in `cell`, or -1 when it is blocked.
+ *
+ * Fixed: only the cell's nominal set. Borrowing: the nominal set first, then
+ * a channel from the neighbour with the most free channels, provided no cell
+ * within D of the borrower uses it; the channel is then locked in every cell
+ * within D until the call ends. Dynamic: any channel of the system that is
+ * clear of interference, preferring the one already reused by the most cells
+ * so that the reuse pattern stays packed.
+ */
+function selectChannel(state: StrategyState, layout: AllocationLayout, cell: number): { channel: number; borrowed: boolean } {
+  const s = layout.totalChannels;
+  if (state.strategy === 'fixed') {
+    const channel = layout.cells[cell].nominal.find(ch => !state.used[cell * s + ch]);
+    return { channel: channel ?? -1, borrowed: false };
+  }
+
+  if (state.strategy === 'borrowing') {
+    const own = freeNominal(state, layout, cell);
+    if (own.length > 0) return { channel: own[0], borrowed: false };
+    const lenders = layout.cells[cell].neighbours
+      .map(k => ({ k, free: freeNominal(state, layout, k) }))
+      .sort((a, b) => b.free.length - a.free.length);
+    for (const lender of lenders) {
+      const channel = lender.free.find(ch => !state.locks[cell * s + ch] && clearOfInterference(state, layout, cell, ch));
+      if (channel !== undefined) return { channel, borrowed: true };
+    }
+    return { channel: -1, borrowed: false };
+  }
+
+  let best = -1;
+  let bestReuse = -1;
+  for (let ch = 0; ch < s; ch++) {
+    if (!clearOfInterference(state, layout, cell, ch)) continue;
+    let reuse = 0;
+    for (let k = 0; k < layout.cells.length; k++) reuse += state.used[k * s + ch];
+    if (reuse > bestReuse) {
+      best = ch;
+      bestReuse = reuse;
+    }
+  }
+  return { channel: best, borrowed: false };
+}
+
+function setLocks(state: StrategyState, layout: AllocationLayout, cell: number, channel: number, delta: number) {
+  const s = layout.totalChannels;
+  layout.cells[cell].interferers.forEach(k => {
+    state.locks[k * s + channel] += delta;
+  });
+}
+
+function offer(state: StrategyState, layout: AllocationLayout, cell: number, time: number, holding: number) {
+  const tally = state.tally[cell];
+  tally.offered++;
+  state.offered++;
+  const { channel, borrowed } = selectChannel(state, layout, cell);
+  if (channel < 0) {
+    tally.blocked++;
+    state.blocked++;
+    return;
+  }
+  state.used[cell * layout.totalChannels + channel] = 1;
+  state.busy[cell]++;
+  if (borrowed) {
+    tally.borrowed++;
+    setLocks(state, layout, cell, channel, 1);
+  }
+  const departure = { time: time + holding, cell, channel, borrowed };
+  // Binary insertion keeps the departures sorted
+  let lo = 0;
+  let hi = state.departures.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (state.departures[mid].time <= departure.time) lo = mid + 1;
+    else hi = mid;
+  }
+  state.departures.splice(lo, 0, departure);
+}
+
+function release(state: StrategyState, layout: AllocationLayout, departure: Departure) {
+  state.used[departure.cell * layout.totalChannels + departure.channel] = 0;
+  state.busy[departure.cell]--;
+  if (departure.borrowed) setLocks(state, layout, departure.cell, departure.channel, -1);
+}
+
+function blockingRatio(state: StrategyState): number {
+  return state.offered > 0 ? state.blocked / state.offered : 0;
+}
+
+function recordSample(engine: AllocationEngine) {
+  engine.samples.push({
+    time: engine.nextSample,
+    blocking: {
+      fixed: blockingRatio(engine.states.fixed),
+      borrowing: blockingRatio(engine.states.borrowing),
+      dynamic: blockingRatio(engine.states.dynamic)
+    }
+  });
+  engine.nextSample += engine.sampleInterval;
+  if (engine.samples.length > MAX_SAMPLES) {
+    // Keep every other sample and halve the sampling rate from here on
+    engine.samples = engine.samples.filter((_, k) => k % 2 === 0);
+    engine.sampleInterval *= 2;
+    engine.nextSample = engine.samples[engine.samples.length - 1].time + engine.sampleInterval;
+  }
+}
+
+/** Processes every departure and arrival up to `until`, in time order, for all three strategies. */
+export function advanceAllocation(engine: AllocationEngine, until: number) {
+  const { layout } = engine;
+  for (;;) {
+    const time = Math.min(engine.next.time, engine.nextSample, until);
+    // Calls that end before the next arrival free their channels first
+    ALLOCATION_STRATEGIES.forEach(strategy => {
+      const state = engine.states[strategy];
+      while (state.departures.length > 0 && state.departures[0].time <= time) {
+        release(state, layout, state.departures.shift()!);
+      }
+    });
+    engine.clock = time;
+    if (time === until) return;
+    if (time === engine.nextSample) {
+      recordSample(engine);
+      continue;
+    }
+    const { cell, holding } = engine.next;
+    ALLOCATION_STRATEGIES.forEach(strategy => offer(engine.states[strategy], layout, cell, time, holding));
+    engine.next = drawArrival(layout, time, engine.rng);
+  }
+}
+
+/** Erlang B blocking of a cell under fixed allocation, and the load-weighted system average. */
+export function fixedAllocationBlocking(layout: AllocationLayout): { perCell: number[]; system: number } {
+  const perCell = layout.cells.map(c => calculateErlangB(layout.config.channelsPerCell, c.load));
+  const offered = layout.cells.reduce((sum, c) => sum + c.load, 0);
+  const blocked = layout.cells.reduce((sum, c, k) => sum + c.load * perCell[k], 0);
+  return { perCell, system: offered > 0 ? blocked / offered : 0 };
+}
@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest';
+import { pathLoss, shadowAt, shadowingField, type HataArea, type PathLossModel } from './propagation';
+import { BUILT_IN_SCENARIOS, type ScenarioParams } from './scenarios';
+import {
+  bestMargin,
+  initialStation,
+  l3Coefficient,
+  runHandoffSweep,
+  simulateRun,
+  type BaseStation,
+  type HandoffConfig,
+  type HandoffMode,
+  type Measure,
+  type SpeedEstimator,
+  type SweepPoint
+} from './handoff';
+
+const BASE: HandoffConfig = {
+  mode: 'hysteresis',
+  speed: 36, // 10 m/s
+  length: 1000,
+  minPower: -200, // Never drops unless a test says so
+  thresholdMargin: 10,
+  hysteresisMargin: 6,
+  a3Offset: 3,
+  a3Hysteresis: 1,
+  timeToTrigger: 0,
+  filterK: 0 // No layer-3 smoothing
+};
+
+// Two stations whose signals cross at 500 m
+const crossing: Measure = pos => [-50 - 0.03 * pos, -50 - 0.03 * (1000 - pos)];
+
+const handoffPositions = (config: HandoffConfig, measure: Measure) =>
+  simulateRun(config, measure).events.filter(e => e.type === 'handoff').map(e => e.pos);
+
+describe('l3Coefficient', () => {
+  it('uses a = 1/2^(k/4) for 200 ms samples', () => {
+    expect(l3Coefficient(4, 0.2)).toBeCloseTo(0.5, 12);
+    expect(l3Coefficient(0)).toBe(1);
+  });
+
+  it('keeps the time constant for other sample periods', () => {
+    // Five 40 ms samples forget as much as one 200 ms sample
+    expect((1 - l3Coefficient(4, 0.04)) ** 5).toBeCloseTo(1 - l3Coefficient(4, 0.2), 12);
+  });
+});
+
+describe('hysteresis', () => {
+  it('hands off once the neighbour is H dB stronger', () => {
+    // The gap grows 6 dB per 100 m from the crossing, so 6 dB is reached at 600 m; ticks are 10 m apart
+    expect(handoffPositions(BASE, crossing)).toEqual([610]);
+  });
+});
+
+describe('event A3', () => {
+  const a3: HandoffConfig = { ...BASE, mode: 'a3' };
+
+  it('hands off as soon as Mn − Hys > Ms + Off without a time-to-trigger', () => {
+    // A 4 dB gap at about 567 m, sampled every 0.4 m
+    const [pos] = handoffPositions(a3, crossing);
+    expect(pos).toBeGreaterThan(566.6);
+    expect(pos).toBeLessThan(567.2);
+  });
+
+  it('delays the handoff by the time-to-trigger', () => {
+    const [immediate] = handoffPositions(a3, crossing);
+    const [delayed] = handoffPositions({ ...a3, timeToTrigger: 1280 }, crossing);
+    expect(delayed - immediate).toBeCloseTo(12.8, 0);
+  });
+
+  it('ignores a fade that is shorter than the time-to-trigger', () => {
+    // The neighbour is 10 dB stronger for half a second only; a handoff to it comes straight back
+    const fade: Measure = pos => [-60, pos >= 400 && pos < 405 ? -50 : -80];
+    expect(handoffPositions({ ...a3, timeToTrigger: 320 }, fade)).toHaveLength(2);
+    expect(handoffPositions({ ...a3, timeToTrigger: 640 }, fade)).toHaveLength(0);
+  });
+});
+
+describe('drops', () => {
+  it('ends the run when the serving cell falls below Pmin', () => {
+    const run = simulateRun({ ...BASE, minPower: -70, hysteresisMargin: 20 }, crossing);
+    expect(run.stats.drops).toBe(1);
+    expect(run.stats.tooLate).toBe(1);
+    expect(run.events[run.events.length - 1].pos).toBeCloseTo(670, 6);
+  });
+});
+
+describe('bestMargin', () => {
+  const point = (margin: number, handoffs: number, pingPongRate: number, dropProbability: number): SweepPoint => ({
+    margin, handoffs, pingPongRate, dropProbability, handoffsError: 0, dropError: 0, meanHandoffPos: null
+  });
+
+  it('takes the fewest handoffs among equally safe margins', () => {
+    expect(bestMargin([point(0, 5, 0.1, 0.2), point(2, 2, 0.05, 0.205), point(4, 1, 0, 0.3)])).toBe(2);
+  });
+
+  it('rules out margins that mostly ping-pong', () => {
+    // 0 dB drops least, but most of its handoffs bounce straight back
+    expect(bestMargin([point(0, 25, 0.62, 0.1), point(2, 8, 0.45, 0.12), point(4, 2, 0.15, 0.14), point(6, 1.5, 0.05, 0.2)])).toBe(4);
+  });
+
+  it('falls back to every margin when all of them ping-pong', () => {
+    expect(bestMargin([point(0, 25, 0.6, 0.1), point(2, 10, 0.5, 0.2)])).toBe(0);
+  });
+
+  it('has nothing to recommend without points', () => {
+    expect(bestMargin([])).toBeNull();
+  });
+});
+
+describe('runHandoffSweep', () => {
+  it('replays the same traversals at every margin', () => {
+    const noisy = (trial: number): Measure => pos => {
+      const wobble = 3 * Math.sin(pos / (20 + trial));
+      return [-50 - 0.03 * pos + wobble, -50 - 0.03 * (1000 - pos) - wobble];
+    };
+    const result = runHandoffSweep(BASE, 'hysteresisMargin', [0, 6, 12], 5, noisy);
+    expect(result.traversals).toBe(5);
+    expect(result.points.map(p => p.margin)).toEqual([0, 6, 12]);
+    expect(result.points[0].handoffs).toBeGreaterThan(result.points[2].handoffs);
+    expect(result.points[2].pingPongRate).toBe(0);
+  });
+});
+
+describe('umbrella speed estimate', () => {
+  const microcells = (positions: number[], length: number) => {
+    const sites = [...positions, length / 2];
+    const measure: Measure = pos => sites.map((site, k) =>
+      k === positions.length ? -60 : -30 - 40 * Math.log10(Math.abs(pos - site) + 10)
+    );
+    return { sites, measure };
+  };
+
+  // The UE may move to the umbrella; the estimate keeps tracking the microcells either way
+  const finalEstimate = (positions: number[], speed: number, estimator: SpeedEstimator) => {
+    const { sites, measure } = microcells(positions, 2000);
+    const config: HandoffConfig = {
+      ...BASE,
+      speed,
+      length: 2000,
+      hysteresisMargin: 3,
+      umbrella: { station: positions.length, positions: sites, cellSize: 400, speedThreshold: 40, estimator }
+    };
+    const run = simulateRun(config, measure, initialStation(config, measure(0)));
+    return run.umbrella?.estimate ?? null;
+  };
+
+  it('waits for a full cell before estimating from dwell times', () => {
+    // One crossing only: the first cell was entered before the run began
+    expect(finalEstimate([200, 1800], 60, 'dwell')).toBeNull();
+  });
+
+  it.each([10, 35, 60, 100])('reads %i km/h from evenly spaced microcells', speed => {
+    const estimate = finalEstimate([200, 600, 1000, 1400, 1800], speed, 'dwell');
+    expect(estimate).not.toBeNull();
+    expect(Math.abs(estimate! - speed) / speed).toBeLessThan(0.1);
+  });
+
+  it('uses the actual site spacing rather than the nominal cell size', () => {
+    const estimate = finalEstimate([200, 400, 1000, 1200, 1800], 50, 'dwell');
+    expect(Math.abs(estimate! - 50) / 50).toBeLessThan(0.1);
+  });
+
+  it('counts the distance crossed within the window for the rate estimator', () => {
+    // Only whole crossings count, so the estimate moves in steps of one spacing per window
+    const estimate = finalEstimate([200, 600, 1000, 1400, 1800], 60, 'rate');
+    expect(estimate).not.toBeNull();
+    expect(Math.abs(estimate! - 60) / 60).toBeLessThan(0.15);
+  });
+});
+
+/**
+ * The run the handoff simulator sets up for a built-in scenario, with the
+ * simulator's own defaults for every parameter the scenario leaves out.
+ * `params` changes the scenario itself, `overrides` the resulting config.
+ */
+function scenarioSetup(name: string, overrides: Partial<HandoffConfig> = {}, params: ScenarioParams = {}) {
+  const scenario = BUILT_IN_SCENARIOS.find(s => s.moduleId === 'handoff' && s.name === name);
+  if (!scenario) throw new Error(`No handoff scenario named ${name}`);
+  const p = {
+    handoffMode: 'hysteresis', speed: 50, thresholdMargin: 10, hysteresisMargin: 6, environment: 'highway',
+    a3Offset: 3, a3Hysteresis: 1, timeToTrigger: 320, filterK: 4,
+    pathLossModel: 'simple', txPower: 30, frequency: 900, baseHeight: 30, mobileHeight: 1.5, referenceDistance: 100, hataArea: 'urban',
+    shadowing: true, shadowSigma: 4, decorrelation: 50, stationCorrelation: 0.5, seed: 1,
+    corridor: false, corridorLength: 6000, stations: [] as BaseStation[],
+    umbrella: false, umbrellaPower: 43, umbrellaHeight: 50, speedThreshold: 40, speedEstimator: 'dwell',
+    ...scenario.params,
+    ...params
+  } as Record<string, any>;
+
+  const length: number = p.corridor ? p.corridorLength : p.environment === 'urban' ? 1000 : 10000;
+  const route: BaseStation[] = p.corridor
+    ? [...p.stations].sort((a: BaseStation, b: BaseStation) => a.pos - b.pos)
+    : [{ id: 1, pos: 0, txPower: p.txPower, height: p.baseHeight }, { id: 2, pos: length, txPower: p.txPower, height: p.baseHeight }];
+  const stations = p.umbrella ? [...route, { id: 0, pos: length / 2, txPower: p.umbrellaPower, height: p.umbrellaHeight }] : route;
+  const link = {
+    frequency: p.frequency, mobileHeight: p.mobileHeight, referenceDistance: p.referenceDistance,
+    exponent: p.environment === 'urban' ? 4 : 3, area: p.hataArea as HataArea
+  };
+  const field = p.shadowing
+    ? shadowingField({ sigma: p.shadowSigma, decorrelation: p.decorrelation, correlation: p.stationCorrelation, stations: stations.length, length, seed: p.seed })
+    : null;
+  const measure: Measure = x => stations.map((s, k) =>
+    s.txPower - pathLoss(p.pathLossModel as PathLossModel, Math.abs(x - s.pos), { ...link, baseHeight: s.height }) + (field ? shadowAt(field, k, x) : 0)
+  );
+  const cellSize = route.length > 1 ? (route[route.length - 1].pos - route[0].pos) / (route.length - 1) : length;
+  const config: HandoffConfig = {
+    mode: p.handoffMode as HandoffMode, speed: p.speed, length, minPower: -90,
+    thresholdMargin: p.thresholdMargin, hysteresisMargin: p.hysteresisMargin,
+    a3Offset: p.a3Offset, a3Hysteresis: p.a3Hysteresis, timeToTrigger: p.timeToTrigger, filterK: p.filterK,
+    umbrella: p.umbrella
+      ? { station: route.length, positions: stations.map(s => s.pos), cellSize, speedThreshold: p.speedThreshold, estimator: p.speedEstimator as SpeedEstimator }
+      : undefined,
+    ...overrides
+  };
+  return { config, measure, run: () => simulateRun(config, measure, initialStation(config, measure(0))) };
+}
+
+describe('built-in handoff scenarios', () => {
+  it('Hysteresis on the highway: one handoff past the midpoint', () => {
+    const run = scenarioSetup('Hysteresis on the highway').run();
+    expect(run.stats).toMatchObject({ handoffs: 1, drops: 0 });
+    expect(run.events[0].pos).toBeGreaterThan(5000);
+  });
+
+  it('Rural Hata macrocells: hands off at about 6 km', () => {
+    const run = scenarioSetup('Rural Hata macrocells').run();
+    expect(run.stats).toMatchObject({ handoffs: 1, drops: 0 });
+    expect(run.events[0].pos).toBeGreaterThan(5800);
+    expect(run.events[0].pos).toBeLessThan(6200);
+  });
+
+  it('Late handoff: a 20 dB margin hands off deep into BS 2 territory', () => {
+    const run = scenarioSetup('Late handoff').run();
+    expect(run.stats).toMatchObject({ handoffs: 1, drops: 0 });
+    expect(run.events[0].pos).toBeGreaterThan(8000);
+  });
+
+  it('Shadowing without hysteresis: 19 handoffs between 3.4 and 6.2 km', () => {
+    const run = scenarioSetup('Shadowing without hysteresis').run();
+    const handoffs = run.events.filter(e => e.type === 'handoff');
+    expect(handoffs).toHaveLength(19);
+    expect(handoffs[0].pos).toBeGreaterThan(3300);
+    expect(handoffs[handoffs.length - 1].pos).toBeLessThan(6300);
+  });
+
+  it('A3 time-to-trigger: 320 ms hands off three times, 1280 ms once at about 5.4 km', () => {
+    expect(scenarioSetup('A3 time-to-trigger', { timeToTrigger: 320 }).run().stats.handoffs).toBe(3);
+    const run = scenarioSetup('A3 time-to-trigger').run();
+    expect(run.stats.handoffs).toBe(1);
+    expect(run.events[0].pos).toBeGreaterThan(5300);
+    expect(run.events[0].pos).toBeLessThan(5500);
+  });
+
+  it('Four-cell corridor: three handoffs without fading, five with it', () => {
+    expect(scenarioSetup('Four-cell corridor', {}, { shadowing: false }).run().stats.handoffs).toBe(3);
+    expect(scenarioSetup('Four-cell corridor').run().stats.handoffs).toBe(5);
+  });
+
+  it('Corridor with a coverage hole: two handoffs, then a drop between 5.5 and 6 km', () => {
+    const run = scenarioSetup('Corridor with a coverage hole').run();
+    expect(run.stats).toMatchObject({ handoffs: 2, drops: 1 });
+    const drop = run.events[run.events.length - 1];
+    expect(drop.pos).toBeGreaterThan(5500);
+    expect(drop.pos).toBeLessThan(6000);
+  });
+
+  it('Umbrella over microcells: fast cars move to the umbrella after one full dwell', () => {
+    const { config, run } = scenarioSetup('Umbrella over microcells');
+    const result = run();
+    expect(result.stats).toMatchObject({ handoffs: 2, drops: 0 });
+    expect(result.serving).toBe(config.umbrella!.station);
+    expect(result.events[1].pos).toBeGreaterThan(800);
+    expect(result.events[1].pos).toBeLessThan(900);
+  });
+
+  it.each([10, 20, 30, 35])('Umbrella over microcells: %i km/h stays in the microcells to the end', speed => {
+    const { config, run } = scenarioSetup('Umbrella over microcells', { speed });
+    const result = run();
+    expect(result.stats).toMatchObject({ handoffs: 4, drops: 0 });
+    expect(result.events.every(e => e.to !== config.umbrella!.station)).toBe(true);
+  });
+});
@@ -0,0 +1,556 @@
+export type HandoffMode = 'threshold' | 'hysteresis' | 'a3';
+
+export const HANDOFF_MODES: HandoffMode[] = ['threshold', 'hysteresis', 'a3'];
+
+/** The timeToTrigger values RRC can signal, in ms. */
+export const TTT_VALUES = [0, 40, 64, 80, 100, 128, 160, 256, 320, 480, 512, 640, 1024, 1280, 2560, 5120];
+
+export const TICK_SECONDS = 1; // Simulated time per step of the run
+export const MEASUREMENT_PERIOD = 0.04; // s; A3 runs measure this often within a tick
+export const PING_PONG_TIME = 5; // s; returning to the previous cell sooner counts as a ping-pong
+
+const L3_REFERENCE_PERIOD = 0.2; // s; the filter coefficient k is defined for 200 ms samples
+const TRACE_POINTS = 500;
+
+export interface BaseStation {
+  id: number;
+  pos: number; // Position along the route, m
+  txPower: number; // dBm
+  height: number; // Antenna height, m
+}
+
+export const MAX_STATIONS = 8;
+
+export type SpeedEstimator = 'dwell' | 'rate';
+
+export const SPEED_ESTIMATORS: SpeedEstimator[] = ['dwell', 'rate'];
+
+/** A UE estimated this far below the threshold returns to the microcells. */
+export const SPEED_HYSTERESIS = 0.2;
+
+/** Full microcell dwells the dwell estimate averages over. */
+export const DWELL_CELLS = 2;
+
+export interface UmbrellaConfig {
+  station: number; // Index of the umbrella macro cell; every other station is a microcell
+  positions: number[]; // Position of every station along the route, m
+  cellSize: number; // Typical microcell spacing, m; sets the rate estimator's window
+  speedThreshold: number; // km/h; faster UEs are moved to the umbrella cell
+  estimator: SpeedEstimator;
+}
+
+export interface HandoffConfig {
+  mode: HandoffMode;
+  speed: number; // km/h
+  length: number; // End of the route, m
+  minPower: number; // Usable threshold Pmin, dBm
+  thresholdMargin: number; // Δ, dB
+  hysteresisMargin: number; // H, dB
+  a3Offset: number; // Off, dB
+  a3Hysteresis: number; // Hys, dB
+  timeToTrigger: number; // ms
+  filterK: number; // L3 filter coefficient k
+  umbrella?: UmbrellaConfig; // Macro/micro overlay with speed-based layer assignment
+}
+
+/** RSRP of every base station at a position along the route, in dBm. */
+export type Measure = (pos: number) => number[];
+
+export interface HandoffEvent {
+  type: 'handoff' | 'drop';
+  pos: number;
+  time: number;
+  from: number;
+  to: number; // Same as `from` for a drop
+  pingPong: boolean; // Back to the cell just left within PING_PONG_TIME
+  tooLate: boolean; // A drop while another station was stronger
+}
+
+export interface TracePoint {
+  pos: number;
+  measured: number[];
+  filtered: number[];
+  serving: number;
+  margin: number; // Best neighbour minus serving cell, filtered, dB
+  ttt: number; // Fraction of the time-to-trigger elapsed, 0–1
+}
+
+export interface HandoffStats {
+  handoffs: number;
+  pingPongs: number;
+  drops: number;
+  tooLate: number;
+}
+
+export interface MicroCrossing {
+  time: number; // s
+  from: number;
+  to: number;
+}
+
+export interface UmbrellaState {
+  micro: number; // Microcell the UE is in, whichever layer serves it
+  crossings: MicroCrossing[]; // Every move into another microcell
+  estimate: number | null; // Estimated speed, km/h
+}
+
+export interface HandoffRun {
+  time: number; // s
+  pos: number; // m
+  serving: number;
+  previous: number | null; // Cell served before the last handoff
+  lastHandoff: number; // Time of the last handoff, s
+  filtered: number[] | null; // L3-filtered RSRP (A3 only)
+  target: number | null; // Neighbour whose A3 entering condition holds
+  tttElapsed: number; // s
+  umbrella: UmbrellaState | null;
+  events: HandoffEvent[];
+  trace: TracePoint[];
+  stats: HandoffStats;
+  done: boolean;
+}
+
+export function createHandoffRun(serving = 0): HandoffRun {
+  return {
+    time: 0,
+    pos: 0,
+    serving,
+    previous: null,
+    lastHandoff: -Infinity,
+    filtered: null,
+    target: null,
+    tttElapsed: 0,
+    umbrella: null,
+    events: [],
+    trace: [],
+    stats: { handoffs: 0, pingPongs: 0, drops: 0, tooLate: 0 },
+    done: false
+  };
+}
+
+/**
+ * Weight a of the newest sample in the layer-3 filter F_n = (1 − a)·F_{n−1} + a·M_n.
+ * RRC defines a = 1/2^(k/4) for 200 ms samples; for another period the
+ * weight is rescaled so that the filter keeps the same time constant.
+ */
+export function l3Coefficient(k: number, period = MEASUREMENT_PERIOD): number {
+  const a = 1 / Math.pow(2, k / 4);
+  return 1 - Math.pow(1 - a, period / L3_REFERENCE_PERIOD);
+}
+
+/** Strongest station other than `serving`. */
+function bestNeighbour(values: number[], serving: number): number {
+  let best = -1;
+  values.forEach((v, k) => {
+    if (k !== serving && (best < 0 || v > values[best])) best = k;
+  });
+  return best;
+}
+
+function handoff(run: HandoffRun, to: number): HandoffEvent {
+  const from = run.serving;
+  const pingPong = to === run.previous && run.time - run.lastHandoff < PING_PONG_TIME;
+  run.previous = from;
+  run.serving = to;
+  run.lastHandoff = run.time;
+  run.target = null;
+  run.tttElapsed = 0;
+  run.stats.handoffs++;
+  if (pingPong) run.stats.pingPongs++;
+  return { type: 'handoff', pos: run.pos, time: run.time, from, to, pingPong, tooLate: false };
+}
+
+/** Ends the run when the serving cell falls below Pmin (a radio link failure). */
+function checkDrop(run: HandoffRun, config: HandoffConfig, measured: number[]): HandoffEvent | null {
+  if (measured[run.serving] >= config.minPower) return null;
+  const tooLate = measured.some((v, k) => k !== run.serving && v > measured[run.serving]);
+  run.done = true;
+  run.stats.drops++;
+  if (tooLate) run.stats.tooLate++;
+  return { type: 'drop', pos: run.pos, time: run.time, from: run.serving, to: run.serving, pingPong: false, tooLate };
+}
+
+/** Classic decisions, made once per tick on the raw measurement. */
+function legacyDecision(run: HandoffRun, config: HandoffConfig, measured: number[]): number | null {
+  const serving = measured[run.serving];
+  const neighbour = bestNeighbour(measured, run.serving);
+  if (neighbour < 0) return null;
+  if (config.mode === 'threshold') {
+    // Strictly threshold based, no relative check: the cause of ping-pong
+    return serving < config.minPower + config.thresholdMargin ? neighbour : null;
+  }
+  return measured[neighbour] > serving + config.hysteresisMargin ? neighbour : null;
+}
+
+/**
+ * Event A3 on the filtered RSRP: the entering condition
+ * Mn − Hys > Ms + Off must hold for the same neighbour throughout the
+ * time-to-trigger before the handoff executes; any sample that breaks it
+ * restarts the timer.
+ */
+function a3Decision(run: HandoffRun, config: HandoffConfig, filtered: number[], dt: number): number | null {
+  const neighbour = bestNeighbour(filtered, run.serving);
+  if (neighbour < 0) return null;
+  const entering = filtered[neighbour] - config.a3Hysteresis > filtered[run.serving] + config.a3Offset;
+  if (!entering) {
+    run.target = null;
+    run.tttElapsed = 0;
+    return null;
+  }
+  if (run.target !== neighbour) {
+    run.target = neighbour;
+    run.tttElapsed = 0;
+  } else {
+    run.tttElapsed += dt;
+  }
+  return run.tttElapsed >= config.timeToTrigger / 1000 - 1e-9 ? neighbour : null;
+}
+
+/** Distance between the sites of the two microcells a crossing joins, m. */
+function crossingSpacing(umbrella: UmbrellaConfig, crossing: MicroCrossing): number {
+  return Math.abs(umbrella.positions[crossing.to] - umbrella.positions[crossing.from]);
+}
+
+/** Where a crossing happens if the cell edge lies halfway between the sites, m. */
+function crossingBoundary(umbrella: UmbrellaConfig, crossing: MicroCrossing): number {
+  return (umbrella.positions[crossing.to] + umbrella.positions[crossing.from]) / 2;
+}
+
+/**
+ * Speed estimated from the microcell crossings and the actual site spacing.
+ * `dwell` divides the distance between cell edges by the time taken over the
+ * last DWELL_CELLS full cells, and caps it by the current cell's spacing over
+ * the time spent in it so far; `rate` adds up the spacings crossed within a
+ * window as long as a UE at the threshold speed needs for three cells.
+ */
+function estimateSpeed(state: UmbrellaState, umbrella: UmbrellaConfig, time: number): number | null {
+  const { crossings } = state;
+  if (umbrella.estimator === 'dwell') {
+    // The cell the run began in was only partly crossed, so timing starts at the first crossing
+    if (crossings.length < 2) return null;
+    const last = crossings[crossings.length - 1];
+    const first = crossings[Math.max(0, crossings.length - 1 - DWELL_CELLS)];
+    const travelled = Math.abs(crossingBoundary(umbrella, last) - crossingBoundary(umbrella, first));
+    const lingering = crossingSpacing(umbrella, last) / (time - last.time);
+    return Math.min(travelled / (last.time - first.time), lingering) * 3.6;
+  }
+  const window = (3 * umbrella.cellSize) / (umbrella.speedThreshold / 3.6);
+  const span = Math.min(window, time);
+  if (span <= 0) return null;
+  const travelled = crossings
+    .filter(c => c.time > time - window)
+    .reduce((sum, c) => sum + crossingSpacing(umbrella, c), 0);
+  return (travelled / span) * 3.6;
+}
+
+/**
+ * Macro/micro overlay: the UE is tracked through the microcells with the
+ * hysteresis rule on either layer, and the crossings feed the speed estimate.
+ * A UE estimated faster than the threshold is moved to the umbrella cell; one
+ * estimated clearly slower returns to the microcell it is in.
+ */
+function umbrellaDecision(run: HandoffRun, config: HandoffConfig, umbrella: UmbrellaConfig, measured: number[]): number | null {
+  const micro = measured.map((v, k) => (k === umbrella.station ? -Infinity : v));
+  const state = run.umbrella ?? (run.umbrella = { micro: strongestStation(micro), crossings: [], estimate: null });
+  const neighbour = bestNeighbour(micro, state.micro);
+  if (neighbour >= 0 && micro[neighbour] > micro[state.micro] + config.hysteresisMargin) {
+    state.crossings.push({ time: run.time, from: state.micro, to: neighbour });
+    state.micro = neighbour;
+  }
+  state.estimate = estimateSpeed(state, umbrella, run.time);
+
+  if (run.serving === umbrella.station) {
+    const slow = state.estimate !== null && state.estimate < umbrella.speedThreshold * (1 - SPEED_HYSTERESIS);
+    return slow ? state.micro : null;
+  }
+  if (state.estimate !== null && state.estimate > umbrella.speedThreshold) return umbrella.station;
+  return state.micro !== run.serving ? state.micro : null;
+}
+
+function recordTrace(run: HandoffRun, config: HandoffConfig, measured: number[]) {
+  const last = run.trace[run.trace.length - 1];
+  if (last && run.pos - last.pos < config.length / TRACE_POINTS && !run.done) return;
+  const filtered = run.filtered ?? measured;
+  const neighbour = bestNeighbour(filtered, run.serving);
+  run.trace.push({
+    pos: run.pos,
+    measured: [...measured],
+    filtered: [...filtered],
+    serving: run.serving,
+    margin: neighbour >= 0 ? filtered[neighbour] - filtered[run.serving] : 0,
+    ttt: config.timeToTrigger > 0 ? Math.min(run.tttElapsed / (config.timeToTrigger / 1000), 1) : 0
+  });
+}
+
+/**
+ * Moves the UE through one tick of TICK_SECONDS and returns what happened.
+ * Threshold and hysteresis decide once per tick, as a slow scanning
+ * receiver would; A3 measures every MEASUREMENT_PERIOD in between.
+ */
+export function advanceHandoffRun(run: HandoffRun, config: HandoffConfig, measure: Measure): HandoffEvent[] {
+  if (run.done) return [];
+  const velocity = config.speed / 3.6; // m/s
+  const events: HandoffEvent[] = [];
+  const steps = config.mode === 'a3' && !config.umbrella ? Math.round(TICK_SECONDS / MEASUREMENT_PERIOD) : 1;
+  const dt = TICK_SECONDS / steps;
+  const a = l3Coefficient(config.filterK, dt);
+  let measured: number[] = [];
+
+  for (let step = 0; step < steps; step++) {
+    const next = run.pos + velocity * dt;
+    if (next >= config.length) {
+      run.pos = config.length;
+      run.done = true;
+      break;
+    }
+    run.pos = next;
+    run.time += dt;
+    measured = measure(run.pos);
+
+    const drop = checkDrop(run, config, measured);
+    if (drop) {
+      events.push(drop);
+      break;
+    }
+
+    let target: number | null;
+    if (config.umbrella) {
+      run.filtered = null;
+      target = umbrellaDecision(run, config, config.umbrella, measured);
+    } else if (config.mode === 'a3') {
+      const previous = run.filtered;
+      run.filtered = previous ? measured.map((m, k) => (1 - a) * previous[k] + a * m) : [...measured];
+      target = a3Decision(run, config, run.filtered, dt);
+    } else {
+      run.filtered = null;
+      target = legacyDecision(run, config, measured);
+    }
+    if (target !== null) events.push(handoff(run, target));
+  }
+
+  if (measured.length > 0) recordTrace(run, config, measured);
+  run.events.push(...events);
+  return events;
+}
+
+/** Runs a traversal from start to finish in one go. */
+export function simulateRun(config: HandoffConfig, measure: Measure, serving = 0): HandoffRun {
+  const run = createHandoffRun(serving);
+  while (!run.done) advanceHandoffRun(run, config, measure);
+  return run;
+}
+
+/** Index of the strongest station. */
+export function strongestStation(values: number[]): number {
+  return values.reduce((best, v, k) => (v > values[best] ? k : best), 0);
+}
+
+/** Where a run starts: the strongest station, or the strongest microcell under an umbrella. */
+export function initialStation(config: HandoffConfig, values: number[]): number {
+  const station = config.umbrella?.station;
+  return strongestStation(values.map((v, k) => (k === station ? -Infinity : v)));
+}
+
+export interface CoverageHole {
+  start: number; // m
+  end: number; // m
+}
+
+const COVERAGE_SAMPLES = 1000;
+
+/** Stretches of the route where even the strongest station is below Pmin. */
+export function coverageHoles(measure: Measure, length: number, minPower: number): CoverageHole[] {
+  const holes: CoverageHole[] = [];
+  let start: number | null = null;
+  for (let k = 0; k <= COVERAGE_SAMPLES; k++) {
+    const pos = (length * k) / COVERAGE_SAMPLES;
+    const covered = Math.max(...measure(pos)) >= minPower;
+    if (!covered && start === null) start = pos;
+    if (covered && start !== null) {
+      holes.push({ start, end: pos });
+      start = null;
+    }
+  }
+  if (start !== null) holes.push({ start, end: length });
+  return holes;
+}
+
+export type SweepParameter = 'hysteresisMargin' | 'thresholdMargin';
+
+export const SWEEP_MODES: Record<SweepParameter, HandoffMode> = {
+  hysteresisMargin: 'hysteresis',
+  thresholdMargin: 'threshold'
+};
+
+export interface SweepPoint {
+  margin: number; // dB
+  handoffs: number; // Mean per traversal
+  handoffsError: number; // Half-width of the 95% confidence interval
+  pingPongRate: number; // Share of the handoffs that were ping-pongs
+  dropProbability: number; // Share of the traversals that ended in a drop
+  dropError: number;
+  meanHandoffPos: number | null; // Mean position of all handoffs, m
+}
+
+export interface SweepResult {
+  parameter: SweepParameter;
+  traversals: number;
+  speed: number; // km/h
+  points: SweepPoint[];
+  best: number | null; // Margin recommended by `bestMargin`
+}
+
+/** Drop probabilities within this much of the sweep's lowest count as equally safe. */
+export const DROP_TOLERANCE = 0.01;
+
+/** Highest share of ping-pong handoffs a recommended margin may have. */
+export const PING_PONG_LIMIT = 0.2;
+
+/** Remembers the measurements of one traversal, which every margin of a sweep repeats. */
+function cachedMeasure(measure: Measure): Measure {
+  const cache = new Map<number, number[]>();
+  return pos => {
+    let values = cache.get(pos);
+    if (!values) {
+      values = measure(pos);
+      cache.set(pos, values);
+    }
+    return values;
+  };
+}
+
+/**
+ * The margin with the fewest handoffs among those whose drop probability is
+ * within DROP_TOLERANCE of the lowest in the sweep: fewer handoffs cannot be
+ * bought with noticeably more dropped calls. Margins that ping-pong more than
+ * PING_PONG_LIMIT are ruled out first, since their handoffs are mostly wasted,
+ * unless every margin does.
+ */
+export function bestMargin(points: SweepPoint[]): number | null {
+  if (points.length === 0) return null;
+  const stable = points.filter(p => p.pingPongRate <= PING_PONG_LIMIT);
+  const candidates = stable.length > 0 ? stable : points;
+  const safest = Math.min(...candidates.map(p => p.dropProbability));
+  const safe = candidates.filter(p => p.dropProbability <= safest + DROP_TOLERANCE);
+  return safe.reduce((best, p) => (p.handoffs < best.handoffs ? p : best)).margin;
+}
+
+interface SweepTotals {
+  handoffs: number;
+  squares: number;
+  pingPongs: number;
+  drops: number;
+  posSum: number;
+}
+
+/** A margin sweep in progress, advanced a few traversals at a time. */
+export interface HandoffSweep {
+  config: HandoffConfig;
+  parameter: SweepParameter;
+  margins: number[];
+  traversals: number; // Traversals requested
+  completed: number; // Traversals run so far
+  totals: SweepTotals[]; // One per margin
+}
+
+export function createHandoffSweep(config: HandoffConfig, parameter: SweepParameter, margins: number[], traversals: number): HandoffSweep {
+  return {
+    config,
+    parameter,
+    margins,
+    traversals,
+    completed: 0,
+    totals: margins.map(() => ({ handoffs: 0, squares: 0, pingPongs: 0, drops: 0, posSum: 0 }))
+  };
+}
+
+/**
+ * Runs the next `count` traversals of the sweep at every margin, stopping at
+ * the requested total. Traversal t measures through `measureFor(t)`.
+ */
+export function advanceHandoffSweep(sweep: HandoffSweep, measureFor: (trial: number) => Measure, count: number) {
+  const { config, parameter, margins, totals } = sweep;
+  const sweepConfig: HandoffConfig = { ...config, mode: SWEEP_MODES[parameter] };
+  const last = Math.min(sweep.completed + count, sweep.traversals);
+
+  for (let t = sweep.completed; t < last; t++) {
+    const measure = cachedMeasure(measureFor(t));
+    const serving = initialStation(config, measure(0));
+    margins.forEach((margin, m) => {
+      const run = simulateRun({ ...sweepConfig, [parameter]: margin }, measure, serving);
+      const total = totals[m];
+      total.handoffs += run.stats.handoffs;
+      total.squares += run.stats.handoffs * run.stats.handoffs;
+      total.pingPongs += run.stats.pingPongs;
+      total.drops += run.stats.drops;
+      run.events.forEach(e => {
+        if (e.type === 'handoff') total.posSum += e.pos;
+      });
+    });
+  }
+  sweep.completed = last;
+}
+
+/** Averages the traversals run so far into a result. */
+export function sweepResult(sweep: HandoffSweep): SweepResult {
+  const n = Math.max(sweep.completed, 1);
+  const points = sweep.margins.map((margin, m) => {
+    const total = sweep.totals[m];
+    const mean = total.handoffs / n;
+    const variance = n > 1 ? Math.max(total.squares / n - mean * mean, 0) * n / (n - 1) : 0;
+    const drop = total.drops / n;
+    return {
+      margin,
+      handoffs: mean,
+      handoffsError: 1.96 * Math.sqrt(variance / n),
+      pingPongRate: total.handoffs > 0 ? total.pingPongs / total.handoffs : 0,
+      dropProbability: drop,
+      dropError: 1.96 * Math.sqrt(drop * (1 - drop) / n),
+      meanHandoffPos: total.handoffs > 0 ? total.posSum / total.handoffs : null
+    };
+  });
+  return { parameter: sweep.parameter, traversals: sweep.completed, speed: sweep.config.speed, points, best: bestMargin(points) };
+}
+
+/**
+ * Monte Carlo sweep of a handoff margin in one go. Traversal t measures
+ * through `measureFor(t)`, normally the same route under its own shadowing
+ * seed, and every margin replays the same traversals, so the curves differ
+ * only through the margin (common random numbers).
+ */
+export function runHandoffSweep(
+  config: HandoffConfig,
+  parameter: SweepParameter,
+  margins: number[],
+  traversals: number,
+  measureFor: (trial: number) => Measure
+): SweepResult {
+  const sweep = createHandoffSweep(config, parameter, margins, traversals);
+  advanceHandoffSweep(sweep, measureFor, traversals);
+  return sweepResult(sweep);
+}
+
+export interface UmbrellaSpeedPoint {
+  speed: number; // km/h
+  microOnly: number; // Handoffs with the microcells alone
+  overlay: number; // Handoffs with speed-based assignment to the umbrella cell
+  umbrellaShare: number; // Share of the route served by the umbrella cell, 0–1
+}
+
+/** Handoffs per traversal with and without the umbrella cell, for a range of UE speeds. */
+export function umbrellaSpeedSweep(config: HandoffConfig, measure: Measure, speeds: number[]): UmbrellaSpeedPoint[] {
+  const umbrella = config.umbrella;
+  if (!umbrella) return [];
+  const serving = initialStation(config, measure(0));
+  return speeds.map(speed => {
+    const microOnly = simulateRun({ ...config, speed, umbrella: { ...umbrella, speedThreshold: Infinity } }, measure, serving);
+    const overlay = simulateRun({ ...config, speed }, measure, serving);
+    const onUmbrella = overlay.trace.filter(p => p.serving === umbrella.station).length;
+    return {
+      speed,
+      microOnly: microOnly.stats.handoffs,
+      overlay: overlay.stats.handoffs,
+      umbrellaShare: overlay.trace.length > 0 ? onUmbrella / overlay.trace.length : 0
+    };
+  });
+}
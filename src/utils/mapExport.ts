@@ -0,0 +1,133 @@
+import {
+  axialToPoint,
+  clusterIndex,
+  clusterSize,
+  clusterTile,
+  EDGE_NEIGHBOURS,
+  hexVertices,
+  reuseRatio
+} from './cellular';
+
+export interface ReuseMapOptions {
+  i: number;
+  j: number;
+  colors: string[]; // One per channel set
+  width: number;
+  height: number;
+  radius: number; // Cell radius in pixels
+  labels: boolean; // Channel set number in every cell
+  outlines: boolean; // Bold border around every cluster of N cells
+  distance: boolean; // Dashed D line from the centre cell to its co-channel cell at (i, j)
+}
+
+const FONT = 'Inter, Helvetica, Arial, sans-serif';
+
+const fmt = (v: number) => Number(v.toFixed(2)).toString();
+const polygon = (points: { x: number; y: number }[]) => points.map(p => `${fmt(p.x)},${fmt(p.y)}`).join(' ');
+
+/**
+ * The reuse map as standalone SVG markup, drawn with the same axial-to-pixel
+ * mapping and colours as the canvas: channel set A solid, the others tinted.
+ */
+export function reuseMapSvg(options: ReuseMapOptions): string {
+  const { i, j, colors, width, height, radius } = options;
+  const n = clusterSize(i, j);
+  const cx = width / 2;
+  const cy = height / 2;
+  const qRange = Math.ceil(width / (Math.sqrt(3) * radius)) + 5;
+  const rRange = Math.ceil(height / (1.5 * radius)) + 5;
+
+  const cells: string[] = [];
+  const labels: string[] = [];
+  const outlines: string[] = [];
+  for (let r = -rRange; r <= rRange; r++) {
+    for (let q = -qRange; q <= qRange; q++) {
+      const offset = axialToPoint(q, r, radius);
+      const center = { x: cx + offset.x, y: cy + offset.y };
+      if (center.x < -radius * 2 || center.x > width + radius * 2 || center.y < -radius * 2 || center.y > height + radius * 2) continue;
+
+      const set = clusterIndex(q, r, i, j);
+      const corners = hexVertices(center, radius);
+      const highlighted = set === 0;
+      cells.push(
+        `<polygon points="${polygon(corners)}" fill="${colors[set]}" fill-opacity="${highlighted ? 1 : 0.15}" ` +
+        `stroke="${highlighted ? '#1e293b' : '#cbd5e1'}" stroke-width="${highlighted ? 2 : 0.5}"/>`
+      );
+      if (options.labels) {
+        labels.push(
+          `<text x="${fmt(center.x)}" y="${fmt(center.y)}" dy="0.35em" text-anchor="middle" font-size="${fmt(radius * 0.45)}" ` +
+          `font-weight="bold" fill="${highlighted ? '#ffffff' : '#334155'}">${set + 1}</text>`
+        );
+      }
+      if (options.outlines) {
+        const tile = clusterTile(q, r, i, j);
+        EDGE_NEIGHBOURS.forEach((step, k) => {
+          const other = clusterTile(q + step.q, r + step.r, i, j);
+          if (other.q === tile.q && other.r === tile.r) return;
+          const a = corners[k];
+          const b = corners[(k + 1) % 6];
+          outlines.push(`M${fmt(a.x)} ${fmt(a.y)}L${fmt(b.x)} ${fmt(b.y)}`);
+        });
+      }
+    }
+  }
+
+  const annotation: string[] = [];
+  if (options.distance && (i > 0 || j > 0)) {
+    const target = axialToPoint(i, j, radius);
+    const end = { x: cx + target.x, y: cy + target.y };
+    const mid = { x: (cx + end.x) / 2, y: (cy + end.y) / 2 };
+    annotation.push(
+      `<line x1="${fmt(cx)}" y1="${fmt(cy)}" x2="${fmt(end.x)}" y2="${fmt(end.y)}" stroke="#ef4444" stroke-width="3" stroke-dasharray="5 5"/>`,
+      `<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="4" fill="#ef4444"/>`,
+      `<circle cx="${fmt(end.x)}" cy="${fmt(end.y)}" r="4" fill="#ef4444"/>`,
+      `<text x="${fmt(mid.x)}" y="${fmt(mid.y - 10)}" text-anchor="middle" font-size="14" font-weight="bold" fill="#ef4444" ` +
+      `stroke="#ffffff" stroke-width="4" paint-order="stroke">D = √(3N)·R = ${reuseRatio(n).toFixed(2)}R</text>`
+    );
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">`,
+    `<title>Frequency reuse pattern, i = ${i}, j = ${j}, N = ${n}</title>`,
+    `<rect width="${width}" height="${height}" fill="#f8fafc"/>`,
+    `<g>${cells.join('')}</g>`,
+    outlines.length > 0 ? `<path d="${outlines.join('')}" fill="none" stroke="#0f172a" stroke-width="3" stroke-linecap="round"/>` : '',
+    labels.length > 0 ? `<g>${labels.join('')}</g>` : '',
+    ...annotation,
+    '</svg>'
+  ].join('\n');
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadSvg(svg: string, filename: string) {
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
+}
+
+/** Rasterises the SVG at `scale` times its size and downloads it as a PNG. */
+export async function downloadPng(svg: string, width: number, height: number, scale: number, filename: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('PNG encoding failed');
+    downloadBlob(blob, filename);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
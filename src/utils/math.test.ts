@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateEngsetBlocking,
+  calculateErlangB,
+  calculateErlangC,
+  calculateGuardChannelProbabilities,
+  calculateMaxTraffic,
+  calculateMeanWait,
+  calculateQueueStateProbabilities,
+  calculateRequiredChannels,
+  calculateRetrialFixedPoint,
+  calculateStateProbabilities,
+  toDb
+} from './math';
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+describe('Erlang B', () => {
+  it('matches hand-computed values', () => {
+    expect(calculateErlangB(1, 1)).toBeCloseTo(0.5, 12);
+    expect(calculateErlangB(5, 2)).toBeCloseTo(4 / 109, 12); // (2^5/5!) / Σ 2^i/i!
+    expect(calculateErlangB(10, 7)).toBeCloseTo(0.078741, 6);
+  });
+
+  it('is zero without traffic', () => {
+    expect(calculateErlangB(10, 0)).toBe(0);
+  });
+
+  it('equals the last M/M/C/C state probability', () => {
+    const probs = calculateStateProbabilities(10, 7);
+    expect(sum(probs)).toBeCloseTo(1, 12);
+    expect(probs[10]).toBeCloseTo(calculateErlangB(10, 7), 12);
+  });
+});
+
+describe('capacity planning', () => {
+  it('reproduces the Erlang B table', () => {
+    expect(calculateMaxTraffic(10, 0.02)).toBeCloseTo(5.084, 3);
+    expect(calculateMaxTraffic(20, 0.01)).toBeCloseTo(12.031, 3);
+    expect(calculateRequiredChannels(25, 0.02)).toBe(34);
+  });
+
+  it('returns the smallest channel count that meets the GoS', () => {
+    const c = calculateRequiredChannels(25, 0.02);
+    expect(calculateErlangB(c, 25)).toBeLessThanOrEqual(0.02);
+    expect(calculateErlangB(c - 1, 25)).toBeGreaterThan(0.02);
+  });
+
+  it('gives up beyond the search limit', () => {
+    expect(calculateRequiredChannels(500, 0.01, 100)).toBe(Infinity);
+  });
+
+  it('rejects invalid inputs', () => {
+    expect(() => calculateRequiredChannels(25, 0)).toThrow(RangeError);
+    expect(() => calculateRequiredChannels(25, 1)).toThrow(RangeError);
+    expect(() => calculateRequiredChannels(0, 0.02)).toThrow(RangeError);
+    expect(() => calculateRequiredChannels(NaN, 0.02)).toThrow(RangeError);
+    expect(() => calculateMaxTraffic(0, 0.02)).toThrow(RangeError);
+    expect(() => calculateMaxTraffic(10, -0.1)).toThrow(RangeError);
+  });
+});
+
+describe('Erlang C', () => {
+  it('matches hand-computed values', () => {
+    expect(calculateErlangC(2, 1)).toBeCloseTo(1 / 3, 12);
+    expect(calculateErlangC(10, 7)).toBeCloseTo(0.221731, 6);
+  });
+
+  it('makes every call wait at or above capacity', () => {
+    expect(calculateErlangC(10, 10)).toBe(1);
+    expect(calculateMeanWait(10, 12, 30)).toBe(Infinity);
+  });
+
+  it('gives the M/M/C mean wait', () => {
+    // W = C(C, A) / (C·mu − lambda) with mu = 30 per hour
+    expect(calculateMeanWait(10, 7, 30)).toBeCloseTo(0.221731 / 90, 6);
+  });
+
+  it('splits the queue states so that P(n >= C) is C(C, A)', () => {
+    const probs = calculateQueueStateProbabilities(10, 7, 400);
+    expect(sum(probs)).toBeCloseTo(1, 9);
+    expect(sum(probs.slice(10))).toBeCloseTo(calculateErlangC(10, 7), 9);
+  });
+});
+
+describe('Engset', () => {
+  it('matches a hand-checked value', () => {
+    expect(calculateEngsetBlocking(10, 20, 0.5)).toBeCloseTo(0.041698, 6);
+  });
+
+  it('blocks nothing when there are more channels than other sources', () => {
+    expect(calculateEngsetBlocking(10, 10, 0.5)).toBe(0);
+  });
+
+  it('tends to Erlang B as the population grows', () => {
+    const n = 100000;
+    expect(calculateEngsetBlocking(10, n, 7 / n)).toBeCloseTo(calculateErlangB(10, 7), 4);
+  });
+});
+
+describe('guard channels', () => {
+  it('pins new-call blocking and handoff dropping', () => {
+    const result = calculateGuardChannelProbabilities(10, 2, 5, 1);
+    expect(sum(result.stateProbs)).toBeCloseTo(1, 12);
+    expect(result.newCallBlocking).toBeCloseTo(0.134764, 6);
+    expect(result.handoffDropping).toBeCloseTo(0.001334, 6);
+  });
+
+  it('reduces to Erlang B of the total load without guard channels', () => {
+    const result = calculateGuardChannelProbabilities(10, 0, 5, 2);
+    expect(result.newCallBlocking).toBeCloseTo(calculateErlangB(10, 7), 12);
+    expect(result.handoffDropping).toBeCloseTo(calculateErlangB(10, 7), 12);
+  });
+});
+
+describe('retrial fixed point', () => {
+  it('pins the C = 10, A = 7, p = 0.8 case', () => {
+    const result = calculateRetrialFixedPoint(10, 7, 0.8);
+    expect(result.effectiveLoad).toBeCloseTo(7.648627, 5);
+    expect(result.attemptBlocking).toBeCloseTo(0.106004, 6);
+    expect(result.lossProbability).toBeCloseTo(0.023165, 6);
+  });
+
+  it('satisfies A_eff = A / (1 − p·B(C, A_eff))', () => {
+    const { effectiveLoad } = calculateRetrialFixedPoint(10, 7, 0.8);
+    expect(7 / (1 - 0.8 * calculateErlangB(10, effectiveLoad))).toBeCloseTo(effectiveLoad, 8);
+  });
+
+  it('reduces to Erlang B when nobody redials', () => {
+    const result = calculateRetrialFixedPoint(10, 7, 0);
+    expect(result.effectiveLoad).toBe(7);
+    expect(result.attemptBlocking).toBeCloseTo(calculateErlangB(10, 7), 12);
+    expect(result.lossProbability).toBeCloseTo(calculateErlangB(10, 7), 12);
+  });
+});
+
+describe('toDb', () => {
+  it('converts power ratios and floors zero', () => {
+    expect(toDb(100)).toBeCloseTo(20, 12);
+    expect(toDb(0.5)).toBeCloseTo(-3.0103, 4);
+    expect(toDb(0)).toBe(-120);
+  });
+});
@@ -18,6 +18,62 @@ export function calculateErlangB(c: number, a: number): number {
   return b;
 }
 
+/** Rejects a blocking target outside the open interval (0, 1). */
+function assertGos(gos: number) {
+  if (!(gos > 0 && gos < 1)) throw new RangeError(`GoS must be between 0 and 1 (exclusive), got ${gos}`);
+}
+
+/**
+ * Finds the minimum number of channels that keeps Erlang B blocking at or
+ * below the target GoS for a given offered traffic.
+ * C* = min { C : B(C, A) <= B_target }
+ *
+ * Walks the same recursion as calculateErlangB, so each step is O(1).
+ *
+ * @param a Offered traffic in Erlangs (> 0)
+ * @param gos Target blocking probability (0 < gos < 1)
+ * @param maxChannels Search limit; Infinity is returned beyond it
+ * @throws RangeError for a non-positive load or a GoS outside (0, 1)
+ */
+export function calculateRequiredChannels(a: number, gos: number, maxChannels = 10000): number {
+  assertGos(gos);
+  if (!(a > 0) || !Number.isFinite(a)) throw new RangeError(`Offered traffic must be positive, got ${a}`);
+  let b = 1;
+  for (let c = 1; c <= maxChannels; c++) {
+    b = (a * b) / (c + a * b);
+    if (b <= gos) return c;
+  }
+  return Infinity;
+}
+
+/**
+ * Finds the maximum offered traffic C channels can carry at the target GoS.
+ * A* = max { A : B(C, A) <= B_target }
+ *
+ * B(C, A) is continuous and strictly increasing in A, so the root of
+ * B(C, A) - B_target is bracketed and then located by bisection.
+ *
+ * @param c Number of channels (at least 1)
+ * @param gos Target blocking probability (0 < gos < 1)
+ * @throws RangeError for a channel count below 1 or a GoS outside (0, 1)
+ */
+export function calculateMaxTraffic(c: number, gos: number, tolerance = 1e-9): number {
+  assertGos(gos);
+  if (!(c >= 1) || !Number.isFinite(c)) throw new RangeError(`Channel count must be at least 1, got ${c}`);
+  let lo = 0;
+  let hi = Math.max(c, 1);
+  while (calculateErlangB(c, hi) < gos) {
+    lo = hi;
+    hi *= 2;
+  }
+  while (hi - lo > tolerance * Math.max(hi, 1)) {
+    const mid = (lo + hi) / 2;
+    if (calculateErlangB(c, mid) < gos) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
 /**
  * Calculates the probability of being in state n for a M/M/C/C system.
  * Pn = (A^n / n!) * P0
@@ -40,3 +96,190 @@ export function calculateStateProbabilities(c: number, a: number): number[] {
   // Normalize
   return probs.map(p => p / sum);
 }
+
+/**
+ * Calculates the state probabilities of an Engset (M/M/C/C/N) system, where N
+ * sources each generate calls at rate alpha while idle.
+ * Pn = (N choose n) · beta^n · P0,  for 0 <= n <= min(C, N)
+ * where beta = alpha / mu is the offered traffic per idle source.
+ *
+ * @param c Number of channels
+ * @param n Number of sources (N)
+ * @param beta Offered traffic per idle source in Erlangs
+ */
+export function calculateEngsetStateProbabilities(c: number, n: number, beta: number): number[] {
+  const maxState = Math.min(c, n);
+  const probs: number[] = new Array(maxState + 1).fill(0);
+  let sum = 0;
+  let current = 1; // (N choose 0) · beta^0
+
+  probs[0] = current;
+  sum += current;
+
+  for (let i = 1; i <= maxState; i++) {
+    current = (current * (n - i + 1) * beta) / i;
+    probs[i] = current;
+    sum += current;
+  }
+
+  return probs.map(p => p / sum);
+}
+
+/**
+ * Calculates the Engset blocking probability seen by arriving calls (call
+ * congestion). An arriving call comes from one of the N - n idle sources, so it
+ * sees the system of the other N - 1 sources:
+ * B_E(C, N, beta) = P_C evaluated with N - 1 sources
+ *
+ * Tends to Erlang B(C, N·beta) as N grows with N·beta fixed.
+ */
+export function calculateEngsetBlocking(c: number, n: number, beta: number): number {
+  if (beta === 0 || n - 1 < c) return 0;
+  return calculateEngsetStateProbabilities(c, n - 1, beta)[c];
+}
+
+export interface RetrialResult {
+  effectiveLoad: number; // Fresh plus repeated attempts, in Erlangs
+  attemptBlocking: number; // Fraction of all attempts that are blocked
+  lossProbability: number; // Fraction of callers who finally give up
+}
+
+/**
+ * Approximates a loss system whose blocked callers redial with probability p.
+ * Treating all attempts as Poisson, the attempt rate satisfies the fixed point
+ * A_eff = A / (1 - p · B(C, A_eff))
+ * which is solved by damped iteration. A caller is finally lost after the
+ * geometric number of blocked attempts: L = B(1 - p) / (1 - p·B).
+ *
+ * @param c Number of channels
+ * @param a Fresh traffic in Erlangs
+ * @param p Probability that a blocked caller tries again
+ */
+export function calculateRetrialFixedPoint(c: number, a: number, p: number): RetrialResult {
+  let effectiveLoad = a;
+  for (let i = 0; i < 200; i++) {
+    const next = a / (1 - p * calculateErlangB(c, effectiveLoad));
+    if (Math.abs(next - effectiveLoad) < 1e-10 * Math.max(1, a)) {
+      effectiveLoad = next;
+      break;
+    }
+    effectiveLoad = (effectiveLoad + next) / 2;
+  }
+  const attemptBlocking = calculateErlangB(c, effectiveLoad);
+  return {
+    effectiveLoad,
+    attemptBlocking,
+    lossProbability: (attemptBlocking * (1 - p)) / (1 - p * attemptBlocking),
+  };
+}
+
+export interface GuardChannelResult {
+  stateProbs: number[];
+  newCallBlocking: number;
+  handoffDropping: number;
+}
+
+/**
+ * Solves the birth-death chain of a cell that keeps g of its C channels for
+ * handoff calls. New calls are admitted only while fewer than C - g channels
+ * are busy; handoff calls are admitted while any channel is free.
+ *
+ * Pk = P0 · (An + Ah)^k / k!                        for k <= C - g
+ * Pk = P0 · (An + Ah)^(C-g) · Ah^(k-(C-g)) / k!      for C - g < k <= C
+ *
+ * New-call blocking is P(k >= C - g) and handoff dropping is P(C).
+ *
+ * @param c Number of channels
+ * @param g Guard channels reserved for handoffs
+ * @param newLoad New-call traffic in Erlangs (lambda_n / mu)
+ * @param handoffLoad Handoff traffic in Erlangs (lambda_h / mu)
+ */
+export function calculateGuardChannelProbabilities(c: number, g: number, newLoad: number, handoffLoad: number): GuardChannelResult {
+  const threshold = c - Math.min(Math.max(g, 0), c);
+  const probs: number[] = new Array(c + 1).fill(0);
+  let sum = 0;
+  let current = 1;
+
+  probs[0] = current;
+  sum += current;
+
+  for (let k = 1; k <= c; k++) {
+    const load = k <= threshold ? newLoad + handoffLoad : handoffLoad;
+    current = (current * load) / k;
+    probs[k] = current;
+    sum += current;
+  }
+
+  const stateProbs = probs.map(p => p / sum);
+  return {
+    stateProbs,
+    newCallBlocking: stateProbs.slice(threshold).reduce((acc, p) => acc + p, 0),
+    handoffDropping: stateProbs[c],
+  };
+}
+
+/**
+ * Calculates the Erlang C probability that an arriving call has to wait.
+ * C(C, A) = C·B / (C - A·(1 - B)), with B = B(C, A)
+ *
+ * The queue is only stable for A < C; at or above that load every call waits.
+ *
+ * @param c Number of channels
+ * @param a Traffic load in Erlangs (lambda / mu)
+ */
+export function calculateErlangC(c: number, a: number): number {
+  if (a === 0) return 0;
+  if (a >= c) return 1;
+  const b = calculateErlangB(c, a);
+  return (c * b) / (c - a * (1 - b));
+}
+
+/**
+ * Calculates the mean waiting time in queue of a M/M/C system (all calls).
+ * W = C(C, A) / (C·mu - lambda)
+ *
+ * @param mu Service rate (1 / mean holding time)
+ * @returns Mean wait in the time unit of mu, or Infinity when A >= C
+ */
+export function calculateMeanWait(c: number, a: number, mu: number): number {
+  if (a >= c) return Infinity;
+  return calculateErlangC(c, a) / (mu * (c - a));
+}
+
+/**
+ * Calculates the probability that a call waits longer than t in a M/M/C system.
+ * P(W > t) = C(C, A) · e^{-(C - A)·mu·t}
+ */
+export function calculateWaitProbability(c: number, a: number, mu: number, t: number): number {
+  if (a >= c) return 1;
+  return calculateErlangC(c, a) * Math.exp(-(c - a) * mu * t);
+}
+
+/**
+ * Calculates the state probabilities of a M/M/C queue, truncated after maxState.
+ * Pn = P0 · A^n / n!            for n <= C
+ * Pn = P0 · A^n / (C! C^(n-C))  for n > C
+ *
+ * States above C are calls waiting in the queue. Requires A < C.
+ */
+export function calculateQueueStateProbabilities(c: number, a: number, maxState: number): number[] {
+  const probs: number[] = new Array(maxState + 1).fill(0);
+  const erlangC = calculateErlangC(c, a);
+  const busy = calculateStateProbabilities(c, a);
+
+  // Below C the shape matches M/M/C/C, rescaled by the probability of not waiting
+  for (let n = 0; n <= Math.min(c, maxState); n++) {
+    probs[n] = busy[n] * (1 - erlangC) / (1 - busy[c]);
+  }
+  // P(n >= C) = C(C, A), split geometrically with ratio A / C
+  const rho = a / c;
+  for (let n = c; n <= maxState; n++) {
+    probs[n] = erlangC * (1 - rho) * Math.pow(rho, n - c);
+  }
+  return probs;
+}
+
+/** Converts a linear power ratio to dB. */
+export function toDb(linear: number): number {
+  return 10 * Math.log10(Math.max(linear, 1e-12));
+}
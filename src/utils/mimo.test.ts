@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  beamformingGain,
+  beamformingSinr,
+  eigenChannelGains,
+  equalPowerCapacity,
+  ergodicCapacity,
+  exponentialCorrelation,
+  rayleighChannel,
+  waterFilling,
+  type ComplexMatrix
+} from './mimo';
+
+describe('beamformingGain', () => {
+  it('reaches the array gain N in the steering direction', () => {
+    expect(beamformingGain(8, 0.5, 30, 30)).toBeCloseTo(8, 12);
+    expect(beamformingGain(1, 0.5, 0, 60)).toBeCloseTo(1, 12);
+  });
+
+  it('puts the first null at sin θ = 1 / (N·d) for a broadside beam', () => {
+    const nullDeg = (Math.asin(1 / (8 * 0.5)) * 180) / Math.PI;
+    expect(beamformingGain(8, 0.5, 0, nullDeg)).toBeCloseTo(0, 12);
+  });
+
+  it('is symmetric about broadside', () => {
+    expect(beamformingGain(8, 0.5, 0, 20)).toBeCloseTo(beamformingGain(8, 0.5, 0, -20), 12);
+  });
+});
+
+describe('beamformingSinr', () => {
+  it('gives a lone user the full power and the array gain', () => {
+    const [sinr] = beamformingSinr([{ angleDeg: 10, pathGain: 0.5 }], 4, 0.5, 10);
+    expect(sinr).toBeCloseTo(10 * 0.5 * 4, 12);
+  });
+
+  it('lets a user in another beam\'s null see no interference', () => {
+    // The second beam's first null falls on the first user at broadside
+    const nullDeg = (Math.asin(1 / (8 * 0.5)) * 180) / Math.PI;
+    const [first] = beamformingSinr([{ angleDeg: 0, pathGain: 1 }, { angleDeg: nullDeg, pathGain: 1 }], 8, 0.5, 20);
+    expect(first).toBeCloseTo((100 / 2) * 8, 6);
+  });
+});
+
+// A fixed 2 × 2 complex channel with H Hᴴ = [[6, 2 − j], [2 + j, 5]]
+const H: ComplexMatrix = { re: [[1, 2], [0, 1]], im: [[0, 1], [2, 0]] };
+
+describe('exponentialCorrelation', () => {
+  it('builds R_ij = ρ^|i−j|', () => {
+    expect(exponentialCorrelation(3, 0.5)).toEqual([[1, 0.5, 0.25], [0.5, 1, 0.5], [0.25, 0.5, 1]]);
+  });
+});
+
+describe('eigenChannelGains', () => {
+  it('returns the squared singular values, strongest first', () => {
+    // Trace 11 and determinant 25, so λ = (11 ± √21) / 2
+    const gains = eigenChannelGains(H);
+    expect(gains[0]).toBeCloseTo((11 + Math.sqrt(21)) / 2, 9);
+    expect(gains[1]).toBeCloseTo((11 - Math.sqrt(21)) / 2, 9);
+  });
+
+  it('keeps only the min(N_t, N_r) non-trivial modes', () => {
+    const tall: ComplexMatrix = { re: [[1], [2], [2]], im: [[0], [0], [0]] };
+    expect(eigenChannelGains(tall)).toHaveLength(1);
+    expect(eigenChannelGains(tall)[0]).toBeCloseTo(9, 9);
+  });
+});
+
+describe('equalPowerCapacity', () => {
+  it('matches the sum over the eigen-channels', () => {
+    const snr = 10;
+    const expected = eigenChannelGains(H).reduce((sum, g) => sum + Math.log2(1 + (snr / 2) * g), 0);
+    expect(equalPowerCapacity(H, snr)).toBeCloseTo(expected, 9);
+  });
+
+  it('reduces to log2(1 + ρ|h|²) for a single antenna', () => {
+    expect(equalPowerCapacity({ re: [[0.6]], im: [[0.8]] }, 3)).toBeCloseTo(2, 12);
+  });
+});
+
+describe('waterFilling', () => {
+  it('pours power onto the stronger channel first', () => {
+    // Floors 1/(ρλ) = 0.5 and 1, so μ = (1 + 1.5) / 2 = 1.25
+    const result = waterFilling([2, 1], 1);
+    expect(result.level).toBeCloseTo(1.25, 12);
+    expect(result.powers[0]).toBeCloseTo(0.75, 12);
+    expect(result.powers[1]).toBeCloseTo(0.25, 12);
+    expect(result.capacity).toBeCloseTo(Math.log2(2.5) + Math.log2(1.25), 12);
+  });
+
+  it('leaves a weak channel dry at low SNR', () => {
+    const result = waterFilling([2, 0.1], 1);
+    expect(result.powers).toEqual([1, 0]);
+    expect(result.capacity).toBeCloseTo(Math.log2(3), 12);
+  });
+
+  it('never does worse than equal power', () => {
+    const gains = eigenChannelGains(H);
+    [0.1, 1, 10, 100].forEach(snr => {
+      expect(waterFilling(gains, snr).capacity).toBeGreaterThanOrEqual(equalPowerCapacity(H, snr) - 1e-9);
+    });
+  });
+});
+
+describe('rayleighChannel', () => {
+  const mean = (draw: () => number, trials = 4000) => {
+    let total = 0;
+    for (let t = 0; t < trials; t++) total += draw();
+    return total / trials;
+  };
+
+  it('draws unit-power entries', () => {
+    expect(Math.abs(mean(() => {
+      const h = rayleighChannel(1, 1);
+      return h.re[0][0] ** 2 + h.im[0][0] ** 2;
+    }) - 1)).toBeLessThan(0.1);
+  });
+
+  it('correlates neighbouring antennas by ρ under the Kronecker model', () => {
+    // E[h_11 h_12*] = R_t[1][2] = ρ; the cross term is real because R is real
+    expect(Math.abs(mean(() => {
+      const h = rayleighChannel(2, 2, 0.8);
+      return h.re[0][0] * h.re[0][1] + h.im[0][0] * h.im[0][1];
+    }, 1500) - 0.8)).toBeLessThan(0.1);
+  });
+});
+
+describe('ergodicCapacity', () => {
+  it('reproduces the SISO Rayleigh capacity at 10 dB', () => {
+    // E[log2(1 + 10|h|²)] = log2(e)·e^0.1·E1(0.1) ≈ 2.907 bits/s/Hz
+    expect(Math.abs(ergodicCapacity(1, 1, [10], 0, 4000)[0] - 2.907)).toBeLessThan(0.1);
+  });
+
+  it('loses capacity to antenna correlation', () => {
+    const [independent] = ergodicCapacity(4, 4, [20], 0, 500);
+    const [correlated] = ergodicCapacity(4, 4, [20], 0.9, 500);
+    expect(correlated).toBeLessThan(independent - 2);
+  });
+});
@@ -0,0 +1,223 @@
+import * as math from 'mathjs';
+
+/**
+ * Beamforming gain |w^H a(θ)|² of a uniform linear array whose weights are the
+ * normalized steering vector w = a(θs) / √N.
+ *
+ * a(θ) = [1, e^{j2πd sinθ}, ..., e^{j2π(N-1)d sinθ}]ᵀ
+ *
+ * The gain peaks at N (the array gain) when θ = θs.
+ *
+ * @param elements Number of antenna elements (N)
+ * @param spacing Element spacing in wavelengths (d / λ)
+ * @param steerDeg Steering angle θs from broadside, in degrees
+ * @param thetaDeg Observation angle θ from broadside, in degrees
+ */
+export function beamformingGain(elements: number, spacing: number, steerDeg: number, thetaDeg: number): number {
+  const psi = 2 * Math.PI * spacing * (Math.sin(thetaDeg * Math.PI / 180) - Math.sin(steerDeg * Math.PI / 180));
+  let re = 0;
+  let im = 0;
+  for (let n = 0; n < elements; n++) {
+    re += Math.cos(n * psi);
+    im += Math.sin(n * psi);
+  }
+  return (re * re + im * im) / elements;
+}
+
+export interface BeamformedUser {
+  angleDeg: number;
+  pathGain: number; // Linear large-scale gain relative to the reference distance
+}
+
+/**
+ * Downlink SINR of each user when the base station sends one steering-vector
+ * beam per user and splits the transmit power equally between them.
+ *
+ * SINR_k = (ρ/K) g_k G(θ_k; θ_k) / (1 + Σ_{j≠k} (ρ/K) g_k G(θ_k; θ_j))
+ *
+ * @param snrDb Total transmit SNR (ρ) at the reference distance, in dB
+ */
+export function beamformingSinr(users: BeamformedUser[], elements: number, spacing: number, snrDb: number): number[] {
+  const perUserSnr = Math.pow(10, snrDb / 10) / Math.max(users.length, 1);
+  return users.map((user, k) => {
+    const signal = perUserSnr * user.pathGain * beamformingGain(elements, spacing, user.angleDeg, user.angleDeg);
+    let interference = 0;
+    users.forEach((other, j) => {
+      if (j !== k) {
+        interference += perUserSnr * user.pathGain * beamformingGain(elements, spacing, other.angleDeg, user.angleDeg);
+      }
+    });
+    return signal / (1 + interference);
+  });
+}
+
+export interface ComplexMatrix {
+  re: number[][];
+  im: number[][];
+}
+
+// Standard normal sample via the Box-Muller transform
+function gaussian(): number {
+  const u1 = Math.random() || Number.MIN_VALUE;
+  const u2 = Math.random();
+  return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+}
+
+/** Exponential correlation model R_ij = ρ^|i-j| for an n-element array. */
+export function exponentialCorrelation(n: number, rho: number): number[][] {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => Math.pow(rho, Math.abs(i - j))));
+}
+
+interface KroneckerFactors {
+  rx: number[][];
+  tx: number[][];
+}
+
+function kroneckerFactors(nr: number, nt: number, correlation: number): KroneckerFactors | null {
+  if (correlation <= 0) return null;
+  return {
+    rx: math.sqrtm(exponentialCorrelation(nr, correlation)) as number[][],
+    tx: math.sqrtm(exponentialCorrelation(nt, correlation)) as number[][],
+  };
+}
+
+function drawChannel(nr: number, nt: number, factors: KroneckerFactors | null): ComplexMatrix {
+  const draw = () => Array.from({ length: nr }, () => Array.from({ length: nt }, () => gaussian() / Math.SQRT2));
+  const re = draw();
+  const im = draw();
+  if (!factors) return { re, im };
+
+  // The correlation factors are real, so they apply to both parts separately
+  const correlate = (part: number[][]) => math.multiply(math.multiply(factors.rx, part), factors.tx) as number[][];
+  return { re: correlate(re), im: correlate(im) };
+}
+
+/**
+ * Draws an N_r × N_t channel with CN(0, 1) entries (i.i.d. Rayleigh fading).
+ * With a non-zero correlation the Kronecker model H = R_r^{1/2} H_w R_t^{1/2}
+ * is applied, using the same exponential correlation at both ends.
+ */
+export function rayleighChannel(nr: number, nt: number, correlation = 0): ComplexMatrix {
+  return drawChannel(nr, nt, kroneckerFactors(nr, nt, correlation));
+}
+
+/** Entry-wise magnitudes |h_ij| of a channel matrix. */
+export function channelMagnitudes(h: ComplexMatrix): number[][] {
+  return h.re.map((row, i) => row.map((re, j) => Math.hypot(re, h.im[i][j])));
+}
+
+/**
+ * Eigen-channel gains λ_i = σ_i² of H (the eigenvalues of H Hᴴ), sorted in
+ * descending order. Only the min(N_t, N_r) non-trivial modes are returned.
+ */
+export function eigenChannelGains(h: ComplexMatrix): number[] {
+  const nr = h.re.length;
+  const nt = h.re[0]?.length ?? 0;
+  const H = math.matrix(h.re.map((row, i) => row.map((re, j) => math.complex(re, h.im[i][j]))));
+  const gram = nr <= nt ? math.multiply(H, math.ctranspose(H)) : math.multiply(math.ctranspose(H), H);
+  const values = math.eigs(gram).values as unknown as math.MathCollection;
+  return (math.flatten(values).valueOf() as (number | math.Complex)[])
+    .map(v => Math.max(0, typeof v === 'number' ? v : v.re))
+    .sort((a, b) => b - a)
+    .slice(0, Math.min(nr, nt));
+}
+
+/**
+ * Capacity with equal power per transmit antenna (no channel knowledge at the
+ * transmitter): C = log2 det(I + (ρ/N_t) H Hᴴ).
+ *
+ * Evaluated through a Cholesky factorisation on plain arrays, which keeps the
+ * Monte-Carlo loops behind the ergodic curves fast.
+ */
+export function equalPowerCapacity(h: ComplexMatrix, snrLinear: number): number {
+  const nr = h.re.length;
+  const nt = h.re[0]?.length ?? 0;
+  const scale = snrLinear / nt;
+
+  // A = I + scale · H Hᴴ (Hermitian positive definite)
+  const aRe: number[][] = [];
+  const aIm: number[][] = [];
+  for (let i = 0; i < nr; i++) {
+    aRe.push([]);
+    aIm.push([]);
+    for (let j = 0; j < nr; j++) {
+      let re = 0;
+      let im = 0;
+      for (let k = 0; k < nt; k++) {
+        // h_ik · conj(h_jk)
+        re += h.re[i][k] * h.re[j][k] + h.im[i][k] * h.im[j][k];
+        im += h.im[i][k] * h.re[j][k] - h.re[i][k] * h.im[j][k];
+      }
+      aRe[i].push((i === j ? 1 : 0) + scale * re);
+      aIm[i].push(scale * im);
+    }
+  }
+
+  // log det A = 2 Σ log L_ii with A = L Lᴴ
+  const lRe = aRe.map(row => row.map(() => 0));
+  const lIm = aIm.map(row => row.map(() => 0));
+  let logDet = 0;
+  for (let j = 0; j < nr; j++) {
+    let diag = aRe[j][j];
+    for (let k = 0; k < j; k++) diag -= lRe[j][k] * lRe[j][k] + lIm[j][k] * lIm[j][k];
+    const ljj = Math.sqrt(Math.max(diag, 1e-300));
+    lRe[j][j] = ljj;
+    logDet += 2 * Math.log2(ljj);
+    for (let i = j + 1; i < nr; i++) {
+      let re = aRe[i][j];
+      let im = aIm[i][j];
+      for (let k = 0; k < j; k++) {
+        // subtract L_ik · conj(L_jk)
+        re -= lRe[i][k] * lRe[j][k] + lIm[i][k] * lIm[j][k];
+        im -= lIm[i][k] * lRe[j][k] - lRe[i][k] * lIm[j][k];
+      }
+      lRe[i][j] = re / ljj;
+      lIm[i][j] = im / ljj;
+    }
+  }
+  return logDet;
+}
+
+export interface WaterFillingResult {
+  powers: number[]; // Fraction of the total power given to each eigen-channel (sums to 1)
+  level: number; // Water level μ
+  capacity: number; // bits/s/Hz
+}
+
+/**
+ * Water-filling over parallel eigen-channels with gains λ_i (descending) when
+ * the transmitter knows the channel:
+ *
+ * q_i = (μ - 1/(ρλ_i))⁺,  Σ q_i = 1,  C = Σ log2(1 + ρ q_i λ_i)
+ */
+export function waterFilling(gains: number[], snrLinear: number): WaterFillingResult {
+  const floors = gains.map(g => (g > 0 ? 1 / (snrLinear * g) : Infinity));
+  let active = gains.length;
+  let level = 0;
+  while (active > 0) {
+    const floorSum = floors.slice(0, active).reduce((sum, f) => sum + f, 0);
+    level = (1 + floorSum) / active;
+    if (level > floors[active - 1]) break;
+    active--;
+  }
+
+  const powers = floors.map((f, i) => (i < active ? Math.max(0, level - f) : 0));
+  const capacity = powers.reduce((sum, q, i) => sum + Math.log2(1 + snrLinear * q * gains[i]), 0);
+  return { powers, level, capacity };
+}
+
+/**
+ * Ergodic (average) equal-power capacity at each SNR, estimated by Monte-Carlo
+ * over `trials` channel realizations.
+ */
+export function ergodicCapacity(nt: number, nr: number, snrDbs: number[], correlation = 0, trials = 300): number[] {
+  const factors = kroneckerFactors(nr, nt, correlation);
+  const totals = snrDbs.map(() => 0);
+  for (let t = 0; t < trials; t++) {
+    const h = drawChannel(nr, nt, factors);
+    snrDbs.forEach((snrDb, idx) => {
+      totals[idx] += equalPowerCapacity(h, Math.pow(10, snrDb / 10));
+    });
+  }
+  return totals.map(total => total / trials);
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cost231Loss,
+  freeSpaceLoss,
+  hataLoss,
+  modelWarnings,
+  pathLoss,
+  seededRandom,
+  shadowAt,
+  shadowingField,
+  twoRayCrossover,
+  twoRayLoss,
+  type LinkParams
+} from './propagation';
+
+const LINK: LinkParams = { frequency: 900, baseHeight: 30, mobileHeight: 1.5, exponent: 3, referenceDistance: 100, area: 'urban' };
+
+describe('path loss models', () => {
+  it('gives the Friis loss at 1 km and 900 MHz', () => {
+    expect(freeSpaceLoss(1000, 900)).toBeCloseTo(91.52, 2);
+    expect(freeSpaceLoss(2000, 900) - freeSpaceLoss(1000, 900)).toBeCloseTo(6.02, 2);
+  });
+
+  it('reproduces the Okumura–Hata urban loss', () => {
+    expect(hataLoss(1000, LINK)).toBeCloseTo(126.40, 2);
+    // (44.9 − 6.55 log 30) dB per decade of distance
+    expect(hataLoss(10000, LINK) - hataLoss(1000, LINK)).toBeCloseTo(35.22, 2);
+  });
+
+  it('lowers the Hata loss outside the city', () => {
+    const urban = hataLoss(5000, LINK);
+    const suburban = hataLoss(5000, { ...LINK, area: 'suburban' });
+    const rural = hataLoss(5000, { ...LINK, area: 'rural' });
+    expect(urban - suburban).toBeCloseTo(9.94, 2);
+    expect(suburban).toBeGreaterThan(rural);
+  });
+
+  it('adds the 3 dB metropolitan correction only to urban COST-231', () => {
+    const link = { ...LINK, frequency: 1800 };
+    expect(cost231Loss(1000, link)).toBeCloseTo(139.20, 2);
+    expect(cost231Loss(1000, link) - cost231Loss(1000, { ...link, area: 'suburban' })).toBeCloseTo(3, 12);
+  });
+
+  it('falls off as d⁴ beyond the two-ray crossover', () => {
+    expect(twoRayCrossover(LINK)).toBeCloseTo(1697.6, 1);
+    expect(twoRayLoss(20000, LINK) - twoRayLoss(2000, LINK)).toBeCloseTo(40, 0);
+  });
+
+  it('joins free space and the log-distance slope at d0', () => {
+    expect(pathLoss('logDistance', 100, LINK)).toBeCloseTo(freeSpaceLoss(100, 900), 12);
+    expect(pathLoss('logDistance', 1000, LINK) - pathLoss('logDistance', 100, LINK)).toBeCloseTo(30, 12);
+    expect(pathLoss('simple', 1000, LINK)).toBeCloseTo(90, 12);
+  });
+
+  it('clamps every model at 1 m', () => {
+    expect(pathLoss('hata', 0, LINK)).toBe(pathLoss('hata', 1, LINK));
+    expect(Number.isFinite(pathLoss('twoRay', 0, LINK))).toBe(true);
+  });
+
+  it('warns when a link leaves the fitted range', () => {
+    expect(modelWarnings('hata', LINK, 10000)).toEqual([]);
+    expect(modelWarnings('hata', { ...LINK, frequency: 1800 }, 10000)).toEqual(['f = 1800 MHz is outside 150–1500 MHz']);
+    expect(modelWarnings('cost231', { ...LINK, frequency: 1800, area: 'rural' }, 500)).toHaveLength(2);
+    expect(modelWarnings('freeSpace', LINK, 100)).toEqual([]);
+  });
+});
+
+describe('seededRandom', () => {
+  it('replays the same sequence from a seed', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    first.forEach(x => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    });
+  });
+});
+
+describe('shadowingField', () => {
+  // Sample spacing 50 m, so neighbouring samples correlate by e^{-1}
+  const config = { sigma: 8, decorrelation: 50, correlation: 0.5, stations: 2, length: 100000, seed: 3 };
+  const field = shadowingField(config);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const covariance = (a: number[], b: number[]) => {
+    const ma = mean(a);
+    const mb = mean(b);
+    return mean(a.map((v, k) => (v - ma) * (b[k] - mb)));
+  };
+
+  it('is reproducible from its seed', () => {
+    expect(shadowingField(config)).toEqual(field);
+  });
+
+  it('has the requested standard deviation', () => {
+    field.values.forEach(values => expect(Math.abs(Math.sqrt(covariance(values, values)) - 8) / 8).toBeLessThan(0.15));
+  });
+
+  it('decorrelates as e^{-Δx/d_corr}', () => {
+    const values = field.values[0];
+    const lag = covariance(values.slice(1), values.slice(0, -1)) / covariance(values, values);
+    expect(Math.abs(lag - Math.exp(-1))).toBeLessThan(0.1);
+  });
+
+  it('correlates the stations by r', () => {
+    const [a, b] = field.values;
+    const r = covariance(a, b) / Math.sqrt(covariance(a, a) * covariance(b, b));
+    expect(Math.abs(r - 0.5)).toBeLessThan(0.1);
+  });
+
+  it('interpolates between samples and clamps at the route ends', () => {
+    const values = field.values[1];
+    expect(shadowAt(field, 1, 75)).toBeCloseTo((values[1] + values[2]) / 2, 12);
+    expect(shadowAt(field, 1, -10)).toBe(values[0]);
+    expect(shadowAt(field, 1, 2e6)).toBeCloseTo(values[values.length - 1], 12);
+  });
+});
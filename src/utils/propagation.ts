@@ -0,0 +1,214 @@
+export type PathLossModel = 'simple' | 'freeSpace' | 'logDistance' | 'hata' | 'cost231' | 'twoRay';
+
+export type HataArea = 'urban' | 'suburban' | 'rural';
+
+export const PATH_LOSS_MODELS: PathLossModel[] = ['simple', 'freeSpace', 'logDistance', 'hata', 'cost231', 'twoRay'];
+
+export const HATA_AREAS: HataArea[] = ['urban', 'suburban', 'rural'];
+
+export const MODEL_LABELS: Record<PathLossModel, string> = {
+  simple: 'Simple (10γ log d)',
+  freeSpace: 'Free Space',
+  logDistance: 'Log-Distance',
+  hata: 'Okumura–Hata',
+  cost231: 'COST-231 Hata',
+  twoRay: 'Two-Ray Ground'
+};
+
+export interface LinkParams {
+  frequency: number; // Carrier frequency, MHz
+  baseHeight: number; // Base station antenna height hb, m
+  mobileHeight: number; // Mobile antenna height hm, m
+  exponent: number; // Path loss exponent γ of the simple and log-distance models
+  referenceDistance: number; // d0 of the log-distance model, m
+  area: HataArea;
+}
+
+const SPEED_OF_LIGHT = 299792458;
+const MIN_DISTANCE = 1; // m; every model is clamped here so that log10(d) stays finite
+// Deepest two-ray null, relative to free space: |1 − e^{−jΔφ}|² is floored at 10⁻⁴
+const TWO_RAY_FLOOR = 1e-4;
+
+const log10 = Math.log10;
+
+/** Free-space (Friis) loss with isotropic antennas: 20 log10(d_km) + 20 log10(f_MHz) + 32.44. */
+export function freeSpaceLoss(d: number, frequency: number): number {
+  return 20 * log10(Math.max(d, MIN_DISTANCE) / 1000) + 20 * log10(frequency) + 32.44;
+}
+
+/**
+ * Mobile antenna correction a(hm) of the Hata model for a small or medium
+ * city. It is zero for hm ≈ 1.5 m and lowers the loss for taller masts.
+ */
+export function mobileHeightCorrection(frequency: number, mobileHeight: number): number {
+  return (1.1 * log10(frequency) - 0.7) * mobileHeight - (1.56 * log10(frequency) - 0.8);
+}
+
+/**
+ * Okumura–Hata median loss in an urban area, with the suburban and open-area
+ * corrections applied for the other areas.
+ *
+ * L = 69.55 + 26.16 log f − 13.82 log hb − a(hm) + (44.9 − 6.55 log hb) log d
+ */
+export function hataLoss(d: number, link: LinkParams): number {
+  const { frequency: f, baseHeight: hb } = link;
+  const dKm = Math.max(d, MIN_DISTANCE) / 1000;
+  const urban = 69.55 + 26.16 * log10(f) - 13.82 * log10(hb) - mobileHeightCorrection(f, link.mobileHeight)
+    + (44.9 - 6.55 * log10(hb)) * log10(dKm);
+  if (link.area === 'suburban') return urban - 2 * Math.pow(log10(f / 28), 2) - 5.4;
+  if (link.area === 'rural') return urban - 4.78 * Math.pow(log10(f), 2) + 18.33 * log10(f) - 40.94;
+  return urban;
+}
+
+/**
+ * COST-231 extension of Hata to 1500–2000 MHz. The metropolitan correction
+ * C = 3 dB applies to the urban area; suburban and rural use C = 0.
+ */
+export function cost231Loss(d: number, link: LinkParams): number {
+  const { frequency: f, baseHeight: hb } = link;
+  const dKm = Math.max(d, MIN_DISTANCE) / 1000;
+  const c = link.area === 'urban' ? 3 : 0;
+  return 46.3 + 33.9 * log10(f) - 13.82 * log10(hb) - mobileHeightCorrection(f, link.mobileHeight)
+    + (44.9 - 6.55 * log10(hb)) * log10(dKm) + c;
+}
+
+/**
+ * Two-ray ground reflection with a perfectly reflecting ground (Γ = −1): the
+ * direct and reflected rays interfere, so the loss oscillates around free
+ * space up to the crossover distance 4π·hb·hm/λ and then grows as
+ * 40 log d − 20 log(hb·hm).
+ */
+export function twoRayLoss(d: number, link: LinkParams): number {
+  const dist = Math.max(d, MIN_DISTANCE);
+  const wavelength = SPEED_OF_LIGHT / (link.frequency * 1e6);
+  const direct = Math.hypot(dist, link.baseHeight - link.mobileHeight);
+  const reflected = Math.hypot(dist, link.baseHeight + link.mobileHeight);
+  const phase = 2 * Math.PI * (reflected - direct) / wavelength;
+  const interference = Math.max(4 * Math.pow(Math.sin(phase / 2), 2), TWO_RAY_FLOOR);
+  return freeSpaceLoss(direct, link.frequency) - 10 * log10(interference);
+}
+
+/** Crossover distance beyond which the two-ray loss follows the d⁴ law, in metres. */
+export function twoRayCrossover(link: LinkParams): number {
+  const wavelength = SPEED_OF_LIGHT / (link.frequency * 1e6);
+  return 4 * Math.PI * link.baseHeight * link.mobileHeight / wavelength;
+}
+
+/** Path loss in dB at `d` metres from the base station. */
+export function pathLoss(model: PathLossModel, d: number, link: LinkParams): number {
+  const dist = Math.max(d, MIN_DISTANCE);
+  switch (model) {
+    case 'simple':
+      // The textbook form with 0 dB of loss at 1 m
+      return 10 * link.exponent * log10(dist);
+    case 'freeSpace':
+      return freeSpaceLoss(dist, link.frequency);
+    case 'logDistance':
+      // Free space up to d0, then γ from there on
+      if (dist <= link.referenceDistance) return freeSpaceLoss(dist, link.frequency);
+      return freeSpaceLoss(link.referenceDistance, link.frequency) + 10 * link.exponent * log10(dist / link.referenceDistance);
+    case 'hata':
+      return hataLoss(dist, link);
+    case 'cost231':
+      return cost231Loss(dist, link);
+    case 'twoRay':
+      return twoRayLoss(dist, link);
+  }
+}
+
+/**
+ * Ways in which the link falls outside the range a model was fitted to, for
+ * distances up to `maxDistance` metres. The loss is still computed, but it is
+ * an extrapolation.
+ */
+export function modelWarnings(model: PathLossModel, link: LinkParams, maxDistance: number): string[] {
+  const warnings: string[] = [];
+  if (model === 'hata' || model === 'cost231') {
+    const [fMin, fMax] = model === 'hata' ? [150, 1500] : [1500, 2000];
+    if (link.frequency < fMin || link.frequency > fMax) warnings.push(`f = ${link.frequency} MHz is outside ${fMin}–${fMax} MHz`);
+    if (link.baseHeight < 30 || link.baseHeight > 200) warnings.push(`hb = ${link.baseHeight} m is outside 30–200 m`);
+    if (link.mobileHeight < 1 || link.mobileHeight > 10) warnings.push(`hm = ${link.mobileHeight} m is outside 1–10 m`);
+    if (maxDistance < 1000 || maxDistance > 20000) warnings.push('Fitted for 1–20 km; shorter distances are extrapolated');
+    if (model === 'cost231' && link.area === 'rural') warnings.push('COST-231 has no open-area correction; rural uses C = 0');
+  }
+  if (model === 'logDistance' && link.referenceDistance >= maxDistance) {
+    warnings.push('d0 exceeds the tower spacing, so the whole run is free space');
+  }
+  return warnings;
+}
+
+/** Mulberry32: a small seeded generator, so that a shadowing field can be replayed from its seed. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample (Box–Muller). */
+export function gaussian(rng: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+}
+
+export interface ShadowingConfig {
+  sigma: number; // Standard deviation, dB
+  decorrelation: number; // Distance at which the correlation falls to 1/e, m
+  correlation: number; // Cross-correlation between the stations, 0–1
+  stations: number;
+  length: number; // Route length, m
+  seed: number;
+}
+
+export interface ShadowingField {
+  step: number; // Sample spacing along the route, m
+  values: number[][]; // values[station][k] in dB, at position k·step
+}
+
+const SHADOW_SAMPLES = 2000;
+
+/**
+ * Log-normal shadowing of every station's link, sampled along the route.
+ *
+ * Each link is a Gaussian process in the UE position with Gudmundson's
+ * exponential autocorrelation R(Δx) = σ² e^{−|Δx|/d_corr}, generated as a
+ * first-order autoregression with ρ = e^{−step/d_corr}. A component shared by
+ * all stations, weighted by √r against the station's own √(1 − r), gives the
+ * links a cross-correlation r: the obstacles around the UE shadow every
+ * station at once.
+ */
+export function shadowingField(config: ShadowingConfig): ShadowingField {
+  const step = config.length / SHADOW_SAMPLES;
+  const rho = Math.exp(-step / Math.max(config.decorrelation, 1e-9));
+  const innovation = Math.sqrt(1 - rho * rho);
+  const rng = seededRandom(config.seed);
+  const shared = Math.sqrt(config.correlation);
+  const own = Math.sqrt(1 - config.correlation);
+
+  // Unit-variance AR(1) processes: one common, one per station
+  const common = gaussianProcess(rng, rho, innovation);
+  const values = Array.from({ length: config.stations }, () => {
+    const local = gaussianProcess(rng, rho, innovation);
+    return common.map((c, k) => config.sigma * (shared * c + own * local[k]));
+  });
+  return { step, values };
+}
+
+function gaussianProcess(rng: () => number, rho: number, innovation: number): number[] {
+  const samples = [gaussian(rng)];
+  for (let k = 1; k <= SHADOW_SAMPLES; k++) {
+    samples.push(rho * samples[k - 1] + innovation * gaussian(rng));
+  }
+  return samples;
+}
+
+/** Shadowing of a station's link at position `x`, interpolated between samples. */
+export function shadowAt(field: ShadowingField, station: number, x: number): number {
+  const samples = field.values[station];
+  const t = Math.min(Math.max(x / field.step, 0), samples.length - 1);
+  const k = Math.min(Math.floor(t), samples.length - 2);
+  return samples[k] + (samples[k + 1] - samples[k]) * (t - k);
+}
@@ -0,0 +1,60 @@
+import type { TabId } from '../components/Sidebar';
+
+export const TAB_IDS: readonly TabId[] = [
+  'home',
+  'cellular',
+  'trunking',
+  'handoff',
+  'doppler',
+  'multipath',
+  'signal-recovery',
+  'modulation',
+  'mimo',
+];
+
+export interface Route {
+  tab: TabId;
+  params: URLSearchParams;
+}
+
+export function isTabId(value: string): value is TabId {
+  return (TAB_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Parses a location hash of the form `#/trunking?channels=12&arrivalRate=8`.
+ * Unknown tabs fall back to Home.
+ */
+export function parseRoute(hash: string): Route {
+  const raw = hash.replace(/^#\/?/, '');
+  const queryStart = raw.indexOf('?');
+  const path = queryStart === -1 ? raw : raw.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : raw.slice(queryStart + 1);
+
+  return {
+    tab: isTabId(path) ? path : 'home',
+    params: new URLSearchParams(query),
+  };
+}
+
+export function buildRoute(tab: TabId, params?: URLSearchParams): string {
+  const query = params?.toString();
+  return `#/${tab}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Writes (or removes, when `value` is null) a single parameter of the current
+ * route. Uses replaceState so moving a slider does not flood the history stack.
+ */
+export function writeRouteParam(key: string, value: string | null) {
+  const { tab, params } = parseRoute(window.location.hash);
+  if (value === null) {
+    params.delete(key);
+  } else {
+    params.set(key, value);
+  }
+  const next = buildRoute(tab, params);
+  if (next !== window.location.hash) {
+    window.history.replaceState(window.history.state, '', next);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILT_IN_SCENARIOS,
+  SCENARIO_FILE_FORMAT,
+  SCENARIO_FILE_VERSION,
+  fitsSchema,
+  parseScenarioFile,
+  serializeScenarios,
+  validateScenarioParams
+} from './scenarios';
+
+const fileWith = (scenarios: unknown) => JSON.stringify({ format: SCENARIO_FILE_FORMAT, version: SCENARIO_FILE_VERSION, scenarios });
+
+describe('built-in scenarios', () => {
+  it.each(BUILT_IN_SCENARIOS.map(s => [s.name, s] as const))('%s fits its module schema', (_, scenario) => {
+    expect(validateScenarioParams(scenario.moduleId, scenario.params)).toBeNull();
+  });
+});
+
+describe('fitsSchema', () => {
+  it('checks every entry of a stored list', () => {
+    expect(fitsSchema('trunking', 'gosColumns', [1, 2, 5])).toBe(true);
+    expect(fitsSchema('trunking', 'gosColumns', [1, 150])).toBe(false);
+    expect(fitsSchema('trunking', 'gosColumns', [1, '2'])).toBe(false);
+    expect(fitsSchema('cellular', 'splitCells', ['0,0', 'x'])).toBe(false);
+    expect(fitsSchema('multipath', 'buildings', [{ id: 1, x: 10 }])).toBe(false);
+  });
+
+  it('wants a value for every hour of a custom profile', () => {
+    expect(fitsSchema('trunking', 'customProfile', new Array(24).fill(0.5))).toBe(true);
+    expect(fitsSchema('trunking', 'customProfile', [0.5])).toBe(false);
+  });
+
+  it('lets parameters without a schema through', () => {
+    expect(fitsSchema('trunking', 'batchCalls', 10000)).toBe(true);
+  });
+});
+
+describe('parseScenarioFile', () => {
+  it('reads back an export', () => {
+    expect(parseScenarioFile(serializeScenarios(BUILT_IN_SCENARIOS))).toEqual(BUILT_IN_SCENARIOS);
+  });
+
+  it('rejects files that are not scenario exports', () => {
+    expect(() => parseScenarioFile('{')).toThrow('File is not valid JSON');
+    expect(() => parseScenarioFile('null')).toThrow('File is not a Wireless Lab scenario export');
+    expect(() => parseScenarioFile(JSON.stringify({ format: SCENARIO_FILE_FORMAT, version: 99, scenarios: [] }))).toThrow('Unsupported scenario file version 99');
+    expect(() => parseScenarioFile(fileWith({}))).toThrow('File contains no scenario list');
+  });
+
+  it('names the scenario that fails validation', () => {
+    expect(() => parseScenarioFile(fileWith([null]))).toThrow('Scenario #1 has no name');
+    expect(() => parseScenarioFile(fileWith([{ name: 'Moon', module: 'moon', params: {} }]))).toThrow('Scenario "Moon" targets an unknown module');
+    expect(() => parseScenarioFile(fileWith([{ name: 'Fast', module: 'handoff', params: { speed: 500 } }]))).toThrow('Scenario "Fast": speed must be between');
+  });
+});
@@ -0,0 +1,590 @@
+import type { TabId } from '../components/Sidebar';
+import { isTabId } from './routing';
+
+export const SCENARIO_FILE_FORMAT = 'wireless-lab-scenarios';
+export const SCENARIO_FILE_VERSION = 1;
+
+export type ScenarioParams = Record<string, unknown>;
+
+export interface Scenario {
+  moduleId: TabId;
+  name: string;
+  description?: string;
+  params: ScenarioParams;
+}
+
+export type FieldSchema =
+  | { type: 'number'; min: number; max: number }
+  | { type: 'boolean' }
+  | { type: 'string'; values?: readonly string[]; pattern?: RegExp }
+  | { type: 'list'; item: Record<string, FieldSchema>; maxLength: number } // List of records
+  | { type: 'array'; item: FieldSchema; maxLength: number; minLength?: number }; // List of plain values
+
+type ModuleSchema = Record<string, FieldSchema>;
+
+/**
+ * Parameters a scenario may carry for each module, mirroring the ranges of the
+ * simulators' own controls. Modules without an entry cannot store scenarios.
+ */
+export const SCENARIO_SCHEMAS: Partial<Record<TabId, ModuleSchema>> = {
+  cellular: {
+    i: { type: 'number', min: 0, max: 7 },
+    j: { type: 'number', min: 0, max: 7 },
+    pathLossExponent: { type: 'number', min: 2, max: 5 },
+    interfererTiers: { type: 'number', min: 1, max: 2 },
+    requiredSir: { type: 'number', min: 0, max: 30 },
+    sectoring: { type: 'string', values: ['omni', '120', '60'] },
+    cellChannels: { type: 'number', min: 6, max: 120 },
+    sectorGos: { type: 'number', min: 0.1, max: 20 },
+    mapView: { type: 'string', values: ['reuse', 'sinr'] },
+    txPower: { type: 'number', min: 20, max: 50 },
+    noiseFloor: { type: 'number', min: -120, max: -60 },
+    // Each of the 37 splittable cells can be split twice
+    splitCells: { type: 'array', maxLength: 74, item: { type: 'string', pattern: /^-?\d+,-?\d+$/ } },
+    allocStrategy: { type: 'string', values: ['fixed', 'borrowing', 'dynamic'] },
+    allocChannels: { type: 'number', min: 2, max: 20 },
+    allocLoad: { type: 'number', min: 0.5, max: 15 },
+    hotspotLoad: { type: 'number', min: 0.5, max: 20 },
+    catalogMaxN: { type: 'number', min: 3, max: 49 },
+    spectrumChannels: { type: 'number', min: 50, max: 1000 },
+  },
+  trunking: {
+    channels: { type: 'number', min: 1, max: 50 },
+    arrivalRate: { type: 'number', min: 0.1, max: 20 },
+    serviceRate: { type: 'number', min: 0.1, max: 5 },
+    mode: { type: 'string', values: ['cleared', 'delayed'] },
+    waitThreshold: { type: 'number', min: 0, max: 2 },
+    sourceModel: { type: 'string', values: ['infinite', 'finite'] },
+    population: { type: 'number', min: 1, max: 200 },
+    handoffPriority: { type: 'boolean' },
+    handoffRate: { type: 'number', min: 0.1, max: 20 },
+    guardChannels: { type: 'number', min: 0, max: 10 },
+    retrials: { type: 'boolean' },
+    retryProbability: { type: 'number', min: 0, max: 0.95 },
+    retryDelay: { type: 'number', min: 0.05, max: 5 },
+    trafficProfile: { type: 'string', values: ['flat', 'office', 'residential', 'stadium', 'custom'] },
+    customProfile: { type: 'array', minLength: 24, maxLength: 24, item: { type: 'number', min: 0, max: 1 } },
+    planGos: { type: 'number', min: 0.1, max: 20 },
+    planTraffic: { type: 'number', min: 0.1, max: 200 },
+    planChannels: { type: 'number', min: 1, max: 200 },
+    gosColumns: { type: 'array', maxLength: 6, item: { type: 'number', min: 0.01, max: 99 } },
+  },
+  handoff: {
+    speed: { type: 'number', min: 5, max: 150 },
+    handoffMode: { type: 'string', values: ['threshold', 'hysteresis', 'a3'] },
+    thresholdMargin: { type: 'number', min: 0, max: 20 },
+    hysteresisMargin: { type: 'number', min: 0, max: 20 },
+    environment: { type: 'string', values: ['urban', 'highway'] },
+    a3Offset: { type: 'number', min: -5, max: 15 },
+    a3Hysteresis: { type: 'number', min: 0, max: 10 },
+    timeToTrigger: { type: 'number', min: 0, max: 5120 },
+    filterK: { type: 'number', min: 0, max: 19 },
+    pathLossModel: { type: 'string', values: ['simple', 'freeSpace', 'logDistance', 'hata', 'cost231', 'twoRay'] },
+    txPower: { type: 'number', min: 0, max: 60 },
+    frequency: { type: 'number', min: 100, max: 3000 },
+    baseHeight: { type: 'number', min: 10, max: 200 },
+    mobileHeight: { type: 'number', min: 1, max: 10 },
+    referenceDistance: { type: 'number', min: 1, max: 1000 },
+    hataArea: { type: 'string', values: ['urban', 'suburban', 'rural'] },
+    shadowing: { type: 'boolean' },
+    shadowSigma: { type: 'number', min: 0, max: 12 },
+    decorrelation: { type: 'number', min: 5, max: 500 },
+    stationCorrelation: { type: 'number', min: 0, max: 1 },
+    seed: { type: 'number', min: 1, max: 99999 },
+    corridor: { type: 'boolean' },
+    corridorLength: { type: 'number', min: 1000, max: 20000 },
+    stations: {
+      type: 'list',
+      maxLength: 8,
+      item: {
+        id: { type: 'number', min: 0, max: Number.MAX_SAFE_INTEGER },
+        pos: { type: 'number', min: 0, max: 20000 },
+        txPower: { type: 'number', min: 0, max: 60 },
+        height: { type: 'number', min: 10, max: 200 },
+      },
+    },
+    umbrella: { type: 'boolean' },
+    umbrellaPower: { type: 'number', min: 20, max: 60 },
+    umbrellaHeight: { type: 'number', min: 10, max: 200 },
+    speedThreshold: { type: 'number', min: 10, max: 120 },
+    speedEstimator: { type: 'string', values: ['dwell', 'rate'] },
+  },
+  doppler: {
+    velocity: { type: 'number', min: 0, max: 200 },
+    frequency: { type: 'number', min: 1, max: 5 },
+  },
+  multipath: {
+    buildings: {
+      type: 'list',
+      maxLength: 20,
+      item: {
+        id: { type: 'number', min: 0, max: Number.MAX_SAFE_INTEGER },
+        x: { type: 'number', min: 0, max: 2000 },
+        y: { type: 'number', min: 0, max: 2000 },
+      },
+    },
+  },
+  'signal-recovery': {
+    signalType: { type: 'string', values: ['binary', 'pilot'] },
+    inputBits: { type: 'string', pattern: /^[01]{0,10}$/ },
+    noise: { type: 'number', min: 0, max: 0.5 },
+    taps: {
+      type: 'list',
+      maxLength: 10,
+      item: {
+        delay: { type: 'number', min: 0, max: 30 },
+        amp: { type: 'number', min: -1, max: 1 },
+      },
+    },
+  },
+  mimo: {
+    view: { type: 'string', values: ['beamforming', 'multiplexing'] },
+    elements: { type: 'number', min: 2, max: 32 },
+    spacing: { type: 'number', min: 0.1, max: 1.5 },
+    snr: { type: 'number', min: -10, max: 30 },
+    users: {
+      type: 'list',
+      maxLength: 4,
+      item: {
+        id: { type: 'number', min: 0, max: Number.MAX_SAFE_INTEGER },
+        x: { type: 'number', min: 0, max: 800 },
+        y: { type: 'number', min: 0, max: 400 },
+      },
+    },
+    nt: { type: 'number', min: 1, max: 8 },
+    nr: { type: 'number', min: 1, max: 8 },
+    capacitySnr: { type: 'number', min: -10, max: 30 },
+    channelModel: { type: 'string', values: ['iid', 'kronecker'] },
+    correlation: { type: 'number', min: 0, max: 0.95 },
+  },
+  modulation: {
+    bandwidth: { type: 'number', min: 1, max: 10 },
+    carrier: { type: 'number', min: 0, max: 100 },
+    modulationIndex: { type: 'number', min: 0.1, max: 1 },
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateField(value: unknown, schema: FieldSchema, path: string): string | null {
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a number`;
+      if (value < schema.min || value > schema.max) return `${path} must be between ${schema.min} and ${schema.max}`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be true or false`;
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string`;
+      if (schema.values && !schema.values.includes(value)) return `${path} must be one of ${schema.values.join(', ')}`;
+      if (schema.pattern && !schema.pattern.test(value)) return `${path} has an invalid format`;
+      return null;
+    case 'list':
+      if (!Array.isArray(value)) return `${path} must be a list`;
+      if (value.length > schema.maxLength) return `${path} has more than ${schema.maxLength} entries`;
+      for (let idx = 0; idx < value.length; idx++) {
+        const entry = value[idx];
+        if (typeof entry !== 'object' || entry === null) return `${path}[${idx}] must be an object`;
+        for (const [key, itemSchema] of Object.entries(schema.item)) {
+          const error = validateField((entry as Record<string, unknown>)[key], itemSchema, `${path}[${idx}].${key}`);
+          if (error) return error;
+        }
+      }
+      return null;
+    case 'array':
+      if (!Array.isArray(value)) return `${path} must be a list`;
+      if (value.length > schema.maxLength) return `${path} has more than ${schema.maxLength} entries`;
+      if (schema.minLength !== undefined && value.length < schema.minLength) return `${path} has fewer than ${schema.minLength} entries`;
+      for (let idx = 0; idx < value.length; idx++) {
+        const error = validateField(value[idx], schema.item, `${path}[${idx}]`);
+        if (error) return error;
+      }
+      return null;
+  }
+}
+
+/**
+ * True when a single parameter fits its module schema, e.g. a value read back
+ * from storage. Parameters without a schema entry always fit.
+ */
+export function fitsSchema(moduleId: TabId, key: string, value: unknown): boolean {
+  const schema = SCENARIO_SCHEMAS[moduleId]?.[key];
+  return !schema || validateField(value, schema, key) === null;
+}
+
+/**
+ * Checks a scenario's parameters against its module schema. Missing keys are
+ * allowed (the simulator uses its default), unknown keys are rejected.
+ * Returns a human-readable error, or null when the parameters are valid.
+ */
+export function validateScenarioParams(moduleId: TabId, params: unknown): string | null {
+  const schema = SCENARIO_SCHEMAS[moduleId];
+  if (!schema) return `Module "${moduleId}" does not support scenarios`;
+  if (!isRecord(params)) return 'Parameters must be an object';
+
+  for (const [key, value] of Object.entries(params)) {
+    const fieldSchema = schema[key];
+    if (!fieldSchema) return `Unknown parameter "${key}" for module "${moduleId}"`;
+    const error = validateField(value, fieldSchema, key);
+    if (error) return error;
+  }
+  return null;
+}
+
+/** Keeps only the keys a module's schema knows about, e.g. when saving the live state. */
+export function pickScenarioParams(moduleId: TabId, values: ScenarioParams): ScenarioParams {
+  const schema = SCENARIO_SCHEMAS[moduleId] ?? {};
+  return Object.fromEntries(Object.entries(values).filter(([key]) => key in schema));
+}
+
+export function serializeScenarios(scenarios: Scenario[]): string {
+  return JSON.stringify({
+    format: SCENARIO_FILE_FORMAT,
+    version: SCENARIO_FILE_VERSION,
+    scenarios: scenarios.map(({ moduleId, name, description, params }) => ({ module: moduleId, name, description, params })),
+  }, null, 2);
+}
+
+/**
+ * Parses an exported scenario file. The whole file is rejected with a
+ * descriptive Error if any scenario in it fails validation.
+ */
+export function parseScenarioFile(text: string): Scenario[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== SCENARIO_FILE_FORMAT) throw new Error('File is not a Wireless Lab scenario export');
+  if (data.version !== SCENARIO_FILE_VERSION) throw new Error(`Unsupported scenario file version ${String(data.version)}`);
+  if (!Array.isArray(data.scenarios)) throw new Error('File contains no scenario list');
+
+  return data.scenarios.map((entry: unknown, idx: number): Scenario => {
+    const name = isRecord(entry) && typeof entry.name === 'string' ? entry.name : null;
+    const label = name !== null ? `"${name}"` : `#${idx + 1}`;
+    if (!isRecord(entry) || name === null || name.trim() === '') throw new Error(`Scenario ${label} has no name`);
+    const moduleId = entry.module;
+    if (typeof moduleId !== 'string' || !isTabId(moduleId)) throw new Error(`Scenario ${label} targets an unknown module`);
+    const error = validateScenarioParams(moduleId, entry.params);
+    if (error) throw new Error(`Scenario ${label}: ${error}`);
+    return {
+      moduleId,
+      name: name.trim(),
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+      params: entry.params as ScenarioParams, // Validated above
+    };
+  });
+}
+
+/** Curated textbook setups shipped with the app. */
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    moduleId: 'cellular',
+    name: '3-cell cluster',
+    description: 'i=1, j=1: the tightest practical reuse, highest interference.',
+    params: { i: 1, j: 1 },
+  },
+  {
+    moduleId: 'cellular',
+    name: '7-cell cluster',
+    description: 'i=2, j=1: the classic AMPS/GSM reuse pattern.',
+    params: { i: 2, j: 1 },
+  },
+  {
+    moduleId: 'cellular',
+    name: '12-cell cluster',
+    description: 'i=2, j=2: large reuse distance for interference-limited systems.',
+    params: { i: 2, j: 2 },
+  },
+  {
+    moduleId: 'cellular',
+    name: '18 dB target in a dense city',
+    description: 'n = 4 with both interfering tiers: N = 7 falls just short of 18 dB at the cell corner, so N = 9 is needed.',
+    params: { i: 2, j: 1, pathLossExponent: 4, interfererTiers: 2, requiredSir: 18 },
+  },
+  {
+    moduleId: 'cellular',
+    name: '120° sectoring of a 7-cell plan',
+    description: 'Three sectors cut i0 from 6 to 2 for about 6 dB more S/I, at the cost of splitting 60 channels into groups of 20.',
+    params: { i: 2, j: 1, pathLossExponent: 4, interfererTiers: 1, sectoring: '120', cellChannels: 60, sectorGos: 2 },
+  },
+  {
+    moduleId: 'cellular',
+    name: 'Noise-limited cell edge',
+    description: 'At 30 dBm against a −100 dBm floor the median SINR of a 7-cell plan drops from 24 dB to about 18 dB: half the cell misses an 18 dB target.',
+    params: { i: 2, j: 1, pathLossExponent: 4, sectoring: 'omni', requiredSir: 18, mapView: 'sinr', txPower: 30, noiseFloor: -100 },
+  },
+  {
+    moduleId: 'cellular',
+    name: 'Splitting a downtown hotspot',
+    description: 'The centre cell goes down to R/4 and its six neighbours to R/2: 37 cells become 70 and the area carries 1.9× the traffic, with micro and pico sites 12 and 24 dB below the macro power.',
+    params: { i: 2, j: 1, pathLossExponent: 4, mapView: 'reuse', splitCells: ['0,0', '0,0', '1,0', '0,1', '-1,1', '-1,0', '0,-1', '1,-1'] },
+  },
+  {
+    moduleId: 'cellular',
+    name: 'Borrowing for a hotspot',
+    description: 'Seven centre cells offered 9 Erl on 8 channels block about 29% of calls with fixed allocation; borrowing idle channels from the lightly loaded ring brings that to about 21%.',
+    params: { i: 2, j: 1, allocStrategy: 'borrowing', allocChannels: 8, allocLoad: 3, hotspotLoad: 9 },
+  },
+  {
+    moduleId: 'cellular',
+    name: 'Nine-cell (3, 0) tiling',
+    description: 'gcd(3, 0) = 3, so the (q·i + r·(i + j)) mod N shortcut yields only three channel sets; the tiling check confirms the map uses all nine, 5.2R apart.',
+    params: { i: 3, j: 0, catalogMaxN: 28 },
+  },
+  {
+    moduleId: 'trunking',
+    name: '1% GoS with 10 channels',
+    description: 'A ≈ 4.5 Erlangs on 10 trunks gives about 1% blocking.',
+    params: { channels: 10, arrivalRate: 4.5, serviceRate: 1 },
+  },
+  {
+    moduleId: 'trunking',
+    name: '2% GoS with 20 channels',
+    description: 'A ≈ 13.2 Erlangs on 20 trunks gives about 2% blocking.',
+    params: { channels: 20, arrivalRate: 13.2, serviceRate: 1 },
+  },
+  {
+    moduleId: 'trunking',
+    name: 'Overloaded cell',
+    description: 'Offered traffic twice the channel count: most calls are blocked.',
+    params: { channels: 5, arrivalRate: 10, serviceRate: 1 },
+  },
+  {
+    moduleId: 'trunking',
+    name: 'Call-center queue',
+    description: 'Blocked Calls Delayed with A = 7 Erlangs on 10 agents: about 22% of callers wait.',
+    params: { channels: 10, arrivalRate: 7, serviceRate: 1, mode: 'delayed', waitThreshold: 0.1 },
+  },
+  {
+    moduleId: 'trunking',
+    name: 'Small office PBX',
+    description: '10 extensions sharing 5 trunks: Engset blocking is far below the Erlang B estimate.',
+    params: { channels: 5, arrivalRate: 3, serviceRate: 1, sourceModel: 'finite', population: 10 },
+  },
+  {
+    moduleId: 'trunking',
+    name: 'Handoff priority with guard channels',
+    description: 'Two of 10 channels reserved for handoffs: dropping falls to about 0.08% while new-call blocking rises to about 8%.',
+    params: { channels: 10, arrivalRate: 4, serviceRate: 1, handoffPriority: true, handoffRate: 1, guardChannels: 2 },
+  },
+  {
+    moduleId: 'trunking',
+    name: 'Persistent redialers',
+    description: '80% of blocked callers try again: the fixed point raises attempt blocking from the 7.9% Erlang B figure to about 10.6%.',
+    params: { channels: 10, arrivalRate: 7, serviceRate: 1, retrials: true, retryProbability: 0.8, retryDelay: 2 },
+  },
+  {
+    moduleId: 'trunking',
+    name: 'Office busy hour',
+    description: 'A business-day profile peaking at 10:00: 10 channels handle the day on average but block about 17% in the busy hour.',
+    params: { channels: 10, arrivalRate: 9, serviceRate: 1, trafficProfile: 'office' },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Ping-pong demonstration',
+    description: 'Threshold mode with a 20 dB margin in the city: both towers fall below the threshold mid-route.',
+    params: { handoffMode: 'threshold', thresholdMargin: 20, environment: 'urban', speed: 50, seed: 2 },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Late handoff',
+    description: 'A 20 dB hysteresis margin keeps the UE on BS 1 deep into BS 2 territory. Shadowing is off; with it on, the weak BS 1 link drops the call first.',
+    params: { handoffMode: 'hysteresis', hysteresisMargin: 20, environment: 'highway', speed: 100, shadowing: false },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Hysteresis on the highway',
+    description: 'A 6 dB hysteresis margin gives a single clean handoff past the midpoint.',
+    params: { handoffMode: 'hysteresis', hysteresisMargin: 6, environment: 'highway', speed: 100 },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Rural Hata macrocells',
+    description: 'Okumura–Hata over open country, 43 dBm from 50 m masts 10 km apart: the midpoint sits near −75 dBm and a 6 dB hysteresis hands off at about 6 km.',
+    params: { handoffMode: 'hysteresis', hysteresisMargin: 6, environment: 'highway', speed: 100, pathLossModel: 'hata', hataArea: 'rural', txPower: 43, baseHeight: 50, shadowing: false },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Shadowing without hysteresis',
+    description: 'Zero hysteresis under 4 dB correlated shadowing: the UE hands off 19 times as the two shadowed traces cross back and forth between 3.4 and 6.2 km.',
+    params: { handoffMode: 'hysteresis', hysteresisMargin: 0, environment: 'highway', speed: 100, shadowing: true, shadowSigma: 4, seed: 1 },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'A3 time-to-trigger',
+    description: 'LTE/NR event A3 with a 3 dB offset and 1 dB hysteresis on the same shadowed route: a 320 ms time-to-trigger still hands off three times, while 1280 ms (loaded here) waits out the fades for one handoff at about 5.4 km.',
+    params: { handoffMode: 'a3', a3Offset: 3, a3Hysteresis: 1, timeToTrigger: 1280, filterK: 4, environment: 'highway', speed: 100, shadowing: true, shadowSigma: 4, seed: 1 },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Four-cell corridor',
+    description: 'Four stations 2 km apart on a 6 km road with a 6 dB hysteresis: three handoffs without fading, five on this shadowed route as the UE bounces between BS 2 and BS 3.',
+    params: {
+      corridor: true,
+      corridorLength: 6000,
+      stations: [
+        { id: 1, pos: 0, txPower: 30, height: 30 },
+        { id: 2, pos: 2000, txPower: 30, height: 30 },
+        { id: 3, pos: 4000, txPower: 30, height: 30 },
+        { id: 4, pos: 6000, txPower: 30, height: 30 },
+      ],
+      handoffMode: 'hysteresis', hysteresisMargin: 6, environment: 'highway', speed: 100, shadowing: true, shadowSigma: 4, seed: 1,
+    },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Corridor with a coverage hole',
+    description: 'Okumura–Hata macrocells with a missing site: no station reaches Pmin between about 5.5 and 6 km, so the call drops there despite two clean handoffs.',
+    params: {
+      corridor: true,
+      corridorLength: 9500,
+      stations: [
+        { id: 1, pos: 0, txPower: 43, height: 30 },
+        { id: 2, pos: 2000, txPower: 43, height: 30 },
+        { id: 3, pos: 4000, txPower: 43, height: 30 },
+        { id: 4, pos: 7500, txPower: 43, height: 30 },
+        { id: 5, pos: 9500, txPower: 43, height: 30 },
+      ],
+      pathLossModel: 'hata', hataArea: 'urban', handoffMode: 'hysteresis', hysteresisMargin: 3, environment: 'highway', speed: 100, shadowing: false,
+    },
+  },
+  {
+    moduleId: 'handoff',
+    name: 'Umbrella over microcells',
+    description: 'Five 15 dBm microcells 400 m apart, the outer ones 200 m from the ends of the road, under a 43 dBm umbrella. At 100 km/h the first full microcell dwell reveals the speed and the car moves to the umbrella at about 0.86 km: two handoffs instead of four. At 35 km/h or slower the UE stays in the microcells to the end of the road.',
+    params: {
+      corridor: true,
+      corridorLength: 2000,
+      stations: [
+        { id: 1, pos: 200, txPower: 15, height: 10 },
+        { id: 2, pos: 600, txPower: 15, height: 10 },
+        { id: 3, pos: 1000, txPower: 15, height: 10 },
+        { id: 4, pos: 1400, txPower: 15, height: 10 },
+        { id: 5, pos: 1800, txPower: 15, height: 10 },
+      ],
+      umbrella: true, umbrellaPower: 43, umbrellaHeight: 50, speedThreshold: 40, speedEstimator: 'dwell',
+      handoffMode: 'hysteresis', hysteresisMargin: 3, environment: 'urban', speed: 100, shadowing: true, shadowSigma: 4, seed: 1,
+    },
+  },
+  {
+    moduleId: 'doppler',
+    name: 'Pedestrian',
+    description: 'Walking speed at 1.8 GHz: a shift of only a few hertz.',
+    params: { velocity: 5, frequency: 1.8 },
+  },
+  {
+    moduleId: 'doppler',
+    name: 'High-speed train',
+    description: '200 km/h at 5 GHz: close to a 1 kHz maximum shift.',
+    params: { velocity: 200, frequency: 5 },
+  },
+  {
+    moduleId: 'multipath',
+    name: 'Single reflector',
+    description: 'One building close to the road: a single strong echo.',
+    params: { buildings: [{ id: 1, x: 400, y: 280 }] },
+  },
+  {
+    moduleId: 'multipath',
+    name: 'Urban canyon',
+    description: 'Buildings lining both sides of the route create a dense power delay profile.',
+    params: {
+      buildings: [
+        { id: 1, x: 200, y: 250 },
+        { id: 2, x: 320, y: 180 },
+        { id: 3, x: 440, y: 250 },
+        { id: 4, x: 560, y: 180 },
+        { id: 5, x: 680, y: 250 },
+      ],
+    },
+  },
+  {
+    moduleId: 'multipath',
+    name: 'Long-delay echo',
+    description: 'A distant reflector far from both ends produces a large delay spread.',
+    params: { buildings: [{ id: 1, x: 750, y: 30 }] },
+  },
+  {
+    moduleId: 'signal-recovery',
+    name: 'Deep fade',
+    description: 'An almost equal, inverted echo one sample later nulls the spectrum near DC.',
+    params: { signalType: 'binary', inputBits: '10110', noise: 0, taps: [{ delay: 0, amp: 1 }, { delay: 1, amp: -0.9 }] },
+  },
+  {
+    moduleId: 'signal-recovery',
+    name: 'Channel sounding with a pilot',
+    description: 'Send a pilot impulse through a three-tap channel to read h(t) directly.',
+    params: { signalType: 'pilot', noise: 0, taps: [{ delay: 0, amp: 1 }, { delay: 5, amp: 0.5 }, { delay: 12, amp: -0.3 }] },
+  },
+  {
+    moduleId: 'signal-recovery',
+    name: 'Noisy equalization',
+    description: 'Zero-forcing amplifies noise where |H(f)| is small.',
+    params: { signalType: 'binary', inputBits: '1011001110', noise: 0.3, taps: [{ delay: 0, amp: 1 }, { delay: 3, amp: 0.8 }] },
+  },
+  {
+    moduleId: 'modulation',
+    name: 'AM broadcast (1 MHz)',
+    description: 'Medium-wave carrier: a quarter-wave antenna is a 75 m mast.',
+    params: { carrier: 30.5, bandwidth: 5, modulationIndex: 0.5 },
+  },
+  {
+    moduleId: 'modulation',
+    name: 'Cellular band (1.8 GHz)',
+    description: 'At GHz carriers the antenna fits inside a phone.',
+    params: { carrier: 95.6, bandwidth: 10, modulationIndex: 0.5 },
+  },
+  {
+    moduleId: 'modulation',
+    name: 'Full modulation',
+    description: 'k_a = 1: the envelope just touches zero.',
+    params: { carrier: 5, bandwidth: 5, modulationIndex: 1 },
+  },
+  {
+    moduleId: 'mimo',
+    name: 'Well-separated users',
+    description: 'Two users at ±60° on an 8-element array: each sits near the other beam\'s null.',
+    params: { elements: 8, spacing: 0.5, snr: 10, users: [{ id: 1, x: 200, y: 255 }, { id: 2, x: 600, y: 255 }] },
+  },
+  {
+    moduleId: 'mimo',
+    name: 'Users in the same beam',
+    description: 'Two users only a few degrees apart: the beams overlap and SINR collapses.',
+    params: { elements: 8, spacing: 0.5, snr: 10, users: [{ id: 1, x: 390, y: 150 }, { id: 2, x: 410, y: 150 }] },
+  },
+  {
+    moduleId: 'mimo',
+    name: 'Grating lobes',
+    description: 'One-wavelength spacing makes each beam appear in two directions at once.',
+    params: { elements: 8, spacing: 1, snr: 10, users: [{ id: 1, x: 250, y: 150 }, { id: 2, x: 560, y: 200 }] },
+  },
+  {
+    moduleId: 'mimo',
+    name: 'Massive array',
+    description: '32 elements give pencil beams that separate even closely spaced users.',
+    params: { elements: 32, spacing: 0.5, snr: 10, users: [{ id: 1, x: 340, y: 120 }, { id: 2, x: 460, y: 120 }, { id: 3, x: 150, y: 250 }] },
+  },
+  {
+    moduleId: 'mimo',
+    name: '4×4 spatial multiplexing',
+    description: 'Four uncorrelated streams: capacity grows roughly four times faster with SNR than a single antenna.',
+    params: { view: 'multiplexing', nt: 4, nr: 4, capacitySnr: 20, channelModel: 'iid' },
+  },
+  {
+    moduleId: 'mimo',
+    name: 'Correlated antennas',
+    description: 'Kronecker correlation r = 0.9 collapses the weaker eigen-channels and most of the multiplexing gain.',
+    params: { view: 'multiplexing', nt: 4, nr: 4, capacitySnr: 20, channelModel: 'kronecker', correlation: 0.9 },
+  },
+  {
+    moduleId: 'mimo',
+    name: 'Low-SNR water-filling',
+    description: 'At 0 dB the transmitter pours nearly all power into the strongest eigen-channel.',
+    params: { view: 'multiplexing', nt: 4, nr: 4, capacitySnr: 0, channelModel: 'iid' },
+  },
+];
@@ -0,0 +1,158 @@
+import type { TabId } from '../components/Sidebar';
+import type { Scenario } from './scenarios';
+
+const STORAGE_KEY = 'wireless-lab:state';
+const SAVE_DELAY_MS = 300;
+
+/**
+ * Bump this whenever a stored key is renamed or its shape changes, and add a
+ * migration from the previous version to MIGRATIONS below.
+ */
+export const STORAGE_VERSION = 2;
+
+export type ModuleState = Record<string, unknown>;
+
+export interface PersistedState {
+  version: number;
+  preferences: Record<string, unknown>;
+  modules: Partial<Record<TabId, ModuleState>>;
+  scenarios: Scenario[];
+}
+
+type StoredState = { version: number } & Record<string, unknown>;
+type Migration = (state: StoredState) => StoredState;
+
+/**
+ * MIGRATIONS[n] upgrades a state saved at version n to version n + 1.
+ * A stored state without a migration path is discarded rather than guessed at.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v2 adds the user's saved scenario library
+  1: state => ({ ...state, scenarios: [] }),
+};
+
+function emptyState(): PersistedState {
+  return { version: STORAGE_VERSION, preferences: {}, modules: {}, scenarios: [] };
+}
+
+function migrate(stored: StoredState): StoredState | null {
+  let current = stored;
+  while (current.version < STORAGE_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) return null;
+    current = { ...step(current), version: current.version + 1 };
+  }
+  return current.version === STORAGE_VERSION ? current : null;
+}
+
+function loadState(): PersistedState {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyState();
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.version !== 'number') return emptyState();
+    const migrated = migrate(parsed);
+    if (!migrated) return emptyState();
+    return {
+      version: STORAGE_VERSION,
+      preferences: (migrated.preferences as PersistedState['preferences']) ?? {},
+      modules: (migrated.modules as PersistedState['modules']) ?? {},
+      scenarios: Array.isArray(migrated.scenarios) ? migrated.scenarios : [],
+    };
+  } catch (e) {
+    // Storage unavailable (private mode) or corrupted: start fresh
+    return emptyState();
+  }
+}
+
+let state: PersistedState = loadState();
+let saveTimeout: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+// Defaults registered by the mounted simulators; never persisted
+const moduleDefaults: Partial<Record<TabId, ModuleState>> = {};
+
+function flush() {
+  if (saveTimeout === undefined) return;
+  clearTimeout(saveTimeout);
+  saveTimeout = undefined;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    // Ignore quota and availability errors; state still lives in memory
+  }
+}
+
+window.addEventListener('pagehide', flush);
+
+function commit(next: PersistedState) {
+  state = next;
+  if (saveTimeout !== undefined) clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(flush, SAVE_DELAY_MS);
+  listeners.forEach(listener => listener());
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getModuleState(moduleId: TabId): ModuleState | undefined {
+  return state.modules[moduleId];
+}
+
+/** Stores one value of a module. */
+export function setModuleValue(moduleId: TabId, key: string, value: unknown) {
+  commit({
+    ...state,
+    modules: { ...state.modules, [moduleId]: { ...state.modules[moduleId], [key]: value } },
+  });
+}
+
+/**
+ * Replaces everything stored for a module, e.g. when a scenario is loaded.
+ * Keys missing from `values` fall back to their defaults.
+ */
+export function replaceModuleState(moduleId: TabId, values: ModuleState) {
+  commit({ ...state, modules: { ...state.modules, [moduleId]: { ...values } } });
+}
+
+export function registerModuleDefault(moduleId: TabId, key: string, value: unknown) {
+  moduleDefaults[moduleId] = { ...moduleDefaults[moduleId], [key]: value };
+}
+
+/** The complete parameter set of a module: stored values over registered defaults. */
+export function getModuleSnapshot(moduleId: TabId): ModuleState {
+  return { ...moduleDefaults[moduleId], ...state.modules[moduleId] };
+}
+
+export function resetModuleState(moduleId: TabId) {
+  const { [moduleId]: _removed, ...modules } = state.modules;
+  commit({ ...state, modules });
+}
+
+export function getPreference<T>(key: string, fallback: T): T {
+  const value = state.preferences[key];
+  return typeof value === typeof fallback ? (value as T) : fallback;
+}
+
+export function setPreference(key: string, value: unknown) {
+  commit({ ...state, preferences: { ...state.preferences, [key]: value } });
+}
+
+export function getSavedScenarios(): Scenario[] {
+  return state.scenarios;
+}
+
+/** Adds scenarios to the library, replacing any with the same module and name. */
+export function saveScenarios(scenarios: Scenario[]) {
+  const replaced = (existing: Scenario) =>
+    scenarios.some(s => s.moduleId === existing.moduleId && s.name === existing.name);
+  commit({ ...state, scenarios: [...state.scenarios.filter(s => !replaced(s)), ...scenarios] });
+}
+
+export function deleteScenario(moduleId: TabId, name: string) {
+  commit({ ...state, scenarios: state.scenarios.filter(s => s.moduleId !== moduleId || s.name !== name) });
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { calculateErlangB, calculateRetrialFixedPoint } from './math';
+import { seededRandom } from './propagation';
+import {
+  analyticBlocking,
+  analyticDropping,
+  advanceTrunking,
+  advanceTrunkingBatch,
+  batchMeasured,
+  batchResult,
+  configAtHour,
+  createTrunkingBatch,
+  createTrunkingEngine,
+  isAnalyticApproximate,
+  isProfileSilent,
+  profileDailyTotal,
+  PROFILE_PRESETS,
+  runTrunkingBatch,
+  type TrunkingConfig
+} from './trunking';
+
+// C = 10 channels, mean holding time 2 min, A = 7 Erlangs
+const BASE: TrunkingConfig = { channels: 10, arrivalRate: 210, serviceRate: 30, mode: 'cleared' };
+const CALLS = 50000;
+
+describe('analyticBlocking', () => {
+  it('picks the formula that matches the config', () => {
+    expect(analyticBlocking(BASE)).toBeCloseTo(0.078741, 6);
+    expect(analyticBlocking({ ...BASE, mode: 'delayed' })).toBeCloseTo(0.221731, 6);
+    expect(analyticBlocking({ ...BASE, sources: 20 })).toBeCloseTo(0.008536, 6);
+    expect(analyticBlocking({ ...BASE, arrivalRate: 150, handoffRate: 30, guardChannels: 2 })).toBeCloseTo(0.134764, 6);
+    expect(analyticBlocking({ ...BASE, retryProbability: 0.8 })).toBeCloseTo(calculateRetrialFixedPoint(10, 7, 0.8).attemptBlocking, 12);
+  });
+
+  it('weights the hours of a profile by their offered traffic', () => {
+    const profile = [...new Array(12).fill(1), ...new Array(12).fill(0.5)];
+    const expected = (calculateErlangB(10, 7) + 0.5 * calculateErlangB(10, 3.5)) / 1.5;
+    expect(analyticBlocking({ ...BASE, profile })).toBeCloseTo(expected, 12);
+    expect(analyticBlocking({ ...BASE, profile: new Array(24).fill(1) })).toBeCloseTo(analyticBlocking(BASE), 12);
+  });
+
+  it('scales handoff traffic with the profile', () => {
+    const hour = configAtHour({ ...BASE, handoffRate: 30, profile: new Array(24).fill(0.5) }, 3);
+    expect(hour).toMatchObject({ arrivalRate: 105, handoffRate: 15, profile: undefined });
+  });
+
+  it('flags the formulas that only approximate the simulation', () => {
+    expect(isAnalyticApproximate(BASE)).toBe(false);
+    expect(isAnalyticApproximate({ ...BASE, sources: 20 })).toBe(false);
+    expect(isAnalyticApproximate({ ...BASE, retryProbability: 0.8 })).toBe(true);
+    expect(isAnalyticApproximate({ ...BASE, profile: new Array(24).fill(1) })).toBe(true);
+  });
+});
+
+describe('profile arrivals', () => {
+  // About half a call per day: most days pass without an arrival
+  const sparse: TrunkingConfig = { ...BASE, arrivalRate: 0.1, profile: PROFILE_PRESETS.stadium };
+
+  it('keeps calls coming at a low rate over a sparse profile', () => {
+    const engine = createTrunkingEngine(sparse, seededRandom(1));
+    advanceTrunking(engine, sparse, 3000 * 24);
+    const expected = 3000 * 0.1 * profileDailyTotal(sparse);
+    expect(Math.abs(engine.stats.offered - expected) / expected).toBeLessThan(0.1);
+    expect(engine.agenda.some(e => e.kind === 'arrival')).toBe(true);
+  });
+
+  it('measures every requested call in a batch', () => {
+    expect(runTrunkingBatch({ ...sparse, arrivalRate: 0.2 }, 500, seededRandom(1)).calls).toBe(500);
+  });
+
+  it('schedules nothing when every hour is at zero', () => {
+    const silent = { ...BASE, profile: new Array(24).fill(0) };
+    expect(isProfileSilent(silent)).toBe(true);
+    expect(isProfileSilent(sparse)).toBe(false);
+    expect(createTrunkingEngine(silent, seededRandom(1)).agenda).toHaveLength(0);
+    expect(runTrunkingBatch(silent, 500, seededRandom(1)).calls).toBe(0);
+  });
+});
+
+describe('runTrunkingBatch', () => {
+  it('measures the requested number of calls after the warm-up', () => {
+    const result = runTrunkingBatch(BASE, CALLS, seededRandom(1));
+    expect(result.calls).toBe(CALLS);
+    expect(result.load).toBe(7);
+    expect(result.ciLow).toBeLessThanOrEqual(result.estimate);
+    expect(result.ciHigh).toBeGreaterThanOrEqual(result.estimate);
+    expect(result.ciHigh - result.ciLow).toBeLessThan(0.02);
+  });
+
+  it('is reproducible with a seeded generator', () => {
+    expect(runTrunkingBatch(BASE, 5000, seededRandom(7))).toEqual(runTrunkingBatch(BASE, 5000, seededRandom(7)));
+  });
+
+  it('gives the same result when run in chunks', () => {
+    const batch = createTrunkingBatch(BASE, 5000, seededRandom(7));
+    while (!batch.done) {
+      advanceTrunkingBatch(batch, 321);
+      expect(batchMeasured(batch)).toBeLessThanOrEqual(5000);
+    }
+    expect(batchResult(batch)).toEqual(runTrunkingBatch(BASE, 5000, seededRandom(7)));
+  });
+
+  it.each([
+    ['Erlang B', BASE],
+    ['Erlang C', { ...BASE, mode: 'delayed' as const }],
+    ['Engset', { ...BASE, sources: 20 }],
+    ['guard channels', { ...BASE, arrivalRate: 150, handoffRate: 30, guardChannels: 2 }]
+  ])('covers the %s value with its confidence interval', (_, config) => {
+    const result = runTrunkingBatch(config, CALLS, seededRandom(1));
+    expect(result.approximate).toBe(false);
+    expect(result.analytic).toBeGreaterThanOrEqual(result.ciLow);
+    expect(result.analytic).toBeLessThanOrEqual(result.ciHigh);
+  });
+
+  it('estimates handoff dropping separately', () => {
+    const config = { ...BASE, arrivalRate: 150, handoffRate: 30, guardChannels: 2 };
+    const result = runTrunkingBatch(config, CALLS, seededRandom(1));
+    expect(result.handoff).toBeDefined();
+    expect(result.handoff!.analytic).toBeCloseTo(analyticDropping(config), 12);
+    expect(result.handoff!.analytic).toBeGreaterThanOrEqual(result.handoff!.ciLow);
+    expect(result.handoff!.analytic).toBeLessThanOrEqual(result.handoff!.ciHigh);
+  });
+
+  it('blocks more redials than the Poisson-retrial approximation predicts', () => {
+    // Redials after a short delay find the cell still congested
+    const result = runTrunkingBatch({ ...BASE, retryProbability: 0.8, retryDelay: 0.1 }, CALLS, seededRandom(1));
+    expect(result.approximate).toBe(true);
+    expect(result.estimate).toBeGreaterThan(result.analytic);
+  });
+});
@@ -0,0 +1,579 @@
+import {
+  calculateEngsetBlocking,
+  calculateErlangB,
+  calculateErlangC,
+  calculateGuardChannelProbabilities,
+  calculateRetrialFixedPoint
+} from './math';
+
+export type TrunkingMode = 'cleared' | 'delayed';
+
+export interface TrunkingConfig {
+  channels: number;
+  arrivalRate: number; // lambda, calls per hour
+  serviceRate: number; // mu, 1 / mean holding time in hours
+  mode: TrunkingMode;
+  /**
+   * Finite population size N (Engset). Each idle source calls at rate λ / N,
+   * so λ is the total rate with every source idle. Omit for infinite sources.
+   */
+  sources?: number;
+  /** Handoff arrival rate λ_h in calls per hour; λ is then the new-call rate. */
+  handoffRate?: number;
+  /** Channels only handoff calls may take (blocked calls cleared only). */
+  guardChannels?: number;
+  /** Probability that a blocked new call is redialled (blocked calls cleared only). */
+  retryProbability?: number;
+  /** Mean delay before a redial, in hours. */
+  retryDelay?: number;
+  /**
+   * 24 hourly multipliers of λ and λ_h (infinite sources only). Arrivals then
+   * follow a non-homogeneous Poisson process whose rate changes on the hour.
+   */
+  profile?: number[];
+}
+
+export type ProfilePreset = 'flat' | 'office' | 'residential' | 'stadium';
+
+/** Typical daily shapes as a fraction of the busy-hour rate, hours 0 to 23. */
+export const PROFILE_PRESETS: Record<ProfilePreset, number[]> = {
+  flat: new Array(24).fill(1),
+  office: [0.05, 0.03, 0.03, 0.03, 0.04, 0.06, 0.12, 0.3, 0.65, 0.9, 1, 0.95, 0.7, 0.75, 0.9, 0.85, 0.7, 0.45, 0.25, 0.15, 0.12, 0.1, 0.08, 0.06],
+  residential: [0.15, 0.08, 0.05, 0.04, 0.04, 0.06, 0.15, 0.3, 0.35, 0.3, 0.3, 0.35, 0.4, 0.38, 0.35, 0.38, 0.45, 0.6, 0.8, 0.95, 1, 0.85, 0.55, 0.3],
+  stadium: [0.02, 0.02, 0.02, 0.02, 0.02, 0.02, 0.03, 0.05, 0.05, 0.05, 0.05, 0.06, 0.08, 0.08, 0.1, 0.15, 0.3, 0.6, 0.85, 0.7, 1, 0.75, 0.25, 0.06],
+};
+
+export const HOURS_PER_DAY = 24;
+
+/** Rate multiplier in force at time t (hours). */
+export function profileMultiplier(config: TrunkingConfig, t: number): number {
+  if (!config.profile) return 1;
+  return config.profile[Math.floor(t) % HOURS_PER_DAY] ?? 1;
+}
+
+/** Sum of the hourly multipliers: a day offers this many busy hours' worth of calls. */
+export function profileDailyTotal(config: TrunkingConfig): number {
+  let total = 0;
+  for (let h = 0; h < HOURS_PER_DAY; h++) total += profileMultiplier(config, h);
+  return total;
+}
+
+/** True when a traffic profile holds every hour at zero, so no call ever arrives. */
+export function isProfileSilent(config: TrunkingConfig): boolean {
+  return config.profile !== undefined && profileDailyTotal(config) <= 0;
+}
+
+export type CallClass = 'new' | 'handoff';
+
+export type CallOutcome = 'active' | 'queued' | 'completed' | 'blocked';
+
+export interface CallRecord {
+  id: number;
+  callClass: CallClass;
+  attempt: number; // 1 for a fresh call, 2+ for redials
+  arrival: number;
+  holding: number; // Sampled holding time, used once the call gets a channel
+  start: number | null; // Time the call was given a channel
+  end: number | null;
+  outcome: CallOutcome;
+}
+
+export type TrunkingEventType = 'connected' | 'blocked' | 'queued' | 'dequeued' | 'completed';
+
+export interface TrunkingEvent {
+  type: TrunkingEventType;
+  time: number;
+  callId: number;
+  callClass: CallClass;
+  attempt: number;
+  retrying?: boolean; // Set on blocked events when the caller will redial
+}
+
+interface ScheduledEvent {
+  time: number;
+  kind: 'arrival' | 'departure' | 'retry';
+  callId: number;
+  attempt?: number; // Attempt number of a scheduled redial
+}
+
+export interface TrunkingStats {
+  offered: number;
+  blocked: number;
+  delayed: number;
+  completed: number;
+  served: number; // Calls that got a channel, directly or after queueing
+  totalWait: number;
+  handoffOffered: number; // Handoff share of offered
+  handoffBlocked: number; // Handoff share of blocked, i.e. dropped calls
+  retries: number; // Redial share of offered
+  abandoned: number; // Blocked new calls whose caller gave up
+}
+
+/** Measurements for one hour of the day, accumulated over every simulated day. */
+export interface HourTally {
+  offered: number;
+  blocked: number; // Blocked (cleared) or delayed (delayed) attempts
+  busyTime: number; // Integral of busy channels over time, in channel-hours
+  time: number; // Simulated hours spent in this hour of the day
+}
+
+/**
+ * State of an event-driven M/M/C/C (or M/M/C) simulation. The clock is
+ * virtual: it only moves when the engine is advanced, independent of wall time.
+ */
+export interface TrunkingEngine {
+  clock: number;
+  busy: number;
+  queue: number[]; // Ids of waiting calls, oldest first
+  agenda: ScheduledEvent[]; // Pending events sorted by time
+  records: CallRecord[]; // Most recent calls, newest first
+  live: Map<number, CallRecord>; // Calls still active or queued
+  waits: number[]; // Queueing delay of the most recent calls that got a channel
+  stats: TrunkingStats;
+  hourly: HourTally[]; // Indexed by hour of the day
+  nextId: number;
+  rng: () => number;
+}
+
+const MAX_RECORDS = 200;
+const MAX_WAITS = 5000;
+
+/** Samples an exponential random variable with the given rate. */
+export function exponential(rate: number, rng: () => number = Math.random): number {
+  return -Math.log(1 - rng()) / rate;
+}
+
+/**
+ * Moves the clock forward, crediting the busy-channel time to each hour of
+ * the day the interval crosses.
+ */
+function advanceClock(engine: TrunkingEngine, to: number) {
+  while (engine.clock < to) {
+    const boundary = Math.min(to, Math.floor(engine.clock) + 1);
+    const tally = engine.hourly[Math.floor(engine.clock) % HOURS_PER_DAY];
+    tally.busyTime += engine.busy * (boundary - engine.clock);
+    tally.time += boundary - engine.clock;
+    engine.clock = boundary;
+  }
+}
+
+function schedule(engine: TrunkingEngine, event: ScheduledEvent) {
+  // Binary insertion keeps the agenda sorted; ties keep insertion order
+  let lo = 0;
+  let hi = engine.agenda.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (engine.agenda[mid].time <= event.time) lo = mid + 1;
+    else hi = mid;
+  }
+  engine.agenda.splice(lo, 0, event);
+}
+
+export function createTrunkingEngine(config: TrunkingConfig, rng: () => number = Math.random): TrunkingEngine {
+  const engine: TrunkingEngine = {
+    clock: 0,
+    busy: 0,
+    queue: [],
+    agenda: [],
+    records: [],
+    live: new Map(),
+    waits: [],
+    stats: { offered: 0, blocked: 0, delayed: 0, completed: 0, served: 0, totalWait: 0, handoffOffered: 0, handoffBlocked: 0, retries: 0, abandoned: 0 },
+    hourly: Array.from({ length: HOURS_PER_DAY }, () => ({ offered: 0, blocked: 0, busyTime: 0, time: 0 })),
+    nextId: 1,
+    rng,
+  };
+  rescheduleArrival(engine, config);
+  return engine;
+}
+
+/**
+ * Current total arrival rate; with finite sources only idle ones can call.
+ * Any traffic profile is applied on top, hour by hour.
+ */
+export function currentArrivalRate(engine: TrunkingEngine, config: TrunkingConfig): number {
+  if (config.sources === undefined) return config.arrivalRate + (config.handoffRate ?? 0);
+  const idle = Math.max(0, config.sources - engine.busy - engine.queue.length);
+  return (idle * config.arrivalRate) / config.sources;
+}
+
+/**
+ * Replaces the pending arrival with a fresh exponential inter-arrival time.
+ * Memorylessness makes this exact, so it is safe after λ changes mid-run and
+ * after every state change of a finite-source system.
+ *
+ * With a traffic profile the rate is piecewise constant, so the next arrival
+ * comes from inverting the integrated rate: a unit exponential is spent hour
+ * by hour until it runs out. Whole days are spent at once, so a low rate over
+ * a sparse profile still finds its arrival; only a silent profile has none.
+ */
+export function rescheduleArrival(engine: TrunkingEngine, config: TrunkingConfig) {
+  engine.agenda = engine.agenda.filter(e => e.kind !== 'arrival');
+  const rate = currentArrivalRate(engine, config);
+  if (rate <= 0) return;
+  if (!config.profile || config.sources !== undefined) {
+    schedule(engine, { time: engine.clock + exponential(rate, engine.rng), kind: 'arrival', callId: 0 });
+    return;
+  }
+
+  const daily = rate * profileDailyTotal(config);
+  if (daily <= 0) return;
+  let remaining = exponential(1, engine.rng);
+  let t = engine.clock;
+  for (;;) {
+    const boundary = Math.floor(t) + 1;
+    const hourRate = rate * profileMultiplier(config, t);
+    if (hourRate > 0 && hourRate * (boundary - t) >= remaining) {
+      schedule(engine, { time: t + remaining / hourRate, kind: 'arrival', callId: 0 });
+      return;
+    }
+    remaining -= hourRate * (boundary - t);
+    t = boundary;
+    // Skip the days that pass without an arrival, leaving at most one day to walk
+    if (t % HOURS_PER_DAY === 0 && remaining > daily) {
+      const days = Math.ceil(remaining / daily) - 1;
+      remaining -= days * daily;
+      t += days * HOURS_PER_DAY;
+    }
+  }
+}
+
+function startService(engine: TrunkingEngine, call: CallRecord) {
+  call.start = engine.clock;
+  call.outcome = 'active';
+  engine.busy++;
+  const wait = call.start - call.arrival;
+  engine.stats.served++;
+  engine.stats.totalWait += wait;
+  engine.waits.push(wait);
+  if (engine.waits.length > MAX_WAITS) engine.waits.shift();
+  schedule(engine, { time: engine.clock + call.holding, kind: 'departure', callId: call.id });
+}
+
+/** Picks the class of an arrival in proportion to the two arrival rates. */
+function sampleClass(engine: TrunkingEngine, config: TrunkingConfig): CallClass {
+  const handoffRate = config.handoffRate ?? 0;
+  if (handoffRate <= 0) return 'new';
+  return engine.rng() * (config.arrivalRate + handoffRate) < handoffRate ? 'handoff' : 'new';
+}
+
+/**
+ * Offers a call at the current clock and returns what happened to it. New
+ * calls may not take the last `guardChannels` free channels.
+ */
+export function offerCall(engine: TrunkingEngine, config: TrunkingConfig, callClass = sampleClass(engine, config), attempt = 1): TrunkingEvent {
+  const call: CallRecord = {
+    id: engine.nextId++,
+    callClass,
+    attempt,
+    arrival: engine.clock,
+    holding: exponential(config.serviceRate, engine.rng),
+    start: null,
+    end: null,
+    outcome: 'blocked',
+  };
+  engine.records.unshift(call);
+  if (engine.records.length > MAX_RECORDS) engine.records.pop();
+  const tally = engine.hourly[Math.floor(engine.clock) % HOURS_PER_DAY];
+  engine.stats.offered++;
+  tally.offered++;
+  if (callClass === 'handoff') engine.stats.handoffOffered++;
+  if (attempt > 1) engine.stats.retries++;
+
+  const limit = callClass === 'new' ? config.channels - (config.guardChannels ?? 0) : config.channels;
+  if (engine.busy < limit) {
+    engine.live.set(call.id, call);
+    startService(engine, call);
+    return { type: 'connected', time: engine.clock, callId: call.id, callClass, attempt };
+  }
+  if (config.mode === 'delayed') {
+    engine.live.set(call.id, call);
+    call.outcome = 'queued';
+    engine.queue.push(call.id);
+    engine.stats.delayed++;
+    tally.blocked++;
+    return { type: 'queued', time: engine.clock, callId: call.id, callClass, attempt };
+  }
+  call.end = engine.clock;
+  engine.stats.blocked++;
+  tally.blocked++;
+  if (callClass === 'handoff') {
+    engine.stats.handoffBlocked++;
+    return { type: 'blocked', time: engine.clock, callId: call.id, callClass, attempt };
+  }
+
+  // A blocked caller may redial after an exponential delay
+  const retrying = (config.retryProbability ?? 0) > 0 && engine.rng() < config.retryProbability!;
+  if (retrying) {
+    schedule(engine, {
+      time: engine.clock + exponential(1 / (config.retryDelay ?? 0.1), engine.rng),
+      kind: 'retry',
+      callId: call.id,
+      attempt: attempt + 1,
+    });
+  } else {
+    engine.stats.abandoned++;
+  }
+  return { type: 'blocked', time: engine.clock, callId: call.id, callClass, attempt, retrying };
+}
+
+/** Processes the next scheduled event, moving the clock to its time. */
+export function stepTrunking(engine: TrunkingEngine, config: TrunkingConfig): TrunkingEvent[] {
+  const event = engine.agenda.shift();
+  if (!event) return [];
+  advanceClock(engine, event.time);
+
+  if (event.kind === 'arrival') {
+    const result = offerCall(engine, config);
+    rescheduleArrival(engine, config);
+    return [result];
+  }
+  if (event.kind === 'retry') {
+    return [offerCall(engine, config, 'new', event.attempt)];
+  }
+
+  const call = engine.live.get(event.callId);
+  engine.busy--;
+  engine.stats.completed++;
+  if (call) {
+    call.end = engine.clock;
+    call.outcome = 'completed';
+    engine.live.delete(call.id);
+  }
+  const events: TrunkingEvent[] = [{ type: 'completed', time: engine.clock, callId: event.callId, callClass: call?.callClass ?? 'new', attempt: call?.attempt ?? 1 }];
+
+  // The freed channel goes to the head of the queue
+  if (engine.queue.length > 0 && engine.busy < config.channels) {
+    const nextId = engine.queue.shift()!;
+    const waiting = engine.live.get(nextId);
+    if (waiting) {
+      startService(engine, waiting);
+      events.push({ type: 'dequeued', time: engine.clock, callId: nextId, callClass: waiting.callClass, attempt: waiting.attempt });
+    }
+  }
+  if (config.sources !== undefined) rescheduleArrival(engine, config);
+  return events;
+}
+
+/** Processes every event up to `until` and leaves the clock there. */
+export function advanceTrunking(engine: TrunkingEngine, config: TrunkingConfig, until: number): TrunkingEvent[] {
+  const events: TrunkingEvent[] = [];
+  while (engine.agenda.length > 0 && engine.agenda[0].time <= until) {
+    events.push(...stepTrunking(engine, config));
+  }
+  advanceClock(engine, until);
+  return events;
+}
+
+/** True when blocked callers may redial. */
+export function hasRetrials(config: TrunkingConfig): boolean {
+  return (config.retryProbability ?? 0) > 0;
+}
+
+/**
+ * True when `analyticBlocking` only approximates the simulated system, so a
+ * batch estimate need not land on it. The retrial fixed point treats redials
+ * as Poisson, whereas the simulator redials each caller after its own delay.
+ * A profile average assumes every hour reaches steady state, whereas the
+ * simulated system lags behind the changing rate.
+ */
+export function isAnalyticApproximate(config: TrunkingConfig): boolean {
+  return config.profile !== undefined || (config.mode === 'cleared' && hasRetrials(config));
+}
+
+/** True when the config has handoff traffic or guard channels to model. */
+export function hasHandoffPriority(config: TrunkingConfig): boolean {
+  return (config.handoffRate ?? 0) > 0 || (config.guardChannels ?? 0) > 0;
+}
+
+/** The same config frozen at one hour of its traffic profile. */
+export function configAtHour(config: TrunkingConfig, hour: number): TrunkingConfig {
+  const m = profileMultiplier(config, hour);
+  return {
+    ...config,
+    arrivalRate: config.arrivalRate * m,
+    handoffRate: config.handoffRate !== undefined ? config.handoffRate * m : undefined,
+    profile: undefined,
+  };
+}
+
+/**
+ * Averages a per-hour formula over the day, weighted by each hour's share of
+ * the offered calls. Each hour is treated as if it had reached steady state.
+ */
+function averageOverProfile(config: TrunkingConfig, formula: (config: TrunkingConfig) => number): number {
+  let weighted = 0;
+  let total = 0;
+  for (let h = 0; h < HOURS_PER_DAY; h++) {
+    const m = profileMultiplier(config, h);
+    weighted += m * formula(configAtHour(config, h));
+    total += m;
+  }
+  return total > 0 ? weighted / total : 0;
+}
+
+/**
+ * The formula a batch run is compared with for new calls: Erlang C for
+ * delayed calls, Engset for a finite population, the guard-channel chain when
+ * handoffs are prioritised, the Poisson-retrial fixed point (per attempt) when
+ * callers redial, Erlang B otherwise. A traffic profile averages it over the day.
+ * `isAnalyticApproximate` tells which of these the simulation need not match.
+ */
+export function analyticBlocking(config: TrunkingConfig): number {
+  if (config.profile) return averageOverProfile(config, analyticBlocking);
+  const load = config.arrivalRate / config.serviceRate;
+  if (config.mode === 'delayed') return calculateErlangC(config.channels, load);
+  if (hasRetrials(config)) return calculateRetrialFixedPoint(config.channels, load, config.retryProbability!).attemptBlocking;
+  if (config.sources !== undefined) return calculateEngsetBlocking(config.channels, config.sources, load / config.sources);
+  if (hasHandoffPriority(config)) {
+    return calculateGuardChannelProbabilities(config.channels, config.guardChannels ?? 0, load, (config.handoffRate ?? 0) / config.serviceRate).newCallBlocking;
+  }
+  return calculateErlangB(config.channels, load);
+}
+
+/** Analytic handoff-dropping probability of the guard-channel chain. */
+export function analyticDropping(config: TrunkingConfig): number {
+  if (config.profile) return averageOverProfile(config, analyticDropping);
+  return calculateGuardChannelProbabilities(
+    config.channels,
+    config.guardChannels ?? 0,
+    config.arrivalRate / config.serviceRate,
+    (config.handoffRate ?? 0) / config.serviceRate
+  ).handoffDropping;
+}
+
+export interface BatchEstimate {
+  estimate: number;
+  ciLow: number;
+  ciHigh: number;
+  analytic: number;
+}
+
+export interface BatchResult {
+  mode: TrunkingMode;
+  channels: number;
+  sources?: number;
+  handoffRate?: number;
+  guardChannels?: number;
+  retryProbability?: number;
+  retryDelay?: number;
+  profile?: number[];
+  load: number; // New-call traffic A in Erlangs
+  calls: number;
+  estimate: number; // Fraction of measured new-call attempts blocked (cleared) or delayed (delayed)
+  ciLow: number;
+  ciHigh: number;
+  analytic: number; // The matching formula at the same load
+  approximate: boolean; // The formula is only an approximation of the simulated system
+  handoff?: BatchEstimate; // Handoff dropping, when there is handoff traffic
+}
+
+const BATCH_COUNT = 20;
+const T_QUANTILE = 2.093; // Student t, 97.5% two-sided, 19 degrees of freedom
+
+function batchMeans(hits: number[], sizes: number[], analytic: number): BatchEstimate {
+  const ratios = sizes.map((n, i) => (n > 0 ? hits[i] / n : 0)).filter((_, i) => sizes[i] > 0);
+  const total = hits.reduce((sum, h) => sum + h, 0);
+  const measured = sizes.reduce((sum, n) => sum + n, 0);
+  const estimate = measured > 0 ? total / measured : 0;
+  const mean = ratios.reduce((sum, r) => sum + r, 0) / Math.max(ratios.length, 1);
+  const variance = ratios.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(ratios.length - 1, 1);
+  const halfWidth = T_QUANTILE * Math.sqrt(variance / Math.max(ratios.length, 1));
+  return { estimate, ciLow: Math.max(0, estimate - halfWidth), ciHigh: Math.min(1, estimate + halfWidth), analytic };
+}
+
+type BatchTally = Record<CallClass, { hits: number[]; sizes: number[] }>;
+
+/** A batch run in progress, advanced a few calls at a time. */
+export interface TrunkingBatch {
+  config: TrunkingConfig;
+  calls: number; // Calls to measure after the warm-up
+  warmup: number; // Calls discarded first
+  batchSize: number;
+  engine: TrunkingEngine;
+  arrivals: number; // Attempts seen so far, warm-up included
+  done: boolean; // Every call measured, or no call left to arrive
+  tally: BatchTally;
+}
+
+export function createTrunkingBatch(config: TrunkingConfig, calls: number, rng: () => number = Math.random): TrunkingBatch {
+  const engine = createTrunkingEngine(config, rng);
+  const warmup = Math.min(1000, Math.floor(calls / 10));
+  return {
+    config,
+    calls,
+    warmup,
+    batchSize: Math.max(1, Math.floor(calls / BATCH_COUNT)),
+    engine,
+    arrivals: 0,
+    done: engine.agenda.length === 0,
+    tally: {
+      new: { hits: new Array(BATCH_COUNT).fill(0), sizes: new Array(BATCH_COUNT).fill(0) },
+      handoff: { hits: new Array(BATCH_COUNT).fill(0), sizes: new Array(BATCH_COUNT).fill(0) },
+    },
+  };
+}
+
+/** Calls of a batch measured so far, i.e. after the warm-up. */
+export function batchMeasured(batch: TrunkingBatch): number {
+  return Math.max(0, batch.arrivals - batch.warmup);
+}
+
+/** Simulates the next `count` attempts of the batch, stopping at the requested total. */
+export function advanceTrunkingBatch(batch: TrunkingBatch, count: number) {
+  const { config, engine, warmup, batchSize, tally } = batch;
+  const missType: TrunkingEventType = config.mode === 'delayed' ? 'queued' : 'blocked';
+  const last = Math.min(batch.arrivals + count, warmup + batch.calls);
+
+  while (batch.arrivals < last && engine.agenda.length > 0) {
+    for (const event of stepTrunking(engine, config)) {
+      if (event.type !== 'connected' && event.type !== missType) continue;
+      const measured = batch.arrivals - warmup;
+      batch.arrivals++;
+      if (measured < 0) continue;
+      const index = Math.min(BATCH_COUNT - 1, Math.floor(measured / batchSize));
+      const counts = tally[event.callClass];
+      counts.sizes[index]++;
+      if (event.type === missType) counts.hits[index]++;
+    }
+  }
+  batch.done = batch.arrivals >= warmup + batch.calls || engine.agenda.length === 0;
+}
+
+/** Estimates from the calls measured so far. */
+export function batchResult(batch: TrunkingBatch): BatchResult {
+  const { config, tally } = batch;
+  const newCalls = batchMeans(tally.new.hits, tally.new.sizes, analyticBlocking(config));
+  const load = config.arrivalRate / config.serviceRate;
+  return {
+    mode: config.mode,
+    channels: config.channels,
+    sources: config.sources,
+    handoffRate: config.handoffRate,
+    guardChannels: config.guardChannels,
+    retryProbability: config.retryProbability,
+    retryDelay: config.retryDelay,
+    profile: config.profile,
+    load,
+    calls: batchMeasured(batch),
+    ...newCalls,
+    approximate: isAnalyticApproximate(config),
+    handoff: (config.handoffRate ?? 0) > 0 ? batchMeans(tally.handoff.hits, tally.handoff.sizes, analyticDropping(config)) : undefined,
+  };
+}
+
+/**
+ * Runs `calls` arrivals as fast as possible and estimates the blocking (or
+ * delay) probability with a 95% confidence interval from the method of batch
+ * means: the measured calls are split into 20 consecutive batches whose
+ * ratios are treated as roughly independent samples.
+ *
+ * The first 10% of calls (at most 1000) are discarded as warm-up, since the
+ * system starts empty. New calls and handoff calls are estimated separately;
+ * redials count as attempts of their own.
+ */
+export function runTrunkingBatch(config: TrunkingConfig, calls: number, rng: () => number = Math.random): BatchResult {
+  const batch = createTrunkingBatch(config, calls, rng);
+  advanceTrunkingBatch(batch, batch.warmup + calls);
+  return batchResult(batch);
+}